@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useRef, useState, type FormEvent } from "react";
-import { Link, Navigate, Route, Routes, useNavigate, useParams } from "react-router-dom";
+import { Link, Navigate, Route, Routes, useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { useCan, useDelete, useList, useUpdate, useCreate } from "@refinedev/core";
 import {
   AppShell,
@@ -23,9 +23,14 @@ import {
   MediaImageList,
   Planimetry,
   Settings,
+  ShieldCheck,
+  StatsReport,
+  Tools,
   User
 } from "iconoir-react";
 import Hls from "hls.js";
+import { formatTenantDateTime, type TenantDisplaySettings } from "@app/shared";
+import { accessTokenExpiresWithin, clearSession, logoutSession, refreshAccessToken, storeSessionTokens } from "./security";
 
 type AppProps = { apiUrl: string };
 const EVENT_GATEWAY_URL = import.meta.env.VITE_EVENT_GATEWAY_URL ?? "http://localhost:3011";
@@ -40,6 +45,9 @@ const ADMIN_ROUTES = {
     clientOverview: "/resources/client-overview",
     faceCases: "/resources/faces",
     cameras: "/resources/cameras",
+    sites: "/resources/sites",
+    maintenance: "/resources/maintenance",
+    uptime: "/resources/uptime",
     cameraDetail: (id: string) => `/resources/cameras/${id}`,
     faceCaseDetail: (id: string) => `/resources/faces/${id}`,
     notifications: "/resources/notifications"
@@ -48,7 +56,17 @@ const ADMIN_ROUTES = {
     tenants: "/identity/tenants",
     users: "/identity/users",
     memberships: "/identity/memberships",
-    cameraAssignments: "/identity/camera-assignments"
+    cameraAssignments: "/identity/camera-assignments",
+    security: "/identity/security",
+    sso: "/identity/sso",
+    invitations: "/identity/invitations",
+    serviceAccounts: "/identity/service-accounts",
+    roles: "/identity/roles",
+    supportAccess: "/identity/support-access",
+    platformRoles: "/identity/platform-roles",
+    exports: "/identity/exports",
+    resellerClients: "/identity/reseller-clients",
+    settings: "/identity/settings"
   },
   commercial: {
     plans: "/commercial/plans",
@@ -489,6 +507,14 @@ function buildPlaybackUrl(args: { tenantId: string; cameraId: string; token: str
   return base.toString();
 }
 
+// El endpoint WHEP vive junto al manifiesto en vivo y acepta el mismo token de playback.
+function toWhepUrl(playbackUrl: string) {
+  const url = new URL(playbackUrl);
+  if (!url.pathname.endsWith("/index.m3u8")) return null;
+  url.pathname = url.pathname.replace(/\/index\.m3u8$/, "/whep");
+  return url.toString();
+}
+
 function toWsUrl(httpUrl: string) {
   const url = new URL(httpUrl);
   url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
@@ -510,6 +536,13 @@ function getTenantId() {
   return localStorage.getItem("nearhome_active_tenant");
 }
 
+// Zona horaria y locale del tenant activo, tomados de /auth/me en cada refresh de sesión.
+let tenantDisplay: TenantDisplaySettings | null = null;
+
+function formatDateTime(value: string | number | Date, style: "datetime" | "date" | "time" = "datetime") {
+  return formatTenantDateTime(value, tenantDisplay, style);
+}
+
 function getImpersonateRole() {
   return localStorage.getItem("nearhome_impersonate_role");
 }
@@ -706,6 +739,22 @@ function useSession(apiUrl: string) {
   const [me, setMe] = useState<any>(null);
   const navigate = useNavigate();
 
+  const endSession = () => {
+    clearSession();
+    setMe(null);
+    setLoading(false);
+    navigate("/login");
+  };
+
+  const fetchMe = () =>
+    fetch(`${apiUrl}/auth/me`, {
+      headers: {
+        Authorization: `Bearer ${getToken()}`,
+        ...(getTenantId() ? { "X-Tenant-Id": getTenantId()! } : {}),
+        ...(getImpersonateRole() ? { "X-Impersonate-Role": getImpersonateRole()! } : {})
+      }
+    });
+
   const refresh = async () => {
     const token = getToken();
     if (!token) {
@@ -715,46 +764,34 @@ function useSession(apiUrl: string) {
     }
 
     try {
-      const res = await fetch(`${apiUrl}/auth/me`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          ...(getTenantId() ? { "X-Tenant-Id": getTenantId()! } : {}),
-          ...(getImpersonateRole() ? { "X-Impersonate-Role": getImpersonateRole()! } : {})
-        }
-      });
-      if (!res.ok) {
-        localStorage.removeItem("nearhome_access_token");
-        localStorage.removeItem("nearhome_active_tenant");
+      let res = await fetchMe();
+      if (res.status === 401 && (await refreshAccessToken())) {
+        res = await fetchMe();
+      }
+      if (res.status === 403 && getImpersonateRole()) {
+        // The impersonation grant expired or was revoked: fall back to the superuser's own context.
         localStorage.removeItem("nearhome_impersonate_role");
-        setMe(null);
-        setLoading(false);
-        navigate("/login");
+        res = await fetchMe();
+      }
+      if (!res.ok) {
+        endSession();
         return;
       }
 
       const data = await res.json();
       if (!hasBackofficeAccess(data)) {
-        localStorage.removeItem("nearhome_access_token");
-        localStorage.removeItem("nearhome_active_tenant");
-        localStorage.removeItem("nearhome_impersonate_role");
-        setMe(null);
-        setLoading(false);
-        navigate("/login");
+        endSession();
         return;
       }
       localStorage.setItem("nearhome_me", JSON.stringify(data));
       if (!getTenantId() && data.memberships?.[0]?.tenantId) {
         localStorage.setItem("nearhome_active_tenant", data.memberships[0].tenantId);
       }
+      tenantDisplay = data.tenantSettings ?? null;
       setMe(data);
       setLoading(false);
     } catch {
-      localStorage.removeItem("nearhome_access_token");
-      localStorage.removeItem("nearhome_active_tenant");
-      localStorage.removeItem("nearhome_impersonate_role");
-      setMe(null);
-      setLoading(false);
-      navigate("/login");
+      endSession();
     }
   };
 
@@ -763,14 +800,69 @@ function useSession(apiUrl: string) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    // Pages call the API with raw fetch, so keep the short-lived access token fresh ahead of expiry.
+    const timer = window.setInterval(() => {
+      if (getToken() && accessTokenExpiresWithin(60_000)) {
+        void refreshAccessToken().then((ok) => {
+          if (!ok) endSession();
+        });
+      }
+    }, 30_000);
+    return () => window.clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   return { loading, me, refresh };
 }
 
 function LoginPage({ apiUrl }: { apiUrl: string }) {
   const navigate = useNavigate();
+  const location = useLocation();
   const [email, setEmail] = useState("admin@nearhome.dev");
   const [password, setPassword] = useState("demo1234");
+  // El callback SSO llega con el desafío 2FA pendiente cuando el tenant no delega el segundo factor al IdP.
+  const [challengeToken, setChallengeToken] = useState<string | null>(
+    () => (location.state as { challengeToken?: string } | null)?.challengeToken ?? null
+  );
+  const [secondFactor, setSecondFactor] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [ssoTenants, setSsoTenants] = useState<Array<{ tenantId: string; tenantName: string }> | null>(null);
+
+  async function startSso(tenantId: string) {
+    const res = await fetch(`${apiUrl}/auth/oidc/start`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ tenantId, redirectUri: `${window.location.origin}/auth/oidc/callback`, audience: "backoffice" })
+    });
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudo iniciar SSO"));
+      return;
+    }
+    window.location.assign((await res.json()).data.authorizationUrl);
+  }
+
+  async function onSso() {
+    setError(null);
+    const res = await fetch(`${apiUrl}/auth/oidc/discover?email=${encodeURIComponent(email)}`);
+    const tenants = res.ok ? ((await res.json()).data as Array<{ tenantId: string; tenantName: string }>) : [];
+    if (tenants.length === 0) {
+      setError("No hay SSO configurado para este email");
+      return;
+    }
+    if (tenants.length === 1) {
+      await startSso(tenants[0]!.tenantId);
+      return;
+    }
+    setSsoTenants(tenants);
+  }
+
+  function completeLogin(data: any) {
+    storeSessionTokens(data);
+    localStorage.removeItem("nearhome_impersonate_role");
+    navigate("/");
+  }
 
   async function onSubmit(e: FormEvent) {
     e.preventDefault();
@@ -787,29 +879,370 @@ function LoginPage({ apiUrl }: { apiUrl: string }) {
     }
 
     const data = await res.json();
-    localStorage.setItem("nearhome_access_token", data.accessToken);
-    localStorage.removeItem("nearhome_impersonate_role");
-    navigate("/");
+    if (data.mfaRequired) {
+      setChallengeToken(data.challengeToken);
+      setSecondFactor("");
+      return;
+    }
+    completeLogin(data);
+  }
+
+  async function onSubmitSecondFactor(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    const res = await fetch(`${apiUrl}/auth/login/2fa`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        challengeToken,
+        ...(useRecoveryCode ? { recoveryCode: secondFactor.trim() } : { code: secondFactor.trim() })
+      })
+    });
+
+    if (!res.ok) {
+      const payload = await res.json().catch(() => null);
+      if (payload?.code === "MFA_CHALLENGE_INVALID") {
+        setChallengeToken(null);
+        setError("El desafío expiró, volvé a ingresar tus credenciales");
+        return;
+      }
+      setError(useRecoveryCode ? "Código de recuperación inválido" : "Código inválido");
+      return;
+    }
+
+    completeLogin(await res.json());
   }
 
   return (
     <AppShell>
       <div className="mx-auto flex min-h-screen max-w-md items-center px-4">
         <PageCard title="NearHome Admin Login">
-          <form className="space-y-3" onSubmit={onSubmit}>
-            <label className="form-control">
-              <span className="label-text">Email</span>
-              <TextInput aria-label="Email" value={email} onChange={(e) => setEmail(e.target.value)} />
-            </label>
-            <label className="form-control">
-              <span className="label-text">Password</span>
-              <TextInput aria-label="Password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
-            </label>
-            {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
-            <PrimaryButton type="submit" className="w-full">
-              Login
-            </PrimaryButton>
-          </form>
+          {challengeToken ? (
+            <form className="space-y-3" onSubmit={onSubmitSecondFactor}>
+              <p className="text-sm">
+                {useRecoveryCode
+                  ? "Ingresá uno de tus códigos de recuperación."
+                  : "Ingresá el código de 6 dígitos de tu app de autenticación."}
+              </p>
+              <label className="form-control">
+                <span className="label-text">{useRecoveryCode ? "Código de recuperación" : "Código 2FA"}</span>
+                <TextInput
+                  aria-label="Código 2FA"
+                  autoComplete="one-time-code"
+                  inputMode={useRecoveryCode ? "text" : "numeric"}
+                  value={secondFactor}
+                  onChange={(e) => setSecondFactor(e.target.value)}
+                />
+              </label>
+              {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
+              <PrimaryButton type="submit" className="w-full">
+                Verificar
+              </PrimaryButton>
+              <button type="button" className="btn btn-link btn-sm w-full" onClick={() => setUseRecoveryCode((prev) => !prev)}>
+                {useRecoveryCode ? "Usar código de la app" : "Usar código de recuperación"}
+              </button>
+            </form>
+          ) : (
+            <form className="space-y-3" onSubmit={onSubmit}>
+              <label className="form-control">
+                <span className="label-text">Email</span>
+                <TextInput aria-label="Email" value={email} onChange={(e) => setEmail(e.target.value)} />
+              </label>
+              <label className="form-control">
+                <span className="label-text">Password</span>
+                <TextInput aria-label="Password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+              </label>
+              {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
+              <PrimaryButton type="submit" className="w-full">
+                Login
+              </PrimaryButton>
+              <button type="button" className="btn btn-link btn-sm w-full" onClick={() => void onSso()}>
+                Ingresar con SSO de mi organización
+              </button>
+              <Link className="link block text-center text-sm" to="/password/forgot">
+                ¿Olvidaste tu contraseña?
+              </Link>
+              {ssoTenants ? (
+                <div className="space-y-2">
+                  {ssoTenants.map((tenant) => (
+                    <button
+                      key={tenant.tenantId}
+                      type="button"
+                      className="btn btn-outline btn-sm w-full"
+                      onClick={() => void startSso(tenant.tenantId)}
+                    >
+                      {tenant.tenantName}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+            </form>
+          )}
+        </PageCard>
+      </div>
+    </AppShell>
+  );
+}
+
+function OidcCallbackPage({ apiUrl }: { apiUrl: string }) {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState<string | null>(null);
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+    const code = searchParams.get("code");
+    const state = searchParams.get("state");
+    if (!code || !state) {
+      setError(searchParams.get("error_description") ?? searchParams.get("error") ?? "Respuesta SSO incompleta");
+      return;
+    }
+    const complete = async () => {
+      const res = await fetch(`${apiUrl}/auth/oidc/callback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code, state })
+      });
+      if (!res.ok) {
+        setError(await summarizeApiErrorResponse(res, "No se pudo completar el inicio de sesión SSO"));
+        return;
+      }
+      const data = await res.json();
+      if (data.mfaRequired) {
+        navigate("/login", { replace: true, state: { challengeToken: data.challengeToken } });
+        return;
+      }
+      storeSessionTokens(data);
+      localStorage.removeItem("nearhome_impersonate_role");
+      navigate("/", { replace: true });
+    };
+    void complete();
+  }, [apiUrl, navigate, searchParams]);
+
+  return (
+    <AppShell>
+      <div className="mx-auto flex min-h-screen max-w-md items-center px-4">
+        <PageCard title="Inicio de sesión SSO">
+          {error ? (
+            <div className="space-y-3">
+              <div className="alert alert-error py-2 text-sm">{error}</div>
+              <Link className="link" to="/login">
+                Volver al login
+              </Link>
+            </div>
+          ) : (
+            <div className="text-sm">Validando credenciales con el proveedor de identidad...</div>
+          )}
+        </PageCard>
+      </div>
+    </AppShell>
+  );
+}
+
+function AcceptInvitationPage({ apiUrl }: { apiUrl: string }) {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [invitation, setInvitation] = useState<{ email: string; role: string; tenantName: string; existingUser: boolean } | null>(null);
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [accepted, setAccepted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError("El enlace de invitación está incompleto");
+      return;
+    }
+    const load = async () => {
+      const res = await fetch(`${apiUrl}/auth/invitations/${encodeURIComponent(token)}`);
+      if (!res.ok) {
+        setError(await summarizeApiErrorResponse(res, "La invitación no es válida o ya venció"));
+        return;
+      }
+      setInvitation((await res.json()).data);
+    };
+    void load();
+  }, [apiUrl, token]);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    const res = await fetch(`${apiUrl}/auth/invitations/accept`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(invitation?.existingUser ? { token } : { token, name: name.trim(), password })
+    });
+    if (!res.ok) setError(await summarizeApiErrorResponse(res, "No se pudo aceptar la invitación"));
+    else setAccepted(true);
+    setBusy(false);
+  }
+
+  return (
+    <AppShell>
+      <div className="mx-auto flex min-h-screen max-w-md items-center px-4">
+        <PageCard title="Invitación a NearHome">
+          {accepted ? (
+            <div className="space-y-3 text-sm">
+              <div className="alert alert-success py-2">Invitación aceptada. Ya podés ingresar con {invitation?.email}.</div>
+              <Link className="link" to="/login">
+                Ir al login
+              </Link>
+            </div>
+          ) : invitation ? (
+            <form className="space-y-3" onSubmit={onSubmit}>
+              <p className="text-sm">
+                Te invitaron a <strong>{invitation.tenantName}</strong> como <Badge>{invitation.role}</Badge> con el email {invitation.email}.
+              </p>
+              {invitation.existingUser ? (
+                <p className="text-sm opacity-70">Tu cuenta ya existe: al aceptar se agrega el acceso a este tenant.</p>
+              ) : (
+                <>
+                  <label className="form-control">
+                    <span className="label-text">Nombre</span>
+                    <TextInput aria-label="Nombre" value={name} onChange={(e) => setName(e.target.value)} />
+                  </label>
+                  <label className="form-control">
+                    <span className="label-text">Contraseña (mínimo 8 caracteres)</span>
+                    <TextInput aria-label="Contraseña" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+                  </label>
+                </>
+              )}
+              {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
+              <PrimaryButton type="submit" className="w-full" disabled={busy}>
+                Aceptar invitación
+              </PrimaryButton>
+            </form>
+          ) : error ? (
+            <div className="space-y-3">
+              <div className="alert alert-error py-2 text-sm">{error}</div>
+              <Link className="link" to="/login">
+                Volver al login
+              </Link>
+            </div>
+          ) : (
+            <div className="text-sm">Validando invitación...</div>
+          )}
+        </PageCard>
+      </div>
+    </AppShell>
+  );
+}
+
+function ForgotPasswordPage({ apiUrl }: { apiUrl: string }) {
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    const res = await fetch(`${apiUrl}/auth/password/forgot`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email: email.trim(), audience: "backoffice" })
+    });
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudo procesar el pedido"));
+      return;
+    }
+    setSent(true);
+  }
+
+  return (
+    <AppShell>
+      <div className="mx-auto flex min-h-screen max-w-md items-center px-4">
+        <PageCard title="Recuperar contraseña">
+          {sent ? (
+            <div className="space-y-3 text-sm">
+              <div className="alert alert-success py-2">Si el email está registrado, vas a recibir un enlace para restablecer la contraseña.</div>
+              <Link className="link" to="/login">
+                Volver al login
+              </Link>
+            </div>
+          ) : (
+            <form className="space-y-3" onSubmit={onSubmit}>
+              <label className="form-control">
+                <span className="label-text">Email</span>
+                <TextInput aria-label="Email" value={email} onChange={(e) => setEmail(e.target.value)} />
+              </label>
+              {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
+              <PrimaryButton type="submit" className="w-full">
+                Enviar enlace
+              </PrimaryButton>
+              <Link className="link block text-center text-sm" to="/login">
+                Volver al login
+              </Link>
+            </form>
+          )}
+        </PageCard>
+      </div>
+    </AppShell>
+  );
+}
+
+function ResetPasswordPage({ apiUrl }: { apiUrl: string }) {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    if (password !== confirmation) {
+      setError("Las contraseñas no coinciden");
+      return;
+    }
+    const res = await fetch(`${apiUrl}/auth/password/reset`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token, password })
+    });
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudo restablecer la contraseña"));
+      return;
+    }
+    setDone(true);
+  }
+
+  return (
+    <AppShell>
+      <div className="mx-auto flex min-h-screen max-w-md items-center px-4">
+        <PageCard title="Nueva contraseña">
+          {done ? (
+            <div className="space-y-3 text-sm">
+              <div className="alert alert-success py-2">Contraseña actualizada. Se cerraron las sesiones abiertas.</div>
+              <Link className="link" to="/login">
+                Ir al login
+              </Link>
+            </div>
+          ) : (
+            <form className="space-y-3" onSubmit={onSubmit}>
+              <label className="form-control">
+                <span className="label-text">Nueva contraseña (mínimo 8 caracteres)</span>
+                <TextInput aria-label="Nueva contraseña" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+              </label>
+              <label className="form-control">
+                <span className="label-text">Repetir contraseña</span>
+                <TextInput
+                  aria-label="Repetir contraseña"
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                />
+              </label>
+              {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
+              <PrimaryButton type="submit" className="w-full" disabled={!token}>
+                Guardar contraseña
+              </PrimaryButton>
+            </form>
+          )}
         </PageCard>
       </div>
     </AppShell>
@@ -857,6 +1290,9 @@ function Layout({ apiUrl }: { apiUrl: string }) {
             { to: ADMIN_ROUTES.resources.clientOverview, label: "Resumen Cliente", icon: <HomeAlt width={16} height={16} /> },
             { to: ADMIN_ROUTES.resources.faceCases, label: "Identidades", icon: <User width={16} height={16} /> },
             { to: ADMIN_ROUTES.resources.cameras, label: "Cámaras", icon: <Camera width={16} height={16} /> },
+            { to: ADMIN_ROUTES.resources.sites, label: "Sitios", icon: <Planimetry width={16} height={16} /> },
+            { to: ADMIN_ROUTES.resources.maintenance, label: "Mantenimiento", icon: <Tools width={16} height={16} /> },
+            { to: ADMIN_ROUTES.resources.uptime, label: "Disponibilidad", icon: <StatsReport width={16} height={16} /> },
             { to: ADMIN_ROUTES.resources.notifications, label: "Notificaciones", icon: <BellNotification width={16} height={16} /> }
           ]
         },
@@ -866,7 +1302,19 @@ function Layout({ apiUrl }: { apiUrl: string }) {
             { to: ADMIN_ROUTES.identity.tenants, label: "Tenants", icon: <Group width={16} height={16} /> },
             { to: ADMIN_ROUTES.identity.users, label: "Usuarios", icon: <User width={16} height={16} /> },
             { to: ADMIN_ROUTES.identity.memberships, label: "Membresías", icon: <Group width={16} height={16} /> },
-            { to: ADMIN_ROUTES.identity.cameraAssignments, label: "Scope Cámaras", icon: <Camera width={16} height={16} /> }
+            { to: ADMIN_ROUTES.identity.roles, label: "Roles", icon: <ShieldCheck width={16} height={16} /> },
+            { to: ADMIN_ROUTES.identity.invitations, label: "Invitaciones", icon: <User width={16} height={16} /> },
+            { to: ADMIN_ROUTES.identity.serviceAccounts, label: "API Keys", icon: <Settings width={16} height={16} /> },
+            { to: ADMIN_ROUTES.identity.cameraAssignments, label: "Scope Cámaras", icon: <Camera width={16} height={16} /> },
+            { to: ADMIN_ROUTES.identity.security, label: "Seguridad", icon: <ShieldCheck width={16} height={16} /> },
+            { to: ADMIN_ROUTES.identity.sso, label: "SSO", icon: <ShieldCheck width={16} height={16} /> },
+            { to: ADMIN_ROUTES.identity.supportAccess, label: "Acceso de soporte", icon: <ShieldCheck width={16} height={16} /> },
+            { to: ADMIN_ROUTES.identity.exports, label: "Exportación", icon: <Settings width={16} height={16} /> },
+            { to: ADMIN_ROUTES.identity.resellerClients, label: "Clientes reseller", icon: <Group width={16} height={16} /> },
+            { to: ADMIN_ROUTES.identity.settings, label: "Preferencias", icon: <Settings width={16} height={16} /> },
+            ...(me?.user?.isSuperuser
+              ? [{ to: ADMIN_ROUTES.identity.platformRoles, label: "Operadores", icon: <ShieldCheck width={16} height={16} /> }]
+              : [])
           ]
         },
         {
@@ -922,13 +1370,19 @@ function Layout({ apiUrl }: { apiUrl: string }) {
         </div>
       }
       onLogout={() => {
-        localStorage.removeItem("nearhome_access_token");
-        localStorage.removeItem("nearhome_active_tenant");
-        localStorage.removeItem("nearhome_impersonate_role");
-        navigate("/login");
+        void logoutSession().then(() => navigate("/login"));
       }}
       navigation={navigation}
     >
+      {me?.twoFactor?.required && !me?.twoFactor?.enabled ? (
+        <div className="alert alert-warning mb-4 py-2 text-sm">
+          Tu cuenta requiere autenticación de dos factores.{" "}
+          <Link className="link" to={ADMIN_ROUTES.identity.security}>
+            Activala desde Seguridad
+          </Link>
+          .
+        </div>
+      ) : null}
       <Routes>
         <Route path="/" element={<Navigate to={isClientRole ? ADMIN_ROUTES.resources.clientOverview : ADMIN_ROUTES.operations.control} replace />} />
 
@@ -939,15 +1393,28 @@ function Layout({ apiUrl }: { apiUrl: string }) {
 
         <Route path={ADMIN_ROUTES.resources.clientOverview} element={<ClientOverviewPage apiUrl={apiUrl} />} />
         <Route path={ADMIN_ROUTES.resources.faceCases} element={<FaceInvestigationsPage apiUrl={apiUrl} />} />
-        <Route path={ADMIN_ROUTES.resources.cameras} element={<CamerasPage />} />
+        <Route path={ADMIN_ROUTES.resources.cameras} element={<CamerasPage apiUrl={apiUrl} />} />
         <Route path="/resources/cameras/:id" element={<CameraShow />} />
         <Route path="/resources/faces/:id" element={<FaceIdentityShow />} />
         <Route path={ADMIN_ROUTES.resources.notifications} element={<NotificationsPage apiUrl={apiUrl} />} />
+        <Route path={ADMIN_ROUTES.resources.sites} element={<SitesPage apiUrl={apiUrl} />} />
+        <Route path={ADMIN_ROUTES.resources.maintenance} element={<MaintenanceWindowsPage apiUrl={apiUrl} />} />
+        <Route path={ADMIN_ROUTES.resources.uptime} element={<UptimePage apiUrl={apiUrl} />} />
 
         <Route path={ADMIN_ROUTES.identity.tenants} element={<TenantsPage />} />
-        <Route path={ADMIN_ROUTES.identity.users} element={<UsersPage />} />
+        <Route path={ADMIN_ROUTES.identity.users} element={<UsersPage apiUrl={apiUrl} />} />
         <Route path={ADMIN_ROUTES.identity.memberships} element={<MembershipsPage />} />
         <Route path={ADMIN_ROUTES.identity.cameraAssignments} element={<CameraAssignmentsPage apiUrl={apiUrl} />} />
+        <Route path={ADMIN_ROUTES.identity.security} element={<SecurityPage apiUrl={apiUrl} onChanged={refresh} />} />
+        <Route path={ADMIN_ROUTES.identity.sso} element={<TenantSsoPage apiUrl={apiUrl} />} />
+        <Route path={ADMIN_ROUTES.identity.invitations} element={<InvitationsPage apiUrl={apiUrl} />} />
+        <Route path={ADMIN_ROUTES.identity.roles} element={<RolesPage apiUrl={apiUrl} />} />
+        <Route path={ADMIN_ROUTES.identity.supportAccess} element={<SupportAccessPage apiUrl={apiUrl} me={me} onChanged={refresh} />} />
+        <Route path={ADMIN_ROUTES.identity.platformRoles} element={<PlatformRolesPage apiUrl={apiUrl} me={me} />} />
+        <Route path={ADMIN_ROUTES.identity.exports} element={<TenantExportsPage apiUrl={apiUrl} />} />
+        <Route path={ADMIN_ROUTES.identity.resellerClients} element={<ResellerClientsPage apiUrl={apiUrl} />} />
+        <Route path={ADMIN_ROUTES.identity.settings} element={<TenantSettingsPage apiUrl={apiUrl} />} />
+        <Route path={ADMIN_ROUTES.identity.serviceAccounts} element={<ServiceAccountsPage apiUrl={apiUrl} />} />
 
         <Route path={ADMIN_ROUTES.commercial.plans} element={<PlansPage />} />
         <Route path={ADMIN_ROUTES.commercial.subscriptions} element={<SubscriptionPage apiUrl={apiUrl} onChanged={refresh} />} />
@@ -1027,7 +1494,7 @@ function ControlPanelPage({ apiUrl }: { apiUrl: string }) {
             overall: {data?.overallOk ? "ok" : "degraded"}
           </Badge>
           <span className="text-sm text-slate-500">
-            updated: {data?.generatedAt ? new Date(data.generatedAt).toLocaleString() : "-"}
+            updated: {data?.generatedAt ? formatDateTime(data.generatedAt) : "-"}
           </span>
           <PrimaryButton className="px-2.5 py-1.5 text-xs" type="button" onClick={() => void refreshStatus()}>
             Refresh
@@ -1186,789 +1653,3628 @@ function ControlPanelPage({ apiUrl }: { apiUrl: string }) {
   );
 }
 
-function TenantsPage() {
-  const tenantsList = useList({ resource: "tenants" } as any);
-  const { result } = tenantsList;
-  const { mutate: create } = useCreate();
-  const { mutate: update } = useUpdate();
-  const { mutate: remove } = useDelete();
-  const [name, setName] = useState("");
-  const canCreate = useCan({ resource: "tenants", action: "create" }).data?.can;
-  const canEdit = useCan({ resource: "tenants", action: "edit" }).data?.can;
-  const canDelete = useCan({ resource: "tenants", action: "delete" }).data?.can;
-  const [drafts, setDrafts] = useState<Record<string, string>>({});
+function SecurityPage({ apiUrl, onChanged }: { apiUrl: string; onChanged: () => void }) {
+  const [status, setStatus] = useState<{
+    enabled: boolean;
+    pendingEnrollment: boolean;
+    recoveryCodesRemaining: number;
+    required: boolean;
+  } | null>(null);
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function call(path: string, method: "GET" | "POST", body?: unknown) {
+    const res = await fetch(`${apiUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${getToken()}`,
+        ...(body ? { "Content-Type": "application/json" } : {})
+      },
+      ...(body ? { body: JSON.stringify(body) } : {})
+    });
+    if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, "No se pudo completar la operación"));
+    return (await res.json()).data;
+  }
+
+  async function loadStatus() {
+    try {
+      setStatus(await call("/auth/2fa", "GET"));
+    } catch (cause) {
+      setError(summarizeApiError(cause, "No se pudo cargar el estado 2FA"));
+    }
+  }
 
   useEffect(() => {
-    const nextDrafts = Object.fromEntries((result?.data ?? []).map((t: any) => [t.id, t.name ?? ""]));
-    setDrafts(nextDrafts);
-  }, [result?.data]);
+    void loadStatus();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl]);
 
-  return (
-    <PageCard title="Tenants">
-      {canCreate && (
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setCode("");
+      await loadStatus();
+      onChanged();
+    } catch (cause) {
+      setError(summarizeApiError(cause, "No se pudo completar la operación"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <PageCard title="Autenticación de dos factores (TOTP)">
+        {status ? (
+          <div className="mb-3 flex flex-wrap gap-2">
+            <Badge>{status.enabled ? "activa" : "inactiva"}</Badge>
+            {status.required ? <Badge>requerida por política</Badge> : null}
+            {status.enabled ? <Badge>{status.recoveryCodesRemaining} códigos de recuperación</Badge> : null}
+          </div>
+        ) : null}
+        {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+
+        {status && !status.enabled && !enrollment ? (
+          <PrimaryButton
+            type="button"
+            disabled={busy}
+            onClick={() => run(async () => setEnrollment(await call("/auth/2fa/enroll", "POST")))}
+          >
+            Configurar app de autenticación
+          </PrimaryButton>
+        ) : null}
+
+        {status && !status.enabled && enrollment ? (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void run(async () => {
+                const result = await call("/auth/2fa/confirm", "POST", { code: code.trim() });
+                setRecoveryCodes(result.recoveryCodes);
+                setEnrollment(null);
+              });
+            }}
+          >
+            <p className="text-sm">Agregá esta cuenta en tu app (Google Authenticator, 1Password, etc.) con la URI o la clave:</p>
+            <Surface>
+              <div className="break-all font-mono text-xs">{enrollment.otpauthUri}</div>
+              <div className="mt-2 font-mono text-sm">{enrollment.secret}</div>
+            </Surface>
+            <label className="form-control">
+              <span className="label-text">Código de 6 dígitos</span>
+              <TextInput inputMode="numeric" autoComplete="one-time-code" value={code} onChange={(e) => setCode(e.target.value)} />
+            </label>
+            <PrimaryButton type="submit" disabled={busy}>
+              Confirmar
+            </PrimaryButton>
+          </form>
+        ) : null}
+
+        {status?.enabled ? (
+          <form className="flex flex-wrap items-end gap-2" onSubmit={(e) => e.preventDefault()}>
+            <label className="form-control">
+              <span className="label-text">Código actual</span>
+              <TextInput inputMode="numeric" autoComplete="one-time-code" value={code} onChange={(e) => setCode(e.target.value)} />
+            </label>
+            <PrimaryButton
+              type="button"
+              disabled={busy || !code.trim()}
+              onClick={() =>
+                run(async () => {
+                  const result = await call("/auth/2fa/recovery-codes", "POST", { code: code.trim() });
+                  setRecoveryCodes(result.recoveryCodes);
+                })
+              }
+            >
+              Regenerar códigos de recuperación
+            </PrimaryButton>
+            <DangerButton
+              type="button"
+              disabled={busy || !code.trim()}
+              onClick={() =>
+                run(async () => {
+                  await call("/auth/2fa/disable", "POST", { code: code.trim() });
+                  setRecoveryCodes(null);
+                })
+              }
+            >
+              Desactivar 2FA
+            </DangerButton>
+          </form>
+        ) : null}
+      </PageCard>
+
+      {recoveryCodes ? (
+        <PageCard title="Códigos de recuperación">
+          <p className="mb-2 text-sm">Guardalos en un lugar seguro: cada código sirve una sola vez y no se vuelven a mostrar.</p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm md:grid-cols-5">
+            {recoveryCodes.map((recoveryCode) => (
+              <Surface key={recoveryCode}>{recoveryCode}</Surface>
+            ))}
+          </div>
+        </PageCard>
+      ) : null}
+    </div>
+  );
+}
+
+function TenantSsoPage({ apiUrl }: { apiUrl: string }) {
+  const tenantId = getTenantId();
+  const canEdit = useCan({ resource: "tenants", action: "edit" }).data?.can;
+  const emptyForm = {
+    issuer: "",
+    clientId: "",
+    clientSecret: "",
+    roleClaim: "roles",
+    roleMapping: "{}",
+    defaultRole: "",
+    emailDomains: "",
+    trustIdpMfa: false,
+    enabled: true
+  };
+  const [form, setForm] = useState(emptyForm);
+  const [configured, setConfigured] = useState(false);
+  const [hasClientSecret, setHasClientSecret] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+
+  async function load() {
+    if (!tenantId) return;
+    setError(null);
+    const res = await fetch(`${apiUrl}/tenants/${tenantId}/oidc`, { headers: { Authorization: `Bearer ${getToken()}` } });
+    if (res.status === 404) {
+      setConfigured(false);
+      setHasClientSecret(false);
+      setForm(emptyForm);
+      return;
+    }
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudo cargar la configuración SSO"));
+      return;
+    }
+    const config = (await res.json()).data;
+    setConfigured(true);
+    setHasClientSecret(Boolean(config.hasClientSecret));
+    setForm({
+      issuer: config.issuer,
+      clientId: config.clientId,
+      clientSecret: "",
+      roleClaim: config.roleClaim,
+      roleMapping: JSON.stringify(config.roleMapping ?? {}, null, 2),
+      defaultRole: config.defaultRole ?? "",
+      emailDomains: (config.emailDomains ?? []).join(", "),
+      trustIdpMfa: Boolean(config.trustIdpMfa),
+      enabled: Boolean(config.enabled)
+    });
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl, tenantId]);
+
+  async function save(e: FormEvent) {
+    e.preventDefault();
+    if (!tenantId) return;
+    setBusy(true);
+    setError(null);
+    setOk(null);
+    try {
+      const roleMapping = safeJsonParse<Record<string, string> | null>(form.roleMapping, null);
+      if (!roleMapping) throw new Error("El mapeo de roles debe ser JSON válido");
+      const res = await fetch(`${apiUrl}/tenants/${tenantId}/oidc`, {
+        method: "PUT",
+        headers: { Authorization: `Bearer ${getToken()}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          issuer: form.issuer.trim(),
+          clientId: form.clientId.trim(),
+          ...(form.clientSecret.trim() ? { clientSecret: form.clientSecret.trim() } : {}),
+          roleClaim: form.roleClaim.trim() || "roles",
+          roleMapping,
+          defaultRole: form.defaultRole || null,
+          emailDomains: form.emailDomains
+            .split(",")
+            .map((domain) => domain.trim())
+            .filter(Boolean),
+          trustIdpMfa: form.trustIdpMfa,
+          enabled: form.enabled
+        })
+      });
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, "No se pudo guardar la configuración SSO"));
+      setOk("Configuración SSO guardada");
+      await load();
+    } catch (cause) {
+      setError(summarizeApiError(cause, "No se pudo guardar la configuración SSO"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function removeConfig() {
+    if (!tenantId) return;
+    setBusy(true);
+    setError(null);
+    const res = await fetch(`${apiUrl}/tenants/${tenantId}/oidc`, {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${getToken()}` }
+    });
+    if (!res.ok) setError(await summarizeApiErrorResponse(res, "No se pudo eliminar la configuración SSO"));
+    else setOk("Configuración SSO eliminada");
+    setBusy(false);
+    await load();
+  }
+
+  async function linkOwnAccount() {
+    if (!tenantId) return;
+    setError(null);
+    const res = await fetch(`${apiUrl}/auth/oidc/link`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${getToken()}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ tenantId, redirectUri: `${window.location.origin}/auth/oidc/callback` })
+    });
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudo iniciar la vinculación SSO"));
+      return;
+    }
+    window.location.assign((await res.json()).data.authorizationUrl);
+  }
+
+  if (!tenantId) return <PageCard title="SSO (OIDC)">Seleccioná un tenant activo.</PageCard>;
+
+  return (
+    <PageCard title="SSO (OIDC) del tenant">
+      <div className="mb-3 text-sm opacity-70">
+        Los usuarios se autentican en el proveedor de identidad del tenant; al primer login se crean el usuario y la membresía con el rol mapeado.
+        Solo se aceptan emails de los dominios configurados, y una cuenta existente solo entra por SSO después de vincularla desde su propia sesión.
+      </div>
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+      {ok && <div className="alert alert-success mb-3 py-2 text-sm">{ok}</div>}
+      <form className="grid grid-cols-1 gap-3 md:grid-cols-2" onSubmit={save}>
+        <label className="form-control">
+          <span className="label-text">Issuer</span>
+          <TextInput value={form.issuer} onChange={(e) => setForm((prev) => ({ ...prev, issuer: e.target.value }))} disabled={!canEdit} />
+        </label>
+        <label className="form-control">
+          <span className="label-text">Client ID</span>
+          <TextInput value={form.clientId} onChange={(e) => setForm((prev) => ({ ...prev, clientId: e.target.value }))} disabled={!canEdit} />
+        </label>
+        <label className="form-control">
+          <span className="label-text">Client secret {hasClientSecret ? "(guardado, dejar vacío para conservar)" : ""}</span>
+          <TextInput
+            type="password"
+            value={form.clientSecret}
+            onChange={(e) => setForm((prev) => ({ ...prev, clientSecret: e.target.value }))}
+            disabled={!canEdit}
+          />
+        </label>
+        <label className="form-control">
+          <span className="label-text">Claim de roles</span>
+          <TextInput value={form.roleClaim} onChange={(e) => setForm((prev) => ({ ...prev, roleClaim: e.target.value }))} disabled={!canEdit} />
+        </label>
+        <label className="form-control md:col-span-2">
+          <span className="label-text">Mapeo claim → rol (JSON)</span>
+          <textarea
+            className="textarea textarea-bordered font-mono text-xs"
+            rows={4}
+            value={form.roleMapping}
+            onChange={(e) => setForm((prev) => ({ ...prev, roleMapping: e.target.value }))}
+            disabled={!canEdit}
+          />
+        </label>
+        <label className="form-control">
+          <span className="label-text">Rol por defecto</span>
+          <SelectInput value={form.defaultRole} onChange={(e) => setForm((prev) => ({ ...prev, defaultRole: e.target.value }))} disabled={!canEdit}>
+            <option value="">sin rol (rechazar)</option>
+            <option value="tenant_admin">tenant_admin</option>
+            <option value="monitor">monitor</option>
+            <option value="client_user">client_user</option>
+          </SelectInput>
+        </label>
+        <label className="form-control">
+          <span className="label-text">Dominios de email (separados por coma)</span>
+          <TextInput
+            value={form.emailDomains}
+            onChange={(e) => setForm((prev) => ({ ...prev, emailDomains: e.target.value }))}
+            disabled={!canEdit}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={(e) => setForm((prev) => ({ ...prev, enabled: e.target.checked }))}
+            disabled={!canEdit}
+          />
+          SSO habilitado
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={form.trustIdpMfa}
+            onChange={(e) => setForm((prev) => ({ ...prev, trustIdpMfa: e.target.checked }))}
+            disabled={!canEdit}
+          />
+          Confiar en el MFA del proveedor (no pedir 2FA local tras SSO)
+        </label>
+        {canEdit ? (
+          <div className="flex gap-2 md:col-span-2">
+            <PrimaryButton type="submit" disabled={busy}>
+              Guardar
+            </PrimaryButton>
+            {configured ? (
+              <DangerButton type="button" disabled={busy} onClick={() => void removeConfig()}>
+                Eliminar
+              </DangerButton>
+            ) : null}
+          </div>
+        ) : null}
+        {configured ? (
+          <div className="md:col-span-2">
+            <button type="button" className="btn btn-outline btn-sm" onClick={() => void linkOwnAccount()}>
+              Vincular mi cuenta con este proveedor
+            </button>
+          </div>
+        ) : null}
+      </form>
+    </PageCard>
+  );
+}
+
+function SupportAccessPage({ apiUrl, me, onChanged }: { apiUrl: string; me: any; onChanged: () => void }) {
+  const tenantId = getTenantId();
+  const isSuperuser = Boolean(me?.user?.isSuperuser);
+  const [grants, setGrants] = useState<any[]>([]);
+  const [logs, setLogs] = useState<any[]>([]);
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [form, setForm] = useState({ role: "tenant_admin", reason: "", ttlMinutes: "60" });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers = (withTenant: boolean) => ({
+    Authorization: `Bearer ${getToken()}`,
+    "Content-Type": "application/json",
+    ...(withTenant && tenantId ? { "X-Tenant-Id": tenantId } : {})
+  });
+
+  async function load() {
+    if (!tenantId) return;
+    setError(null);
+    // Superusers read their own grants globally; tenant administrators read the tenant's grants and access trail.
+    const grantsRes = await fetch(`${apiUrl}/impersonation-grants?tenantId=${tenantId}&_start=0&_end=50`, {
+      headers: headers(!isSuperuser)
+    });
+    if (!grantsRes.ok) {
+      setError(await summarizeApiErrorResponse(grantsRes, "No se pudieron cargar los accesos de soporte"));
+      return;
+    }
+    setGrants((await grantsRes.json()).data);
+    if (isSuperuser) return;
+    const [logsRes, tenantRes] = await Promise.all([
+      fetch(`${apiUrl}/access-transparency-logs?_start=0&_end=100`, { headers: headers(true) }),
+      fetch(`${apiUrl}/tenants/${tenantId}`, { headers: headers(false) })
+    ]);
+    if (!logsRes.ok || !tenantRes.ok) {
+      setError(await summarizeApiErrorResponse(logsRes.ok ? tenantRes : logsRes, "No se pudo cargar el registro de accesos"));
+      return;
+    }
+    setLogs((await logsRes.json()).data);
+    setRequireApproval(Boolean((await tenantRes.json()).data.requireImpersonationApproval));
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl, tenantId, isSuperuser]);
+
+  async function call(path: string, method: string, body: unknown, withTenant: boolean, fallback: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiUrl}${path}`, {
+        method,
+        headers: headers(withTenant),
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, fallback));
+      await load();
+      return true;
+    } catch (cause) {
+      setError(summarizeApiError(cause, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function startImpersonation(grant: any) {
+    localStorage.setItem("nearhome_impersonate_role", grant.role);
+    onChanged();
+  }
+
+  if (!tenantId) return <PageCard title="Acceso de soporte">Seleccioná un tenant activo.</PageCard>;
+
+  return (
+    <PageCard title="Acceso de soporte">
+      <div className="mb-3 text-sm opacity-70">
+        {isSuperuser
+          ? "Para operar como un rol del tenant necesitás un acceso vigente con motivo y duración. Cada request queda visible para el tenant."
+          : "Accesos del equipo de plataforma a este tenant y registro de cada request realizada."}
+      </div>
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+
+      {isSuperuser ? (
         <form
-          className="mb-4 flex gap-2"
+          className="mb-4 flex flex-wrap gap-2"
           onSubmit={(e) => {
             e.preventDefault();
-            create(
-              { resource: "tenants", values: { name } },
-              {
-                onSuccess: () => {
-                  (tenantsList as any).query.refetch();
-                }
-              }
-            );
-            setName("");
+            void call(
+              "/impersonation-grants",
+              "POST",
+              { tenantId, role: form.role, reason: form.reason.trim(), ttlMinutes: Number(form.ttlMinutes) },
+              false,
+              "No se pudo solicitar el acceso"
+            ).then((ok) => {
+              if (ok) setForm((prev) => ({ ...prev, reason: "" }));
+            });
           }}
         >
-          <TextInput placeholder="Tenant name" value={name} onChange={(e) => setName(e.target.value)} />
-          <PrimaryButton type="submit">Create</PrimaryButton>
+          <SelectInput value={form.role} onChange={(e) => setForm((prev) => ({ ...prev, role: e.target.value }))}>
+            <option value="tenant_admin">tenant_admin</option>
+            <option value="monitor">monitor</option>
+            <option value="client_user">client_user</option>
+          </SelectInput>
+          <TextInput
+            className="min-w-[280px]"
+            placeholder="Motivo (ticket, incidente...)"
+            value={form.reason}
+            onChange={(e) => setForm((prev) => ({ ...prev, reason: e.target.value }))}
+          />
+          <TextInput
+            className="w-[120px]"
+            type="number"
+            min={5}
+            placeholder="Minutos"
+            value={form.ttlMinutes}
+            onChange={(e) => setForm((prev) => ({ ...prev, ttlMinutes: e.target.value }))}
+          />
+          <PrimaryButton type="submit" disabled={busy || form.reason.trim().length < 5}>
+            Solicitar acceso
+          </PrimaryButton>
         </form>
+      ) : (
+        <label className="mb-4 flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={requireApproval}
+            disabled={busy}
+            onChange={(e) =>
+              void call(
+                `/tenants/${tenantId}`,
+                "PUT",
+                { requireImpersonationApproval: e.target.checked },
+                false,
+                "No se pudo actualizar la política"
+              )
+            }
+          />
+          Requerir aprobación de un administrador del tenant antes de cada acceso
+        </label>
       )}
+
       <DataTable>
         <thead className="bg-slate-50 text-slate-600">
           <tr>
-            <th className="px-3 py-2">Name</th>
-            <th className="px-3 py-2">Created</th>
-            {(canEdit || canDelete) && <th className="px-3 py-2">Actions</th>}
+            <th className="px-3 py-2">Solicitante</th>
+            <th className="px-3 py-2">Rol</th>
+            <th className="px-3 py-2">Motivo</th>
+            <th className="px-3 py-2">Estado</th>
+            <th className="px-3 py-2">Vence</th>
+            <th className="px-3 py-2">Acciones</th>
           </tr>
         </thead>
         <tbody className="divide-y divide-slate-100">
-          {(result?.data ?? []).map((t: any) => (
-            <tr key={t.id}>
+          {grants.map((grant) => (
+            <tr key={grant.id}>
+              <td className="px-3 py-2">{grant.superuser?.email ?? grant.superuserId}</td>
+              <td className="px-3 py-2">{grant.role}</td>
+              <td className="px-3 py-2">{grant.reason}</td>
               <td className="px-3 py-2">
-                {canEdit ? (
-                  <TextInput
-                    data-testid={`tenant-name-${t.id}`}
-                    value={drafts[t.id] ?? ""}
-                    onChange={(e) => setDrafts((prev) => ({ ...prev, [t.id]: e.target.value }))}
-                  />
-                ) : (
-                  t.name
-                )}
+                <Badge>{grant.status}</Badge>
               </td>
-              <td className="px-3 py-2">{new Date(t.createdAt).toLocaleString()}</td>
-              {(canEdit || canDelete) && (
-                <td className="px-3 py-2">
-                  <div className="flex flex-wrap gap-2">
-                    {canEdit && (
+              <td className="px-3 py-2">{grant.expiresAt ? formatDateTime(grant.expiresAt) : `${grant.ttlMinutes} min tras aprobar`}</td>
+              <td className="px-3 py-2">
+                <div className="flex gap-2">
+                  {isSuperuser && grant.status === "active" ? (
+                    <PrimaryButton type="button" onClick={() => startImpersonation(grant)}>
+                      Usar
+                    </PrimaryButton>
+                  ) : null}
+                  {!isSuperuser && grant.status === "pending" ? (
+                    <>
                       <PrimaryButton
-                        data-testid={`tenant-save-${t.id}`}
-                        className="px-2 py-1 text-xs"
                         type="button"
-                        onClick={() =>
-                          update(
-                            {
-                              resource: "tenants",
-                              id: t.id,
-                              values: { name: drafts[t.id] ?? t.name }
-                            },
-                            {
-                              onSuccess: () => {
-                                (tenantsList as any).query.refetch();
-                              }
-                            }
-                          )
-                        }
+                        disabled={busy}
+                        onClick={() => void call(`/impersonation-grants/${grant.id}/approve`, "POST", undefined, true, "No se pudo aprobar")}
                       >
-                        Save
+                        Aprobar
                       </PrimaryButton>
-                    )}
-                    {canDelete && (
                       <DangerButton
-                        data-testid={`tenant-delete-${t.id}`}
-                        className="px-2 py-1 text-xs"
                         type="button"
-                        onClick={() =>
-                          remove(
-                            {
-                              resource: "tenants",
-                              id: t.id
-                            },
-                            {
-                              onSuccess: () => {
-                                (tenantsList as any).query.refetch();
-                              }
-                            }
-                          )
-                        }
+                        disabled={busy}
+                        onClick={() => void call(`/impersonation-grants/${grant.id}/reject`, "POST", undefined, true, "No se pudo rechazar")}
                       >
-                        Delete
+                        Rechazar
                       </DangerButton>
-                    )}
-                  </div>
-                </td>
-              )}
+                    </>
+                  ) : null}
+                  {grant.status === "active" || grant.status === "pending" ? (
+                    <DangerButton
+                      type="button"
+                      disabled={busy}
+                      onClick={() => void call(`/impersonation-grants/${grant.id}`, "DELETE", undefined, !isSuperuser, "No se pudo revocar")}
+                    >
+                      Revocar
+                    </DangerButton>
+                  ) : null}
+                </div>
+              </td>
             </tr>
           ))}
+          {!grants.length && (
+            <tr>
+              <td colSpan={6} className="px-3 py-4 text-center text-sm text-slate-500">
+                Sin accesos registrados.
+              </td>
+            </tr>
+          )}
         </tbody>
       </DataTable>
+
+      {!isSuperuser ? (
+        <>
+          <h3 className="mb-2 mt-6 text-sm font-semibold">Registro de transparencia</h3>
+          <DataTable>
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <th className="px-3 py-2">Fecha</th>
+                <th className="px-3 py-2">Usuario</th>
+                <th className="px-3 py-2">Rol</th>
+                <th className="px-3 py-2">Request</th>
+                <th className="px-3 py-2">Estado</th>
+                <th className="px-3 py-2">Motivo</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {logs.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-3 py-2">{formatDateTime(entry.createdAt)}</td>
+                  <td className="px-3 py-2">{entry.actorEmail}</td>
+                  <td className="px-3 py-2">{entry.role ?? "super_admin"}</td>
+                  <td className="px-3 py-2 font-mono text-xs">
+                    {entry.method} {entry.route}
+                  </td>
+                  <td className="px-3 py-2">{entry.statusCode}</td>
+                  <td className="px-3 py-2">{entry.reason ?? "-"}</td>
+                </tr>
+              ))}
+              {!logs.length && (
+                <tr>
+                  <td colSpan={6} className="px-3 py-4 text-center text-sm text-slate-500">
+                    Sin accesos de plataforma registrados.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </DataTable>
+        </>
+      ) : null}
     </PageCard>
   );
 }
 
-function UsersPage() {
-  const usersList = useList({ resource: "users" } as any);
-  const result = usersList.result;
-  const { mutate: create } = useCreate();
-  const { mutate: update } = useUpdate();
-  const canCreate = useCan({ resource: "users", action: "create" }).data?.can;
-  const canEdit = useCan({ resource: "users", action: "edit" }).data?.can;
+const PLATFORM_ROLE_OPTIONS = ["platform_admin", "platform_support", "platform_billing"] as const;
 
-  const [form, setForm] = useState({ email: "", name: "", password: "demo1234", role: "client_user" });
-  const [rowDrafts, setRowDrafts] = useState<Record<string, { name: string; role: string; isActive: boolean }>>({});
+function PlatformRolesPage({ apiUrl, me }: { apiUrl: string; me: any }) {
+  const canManage = Array.isArray(me?.platformRoles) && me.platformRoles.includes("platform_admin");
+  const [roles, setRoles] = useState<any[]>([]);
+  const [logs, setLogs] = useState<any[]>([]);
+  const [form, setForm] = useState({ email: "", role: "platform_support" });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers = () => ({ Authorization: `Bearer ${getToken()}`, "Content-Type": "application/json" });
+
+  async function load() {
+    setError(null);
+    const [rolesRes, logsRes] = await Promise.all([
+      fetch(`${apiUrl}/platform/roles?_start=0&_end=200`, { headers: headers() }),
+      fetch(`${apiUrl}/platform/audit-logs?resource=platform_role&_start=0&_end=50`, { headers: headers() })
+    ]);
+    if (!rolesRes.ok || !logsRes.ok) {
+      setError(await summarizeApiErrorResponse(rolesRes.ok ? logsRes : rolesRes, "No se pudieron cargar los operadores"));
+      return;
+    }
+    setRoles((await rolesRes.json()).data);
+    setLogs((await logsRes.json()).data);
+  }
 
   useEffect(() => {
-    const nextDrafts = Object.fromEntries(
-      (result?.data ?? []).map((u: any) => [
-        u.id,
-        {
-          name: u.name ?? "",
-          role: u.role ?? "client_user",
-          isActive: Boolean(u.isActive)
-        }
-      ])
-    );
-    setRowDrafts(nextDrafts);
-  }, [result?.data]);
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl]);
 
-  const users = useMemo(() => result?.data ?? [], [result?.data]);
+  async function call(path: string, method: string, body: unknown, fallback: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiUrl}${path}`, {
+        method,
+        headers: headers(),
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, fallback));
+      await load();
+      return true;
+    } catch (cause) {
+      setError(summarizeApiError(cause, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
 
   return (
-    <PageCard title="Users">
-      {canCreate && (
+    <PageCard title="Operadores de plataforma">
+      <div className="mb-3 text-sm opacity-70">
+        platform_admin opera todo; platform_support solo lectura entre tenants; platform_billing gestiona suscripciones.
+      </div>
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+
+      {canManage ? (
         <form
-          data-testid="users-create-form"
-          className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-5"
+          className="mb-4 flex flex-wrap gap-2"
           onSubmit={(e) => {
             e.preventDefault();
-            create(
-              { resource: "users", values: form },
-              {
-                onSuccess: () => {
-                  setForm({ email: "", name: "", password: "demo1234", role: "client_user" });
-                  (usersList as any).query.refetch();
-                }
-              }
-            );
+            void call("/platform/roles", "POST", { email: form.email.trim(), role: form.role }, "No se pudo otorgar el rol").then((ok) => {
+              if (ok) setForm((prev) => ({ ...prev, email: "" }));
+            });
           }}
         >
           <TextInput
-            placeholder="email"
+            className="min-w-[260px]"
+            type="email"
+            placeholder="email@empresa.com"
             value={form.email}
-            onChange={(e) => setForm((f) => ({ ...f, email: e.target.value }))}
-          />
-          <TextInput
-            placeholder="name"
-            value={form.name}
-            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+            onChange={(e) => setForm((prev) => ({ ...prev, email: e.target.value }))}
           />
-          <TextInput
-            placeholder="password"
-            value={form.password}
-            onChange={(e) => setForm((f) => ({ ...f, password: e.target.value }))}
-          />
-          <SelectInput value={form.role} onChange={(e) => setForm((f) => ({ ...f, role: e.target.value }))}>
-            <option value="tenant_admin">tenant_admin</option>
-            <option value="monitor">operator</option>
-            <option value="client_user">customer</option>
+          <SelectInput value={form.role} onChange={(e) => setForm((prev) => ({ ...prev, role: e.target.value }))}>
+            {PLATFORM_ROLE_OPTIONS.map((role) => (
+              <option key={role} value={role}>
+                {role}
+              </option>
+            ))}
           </SelectInput>
-          <PrimaryButton type="submit">Create</PrimaryButton>
+          <PrimaryButton type="submit" disabled={busy || !form.email.trim()}>
+            Otorgar
+          </PrimaryButton>
         </form>
-      )}
+      ) : null}
 
       <DataTable>
         <thead className="bg-slate-50 text-slate-600">
           <tr>
-            <th className="px-3 py-2">Email</th>
-            <th className="px-3 py-2">Name</th>
-            <th className="px-3 py-2">Role</th>
-            <th className="px-3 py-2">Status</th>
-            {canEdit && <th className="px-3 py-2">Actions</th>}
+            <th className="px-3 py-2">Usuario</th>
+            <th className="px-3 py-2">Rol</th>
+            <th className="px-3 py-2">Desde</th>
+            <th className="px-3 py-2">Acciones</th>
           </tr>
         </thead>
         <tbody className="divide-y divide-slate-100">
-          {users.map((u: any) => (
-            <tr key={u.id}>
-              <td className="px-3 py-2">{u.email}</td>
+          {roles.map((entry) => (
+            <tr key={entry.id}>
+              <td className="px-3 py-2">{entry.user?.email ?? entry.userId}</td>
               <td className="px-3 py-2">
-                {canEdit ? (
-                  <TextInput
-                    data-testid={`users-name-${u.id}`}
-                    value={rowDrafts[u.id]?.name ?? ""}
-                    onChange={(e) =>
-                      setRowDrafts((prev) => ({
-                        ...prev,
-                        [u.id]: { ...(prev[u.id] ?? { name: "", role: "client_user", isActive: true }), name: e.target.value }
-                      }))
-                    }
-                  />
-                ) : (
-                  u.name
-                )}
+                <Badge>{entry.role}</Badge>
               </td>
+              <td className="px-3 py-2">{formatDateTime(entry.createdAt)}</td>
               <td className="px-3 py-2">
-                {canEdit ? (
-                  <SelectInput
-                    data-testid={`users-role-${u.id}`}
-                    value={rowDrafts[u.id]?.role ?? "client_user"}
-                    onChange={(e) =>
-                      setRowDrafts((prev) => ({
-                        ...prev,
-                        [u.id]: { ...(prev[u.id] ?? { name: "", role: "client_user", isActive: true }), role: e.target.value }
-                      }))
-                    }
+                {canManage ? (
+                  <DangerButton
+                    className="btn-xs"
+                    disabled={busy}
+                    onClick={() => void call(`/platform/roles/${entry.id}`, "DELETE", undefined, "No se pudo revocar el rol")}
                   >
-                    <option value="tenant_admin">tenant_admin</option>
-                    <option value="monitor">operator</option>
-                    <option value="client_user">customer</option>
-                  </SelectInput>
-                ) : (
-                  u.role
-                )}
+                    Revocar
+                  </DangerButton>
+                ) : null}
               </td>
-              <td className="px-3 py-2">
-                <Badge className={rowDrafts[u.id]?.isActive ? "border-emerald-200 bg-emerald-50 text-emerald-700" : ""}>
-                  {rowDrafts[u.id]?.isActive ? "active" : "inactive"}
-                </Badge>
+            </tr>
+          ))}
+          {!roles.length && (
+            <tr>
+              <td colSpan={4} className="px-3 py-4 text-center text-sm text-slate-500">
+                Sin operadores registrados.
               </td>
-              {canEdit && (
-                <td className="px-3 py-2">
-                  <div className="flex flex-wrap gap-2">
-                    <PrimaryButton
-                      data-testid={`users-save-${u.id}`}
-                      className="px-2 py-1 text-xs"
-                      type="button"
-                      onClick={() =>
-                        update(
-                          {
-                            resource: "users",
-                            id: u.id,
-                            values: {
-                              name: rowDrafts[u.id]?.name,
-                              role: rowDrafts[u.id]?.role
-                            }
-                          },
-                          {
-                            onSuccess: () => {
-                              (usersList as any).query.refetch();
-                            }
-                          }
-                        )
-                      }
-                    >
-                      Save
-                    </PrimaryButton>
-                    <PrimaryButton
-                      data-testid={`users-toggle-${u.id}`}
-                      className="px-2 py-1 text-xs"
-                      type="button"
-                      onClick={() =>
-                        update(
-                          {
-                            resource: "users",
-                            id: u.id,
-                            values: { isActive: !rowDrafts[u.id]?.isActive }
-                          },
-                          {
-                            onSuccess: () => {
-                              (usersList as any).query.refetch();
-                            }
-                          }
-                        )
-                      }
-                    >
-                      {rowDrafts[u.id]?.isActive ? "Disable" : "Enable"}
-                    </PrimaryButton>
-                  </div>
-                </td>
-              )}
+            </tr>
+          )}
+        </tbody>
+      </DataTable>
+
+      <h3 className="mb-2 mt-6 text-sm font-semibold">Auditoría</h3>
+      <DataTable>
+        <thead className="bg-slate-50 text-slate-600">
+          <tr>
+            <th className="px-3 py-2">Fecha</th>
+            <th className="px-3 py-2">Acción</th>
+            <th className="px-3 py-2">Usuario</th>
+            <th className="px-3 py-2">Rol</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {logs.map((entry) => (
+            <tr key={entry.id}>
+              <td className="px-3 py-2">{formatDateTime(entry.createdAt)}</td>
+              <td className="px-3 py-2">{entry.action}</td>
+              <td className="px-3 py-2">{entry.payload?.email ?? "-"}</td>
+              <td className="px-3 py-2">{entry.payload?.role ?? "-"}</td>
             </tr>
           ))}
+          {!logs.length && (
+            <tr>
+              <td colSpan={4} className="px-3 py-4 text-center text-sm text-slate-500">
+                Sin cambios registrados.
+              </td>
+            </tr>
+          )}
         </tbody>
       </DataTable>
     </PageCard>
   );
 }
 
-function MembershipsPage() {
-  const { result } = useList({ resource: "memberships" } as any);
-  const { mutate } = useCreate();
-  const canCreate = useCan({ resource: "memberships", action: "create" }).data?.can;
-  const meRaw = localStorage.getItem("nearhome_me");
-  const me = meRaw ? JSON.parse(meRaw) : null;
-  const isSuperuser = Boolean(me?.user?.isSuperuser);
-  const tenantOptions = me?.memberships ?? [];
-  const [userId, setUserId] = useState("");
-  const [role, setRole] = useState("client_user");
-  const [tenantId, setTenantId] = useState<string>(tenantOptions[0]?.tenantId ?? "");
+function TenantExportsPage({ apiUrl }: { apiUrl: string }) {
+  const tenantId = getTenantId();
+  const [exports, setExports] = useState<any[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pending = exports.some((entry) => entry.status === "queued" || entry.status === "running");
 
-  useEffect(() => {
-    if (!tenantId && tenantOptions[0]?.tenantId) {
-      setTenantId(tenantOptions[0].tenantId);
+  const headers = () => ({ Authorization: `Bearer ${getToken()}`, "Content-Type": "application/json" });
+
+  async function load() {
+    if (!tenantId) return;
+    const res = await fetch(`${apiUrl}/tenants/${tenantId}/exports?_start=0&_end=20`, { headers: headers() });
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudieron cargar las exportaciones"));
+      return;
     }
-  }, [tenantId, tenantOptions]);
+    setExports((await res.json()).data);
+  }
 
-  return (
-    <PageCard title="Memberships">
-      {canCreate && (
-        <form
-          className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-4"
-          onSubmit={(e) => {
-            e.preventDefault();
-            mutate({ resource: "memberships", values: { userId, role, ...(isSuperuser ? { tenantId } : {}) } });
-            setUserId("");
-          }}
-        >
-          <TextInput placeholder="userId" value={userId} onChange={(e) => setUserId(e.target.value)} />
-          <SelectInput value={role} onChange={(e) => setRole(e.target.value)}>
-            <option value="tenant_admin">tenant_admin</option>
-            <option value="monitor">operator</option>
-            <option value="client_user">customer</option>
-          </SelectInput>
-          {isSuperuser && (
-            <SelectInput value={tenantId} onChange={(e) => setTenantId(e.target.value)}>
-              {tenantOptions.map((membership: any) => (
-                <option key={membership.tenantId} value={membership.tenantId}>
-                  {membership.tenant?.name ?? membership.tenantId}
-                </option>
-              ))}
-            </SelectInput>
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl, tenantId]);
+
+  useEffect(() => {
+    if (!pending) return;
+    const id = window.setInterval(() => void load(), 3000);
+    return () => window.clearInterval(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pending]);
+
+  async function call(path: string, fallback: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiUrl}${path}`, { method: "POST", headers: headers() });
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, fallback));
+      return (await res.json()).data;
+    } catch (cause) {
+      setError(summarizeApiError(cause, fallback));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!tenantId) return <PageCard title="Exportación de datos">Seleccioná un tenant activo.</PageCard>;
+
+  return (
+    <PageCard title="Exportación de datos">
+      <div className="mb-3 text-sm opacity-70">
+        Genera un archivo .tar.gz con un NDJSON por entidad, un manifest con checksums y referencias a los clips.
+      </div>
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+      <PrimaryButton
+        className="mb-4"
+        type="button"
+        disabled={busy || pending}
+        onClick={() => void call(`/tenants/${tenantId}/exports`, "No se pudo solicitar la exportación").then(() => load())}
+      >
+        Solicitar exportación
+      </PrimaryButton>
+      <DataTable>
+        <thead className="bg-slate-50 text-slate-600">
+          <tr>
+            <th className="px-3 py-2">Solicitada</th>
+            <th className="px-3 py-2">Estado</th>
+            <th className="px-3 py-2">Tamaño</th>
+            <th className="px-3 py-2">Vence</th>
+            <th className="px-3 py-2">Acciones</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {exports.map((entry) => (
+            <tr key={entry.id}>
+              <td className="px-3 py-2">{formatDateTime(entry.createdAt)}</td>
+              <td className="px-3 py-2">
+                <Badge>{entry.status}</Badge>
+                {entry.error ? <div className="text-xs text-red-600">{entry.error}</div> : null}
+              </td>
+              <td className="px-3 py-2">{entry.fileBytes ? `${(entry.fileBytes / 1024).toFixed(1)} KB` : "-"}</td>
+              <td className="px-3 py-2">{entry.expiresAt ? formatDateTime(entry.expiresAt) : "-"}</td>
+              <td className="px-3 py-2">
+                {entry.status === "succeeded" && (!entry.expiresAt || new Date(entry.expiresAt) > new Date()) ? (
+                  <PrimaryButton
+                    className="btn-xs"
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      void call(`/tenants/${tenantId}/exports/${entry.id}/link`, "No se pudo generar el enlace").then((link) => {
+                        if (link?.url) window.location.assign(link.url);
+                      })
+                    }
+                  >
+                    Descargar
+                  </PrimaryButton>
+                ) : null}
+              </td>
+            </tr>
+          ))}
+          {!exports.length && (
+            <tr>
+              <td colSpan={5} className="px-3 py-4 text-center text-sm text-slate-500">
+                Sin exportaciones.
+              </td>
+            </tr>
           )}
-          <PrimaryButton type="submit">Assign role</PrimaryButton>
-        </form>
+        </tbody>
+      </DataTable>
+    </PageCard>
+  );
+}
+
+function ResellerClientsPage({ apiUrl }: { apiUrl: string }) {
+  const tenantId = getTenantId();
+  const [children, setChildren] = useState<any[]>([]);
+  const [pool, setPool] = useState<any | null>(null);
+  const [notReseller, setNotReseller] = useState(false);
+  const [name, setName] = useState("");
+  const [maxCameras, setMaxCameras] = useState("");
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers = () => ({ Authorization: `Bearer ${getToken()}`, "Content-Type": "application/json" });
+
+  async function load() {
+    if (!tenantId) return;
+    const [childrenRes, poolRes] = await Promise.all([
+      fetch(`${apiUrl}/tenants/${tenantId}/children?_start=0&_end=100`, { headers: headers() }),
+      fetch(`${apiUrl}/tenants/${tenantId}/reseller-pool`, { headers: headers() })
+    ]);
+    if (childrenRes.status === 409) {
+      setNotReseller(true);
+      return;
+    }
+    if (!childrenRes.ok || !poolRes.ok) {
+      setError(await summarizeApiErrorResponse(childrenRes.ok ? poolRes : childrenRes, "No se pudieron cargar los clientes"));
+      return;
+    }
+    setNotReseller(false);
+    setChildren((await childrenRes.json()).data);
+    setPool((await poolRes.json()).data);
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl, tenantId]);
+
+  async function send(method: string, path: string, body: unknown, fallback: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiUrl}${path}`, { method, headers: headers(), body: JSON.stringify(body) });
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, fallback));
+      await load();
+      return true;
+    } catch (cause) {
+      setError(summarizeApiError(cause, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function enterChild(childId: string) {
+    localStorage.setItem("nearhome_active_tenant", childId);
+    window.location.assign(ADMIN_ROUTES.resources.clientOverview);
+  }
+
+  if (!tenantId) return <PageCard title="Clientes reseller">Seleccioná un tenant activo.</PageCard>;
+  if (notReseller) return <PageCard title="Clientes reseller">El tenant activo no está habilitado como reseller.</PageCard>;
+
+  return (
+    <PageCard title="Clientes reseller">
+      {pool && (
+        <div className="mb-3 text-sm opacity-70">
+          Plan {pool.planCode ?? "sin plan"} · cámaras usadas {pool.usedCameras}/{pool.maxCameras ?? "-"} · asignadas{" "}
+          {pool.allocatedCameras} · incidentes abiertos {pool.totals.openIncidents}
+        </div>
       )}
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+      <form
+        className="mb-4 flex flex-wrap items-end gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          const allocation = maxCameras ? { maxCameras: Number(maxCameras) } : undefined;
+          void send("POST", `/tenants/${tenantId}/children`, { name, allocation }, "No se pudo crear el cliente").then((ok) => {
+            if (ok) {
+              setName("");
+              setMaxCameras("");
+            }
+          });
+        }}
+      >
+        <TextInput aria-label="Nombre del cliente" placeholder="Nombre" value={name} onChange={(e) => setName(e.target.value)} />
+        <TextInput
+          aria-label="Cámaras asignadas"
+          placeholder="Cámaras (opcional)"
+          inputMode="numeric"
+          value={maxCameras}
+          onChange={(e) => setMaxCameras(e.target.value)}
+        />
+        <PrimaryButton type="submit" disabled={busy || name.trim().length < 2}>
+          Crear cliente
+        </PrimaryButton>
+      </form>
       <DataTable>
         <thead className="bg-slate-50 text-slate-600">
           <tr>
-            <th className="px-3 py-2">Tenant</th>
-            <th className="px-3 py-2">User</th>
-            <th className="px-3 py-2">Role</th>
+            <th className="px-3 py-2">Cliente</th>
+            <th className="px-3 py-2">Cámaras</th>
+            <th className="px-3 py-2">Incidentes abiertos</th>
+            <th className="px-3 py-2">Asignación</th>
+            <th className="px-3 py-2">Acciones</th>
           </tr>
         </thead>
         <tbody className="divide-y divide-slate-100">
-          {(result?.data ?? []).map((m: any) => (
-            <tr key={m.id}>
-              <td className="px-3 py-2">{m.tenant?.name ?? m.tenantId}</td>
-              <td className="px-3 py-2">{m.user?.email ?? m.userId}</td>
-              <td className="px-3 py-2">{m.role}</td>
+          {children.map((child) => (
+            <tr key={child.id}>
+              <td className="px-3 py-2">
+                {child.name}
+                {child.usage.hasOwnSubscription ? <Badge className="ml-2">plan propio</Badge> : null}
+              </td>
+              <td className="px-3 py-2">{child.usage.cameras}</td>
+              <td className="px-3 py-2">{child.usage.openIncidents}</td>
+              <td className="px-3 py-2">
+                <div className="flex items-center gap-2">
+                  <TextInput
+                    className="w-24"
+                    aria-label={`Asignación ${child.name}`}
+                    inputMode="numeric"
+                    value={allocations[child.id] ?? String(child.allocation.maxCameras ?? "")}
+                    onChange={(e) => setAllocations((prev) => ({ ...prev, [child.id]: e.target.value }))}
+                  />
+                  <PrimaryButton
+                    className="btn-xs"
+                    type="button"
+                    disabled={busy || allocations[child.id] === undefined}
+                    onClick={() => {
+                      const value = allocations[child.id];
+                      void send(
+                        "PUT",
+                        `/tenants/${tenantId}/children/${child.id}/allocation`,
+                        value ? { ...child.allocation, maxCameras: Number(value) } : {},
+                        "No se pudo actualizar la asignación"
+                      ).then((ok) => {
+                        if (!ok) return;
+                        setAllocations((prev) => {
+                          const next = { ...prev };
+                          delete next[child.id];
+                          return next;
+                        });
+                      });
+                    }}
+                  >
+                    Guardar
+                  </PrimaryButton>
+                </div>
+              </td>
+              <td className="px-3 py-2">
+                <PrimaryButton className="btn-xs" type="button" onClick={() => enterChild(child.id)}>
+                  Entrar
+                </PrimaryButton>
+              </td>
             </tr>
           ))}
+          {!children.length && (
+            <tr>
+              <td colSpan={5} className="px-3 py-4 text-center text-sm text-slate-500">
+                Sin clientes.
+              </td>
+            </tr>
+          )}
         </tbody>
       </DataTable>
     </PageCard>
   );
 }
 
-function CameraAssignmentsPage({ apiUrl }: { apiUrl: string }) {
-  const canEdit = useCan({ resource: "users", action: "edit" }).data?.can;
-  const usersList = useList({ resource: "users", pagination: { currentPage: 1, pageSize: 200, mode: "server" } } as any);
-  const camerasList = useList({ resource: "cameras", pagination: { currentPage: 1, pageSize: 200, mode: "server" } } as any);
-  const users = useMemo(
-    () => (usersList.result?.data ?? []).filter((user: any) => ["monitor", "client_user"].includes(user.role)),
-    [usersList.result?.data]
+type TimeWindowDraft = { days: string; start: string; end: string };
+
+function parseDaysList(value: string) {
+  return value
+    .split(",")
+    .map((day) => Number(day.trim()))
+    .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+}
+
+// Value for a datetime-local input, which expects the browser's local wall clock without offset.
+function toDateTimeLocalInput(iso?: string | null) {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+function describeAccessSchedule(schedule: any) {
+  if (!schedule) return "sin restricción horaria";
+  const windows = (schedule.windows ?? []).map(
+    (window: any) => `${window.days.map((day: number) => WEEKDAY_SHORT_LABELS[day]).join(", ")} ${window.start}–${window.end}`
   );
-  const cameras = useMemo(() => camerasList.result?.data ?? [], [camerasList.result?.data]);
-  const [selectedUserId, setSelectedUserId] = useState<string>("");
-  const [assignedCameraIds, setAssignedCameraIds] = useState<string[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [saving, setSaving] = useState(false);
+  const range = [
+    schedule.validFrom ? `desde ${new Date(schedule.validFrom).toLocaleString()}` : null,
+    schedule.validUntil ? `hasta ${new Date(schedule.validUntil).toLocaleString()}` : null
+  ].filter(Boolean);
+  return [...windows, ...range].join(" · ") || "sin restricción horaria";
+}
+
+function TenantSettingsPage({ apiUrl }: { apiUrl: string }) {
+  const tenantId = getTenantId();
+  const [timezone, setTimezone] = useState("UTC");
+  const [locale, setLocale] = useState("es-AR");
+  const [businessHours, setBusinessHours] = useState<TimeWindowDraft>({ days: "", start: "09:00", end: "18:00" });
+  const [quietHours, setQuietHours] = useState<TimeWindowDraft>({ days: "", start: "22:00", end: "07:00" });
+  const [quietAllowHigh, setQuietAllowHigh] = useState(true);
+  const [logoUrl, setLogoUrl] = useState("");
+  const [primaryColor, setPrimaryColor] = useState("");
+  const [supportEmail, setSupportEmail] = useState("");
+  const [supportPhone, setSupportPhone] = useState("");
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [ok, setOk] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  async function load() {
+    if (!tenantId) return;
+    const res = await fetch(`${apiUrl}/tenants/${tenantId}/settings`, { headers: { Authorization: `Bearer ${getToken()}` } });
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudieron cargar las preferencias"));
+      return;
+    }
+    const data = (await res.json()).data;
+    setTimezone(data.timezone);
+    setLocale(data.locale);
+    tenantDisplay = { timezone: data.timezone, locale: data.locale };
+    const firstWindow = data.businessHours[0];
+    setBusinessHours(
+      firstWindow
+        ? { days: firstWindow.days.join(","), start: firstWindow.start, end: firstWindow.end }
+        : { days: "", start: "09:00", end: "18:00" }
+    );
+    setQuietHours(
+      data.quietHours
+        ? { days: data.quietHours.days.join(","), start: data.quietHours.start, end: data.quietHours.end }
+        : { days: "", start: "22:00", end: "07:00" }
+    );
+    setQuietAllowHigh(data.quietHours ? data.quietHours.allowSeverities.includes("high") : true);
+    setLogoUrl(data.logoUrl ?? "");
+    setPrimaryColor(data.primaryColor ?? "");
+    setSupportEmail(data.supportContact?.email ?? "");
+    setSupportPhone(data.supportContact?.phone ?? "");
+    setUpdatedAt(data.updatedAt);
+  }
 
   useEffect(() => {
-    if (!selectedUserId) return;
-    const token = getToken();
-    const tenantId = getTenantId();
-    if (!token || !tenantId) return;
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl, tenantId]);
 
-    const load = async () => {
-      setLoading(true);
-      setError(null);
-      try {
-        const res = await fetch(
-          `${apiUrl}/camera-assignments?userId=${encodeURIComponent(selectedUserId)}`,
-          {
-            headers: {
-              Authorization: `Bearer ${token}`,
-              "X-Tenant-Id": tenantId
-            }
-          }
-        );
-        if (!res.ok) {
-          const body = await res.text();
-          throw new Error(`camera-assignments ${res.status}: ${body}`);
-        }
-        const body = await res.json();
-        const ids = (body.data ?? []).map((entry: any) => String(entry.cameraId));
-        setAssignedCameraIds(ids);
-      } catch (cause) {
-        setError(summarizeApiError(cause, "No se pudo cargar scope de cámaras"));
-      } finally {
-        setLoading(false);
-      }
+  async function save(e: FormEvent) {
+    e.preventDefault();
+    const businessDays = parseDaysList(businessHours.days);
+    const quietDays = parseDaysList(quietHours.days);
+    const supportContact = {
+      ...(supportEmail.trim() ? { email: supportEmail.trim() } : {}),
+      ...(supportPhone.trim() ? { phone: supportPhone.trim() } : {})
     };
-    void load();
-  }, [apiUrl, selectedUserId]);
+    setBusy(true);
+    setError(null);
+    setSaved(false);
+    try {
+      const res = await fetch(`${apiUrl}/tenants/${tenantId}/settings`, {
+        method: "PUT",
+        headers: { Authorization: `Bearer ${getToken()}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          timezone: timezone.trim(),
+          locale: locale.trim(),
+          businessHours: businessDays.length ? [{ days: businessDays, start: businessHours.start, end: businessHours.end }] : [],
+          quietHours: quietDays.length
+            ? { days: quietDays, start: quietHours.start, end: quietHours.end, allowSeverities: quietAllowHigh ? ["high"] : [] }
+            : null,
+          logoUrl: logoUrl.trim() || null,
+          primaryColor: primaryColor.trim() || null,
+          supportContact: Object.keys(supportContact).length ? supportContact : null
+        })
+      });
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, "No se pudieron guardar las preferencias"));
+      await load();
+      setSaved(true);
+    } catch (cause) {
+      setError(summarizeApiError(cause, "No se pudieron guardar las preferencias"));
+    } finally {
+      setBusy(false);
+    }
+  }
 
-  const selectedUser = users.find((user: any) => user.id === selectedUserId);
+  if (!tenantId) return <PageCard title="Preferencias">Seleccioná un tenant activo.</PageCard>;
 
   return (
-    <PageCard title="Scope de cámaras por usuario">
+    <PageCard title="Preferencias">
       <div className="mb-3 text-sm opacity-70">
-        Sin asignaciones explícitas, monitor/customer ven todas las cámaras del tenant. Al asignar cámaras, se aplica allowlist.
-      </div>
-      {!canEdit && <div className="alert alert-warning py-2 text-sm">No tenés permisos para administrar scopes.</div>}
-
-      <div className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-2">
-        <SelectInput value={selectedUserId} onChange={(e) => setSelectedUserId(e.target.value)} disabled={!canEdit}>
-          <option value="">Seleccionar usuario</option>
-          {users.map((user: any) => (
-            <option key={user.id} value={user.id}>
-              {user.email} ({user.role === "monitor" ? "operator" : "customer"})
-            </option>
-          ))}
-        </SelectInput>
-        <div className="rounded-box border border-base-300 px-3 py-2 text-sm">
-          {selectedUser ? (
-            <>
-              <div>usuario: {selectedUser.email}</div>
-              <div>rol: {selectedUser.role === "monitor" ? "operator" : "customer"}</div>
-            </>
-          ) : (
-            <div>Seleccioná un usuario para editar su scope</div>
-          )}
-        </div>
+        Zona horaria y locale se usan para mostrar fechas y en las notificaciones salientes. Días: 0 = domingo … 6 = sábado.
+        {updatedAt ? ` Actualizado ${formatDateTime(updatedAt)}.` : ""}
       </div>
-
-      {selectedUserId && (
-        <>
-          <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
-            <Badge>{assignedCameraIds.length} asignadas</Badge>
-            <Badge>{cameras.length} cámaras tenant</Badge>
-            {loading && <Badge>cargando...</Badge>}
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+      {saved && <div className="alert alert-success mb-3 py-2 text-sm">Preferencias guardadas.</div>}
+      <form className="grid gap-3 md:grid-cols-2" onSubmit={save}>
+        <label className="grid gap-1 text-sm">
+          Zona horaria (IANA)
+          <TextInput value={timezone} placeholder="America/Argentina/Buenos_Aires" onChange={(e) => setTimezone(e.target.value)} />
+        </label>
+        <label className="grid gap-1 text-sm">
+          Locale
+          <TextInput value={locale} placeholder="es-AR" onChange={(e) => setLocale(e.target.value)} />
+        </label>
+        <div className="grid gap-1 text-sm">
+          Horario comercial
+          <div className="flex gap-2">
+            <TextInput
+              aria-label="Días del horario comercial"
+              placeholder="1,2,3,4,5"
+              value={businessHours.days}
+              onChange={(e) => setBusinessHours((prev) => ({ ...prev, days: e.target.value }))}
+            />
+            <TextInput
+              type="time"
+              aria-label="Inicio del horario comercial"
+              value={businessHours.start}
+              onChange={(e) => setBusinessHours((prev) => ({ ...prev, start: e.target.value }))}
+            />
+            <TextInput
+              type="time"
+              aria-label="Fin del horario comercial"
+              value={businessHours.end}
+              onChange={(e) => setBusinessHours((prev) => ({ ...prev, end: e.target.value }))}
+            />
           </div>
-          <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
-            {cameras.map((camera: any) => (
-              <label key={camera.id} className="flex items-center gap-2 rounded-box border border-base-300 px-3 py-2 text-sm">
-                <input
-                  type="checkbox"
-                  checked={assignedCameraIds.includes(camera.id)}
-                  onChange={(e) =>
-                    setAssignedCameraIds((prev) =>
-                      e.target.checked ? Array.from(new Set([...prev, camera.id])) : prev.filter((value) => value !== camera.id)
-                    )
-                  }
-                  disabled={!canEdit || saving}
-                />
-                <span className="font-medium">{camera.name}</span>
-                <span className="opacity-70">({camera.location || "-"})</span>
-              </label>
-            ))}
+        </div>
+        <div className="grid gap-1 text-sm">
+          Horario de silencio
+          <div className="flex gap-2">
+            <TextInput
+              aria-label="Días del horario de silencio"
+              placeholder="0,1,2,3,4,5,6"
+              value={quietHours.days}
+              onChange={(e) => setQuietHours((prev) => ({ ...prev, days: e.target.value }))}
+            />
+            <TextInput
+              type="time"
+              aria-label="Inicio del horario de silencio"
+              value={quietHours.start}
+              onChange={(e) => setQuietHours((prev) => ({ ...prev, start: e.target.value }))}
+            />
+            <TextInput
+              type="time"
+              aria-label="Fin del horario de silencio"
+              value={quietHours.end}
+              onChange={(e) => setQuietHours((prev) => ({ ...prev, end: e.target.value }))}
+            />
           </div>
-          <div className="mt-4 flex gap-2">
-            <PrimaryButton
-              type="button"
-              disabled={!canEdit || saving}
-              onClick={async () => {
-                const token = getToken();
-                const tenantId = getTenantId();
-                if (!token || !tenantId || !selectedUserId) {
-                  setError("Missing auth context");
-                  return;
-                }
-                setSaving(true);
-                setError(null);
-                setOk(null);
-                try {
-                  const res = await fetch(`${apiUrl}/camera-assignments/${encodeURIComponent(selectedUserId)}`, {
-                    method: "PUT",
-                    headers: {
-                      "content-type": "application/json",
-                      Authorization: `Bearer ${token}`,
-                      "X-Tenant-Id": tenantId
-                    },
-                    body: JSON.stringify({ cameraIds: assignedCameraIds })
-                  });
-                  if (!res.ok) {
-                    const body = await res.text();
-                    throw new Error(`camera-assignments save ${res.status}: ${body}`);
-                  }
-                  setOk("Scope guardado");
-                } catch (cause) {
-                  setError(summarizeApiError(cause, "No se pudo guardar scope"));
-                } finally {
-                  setSaving(false);
+          <label className="flex items-center gap-2 text-xs">
+            <input type="checkbox" checked={quietAllowHigh} onChange={(e) => setQuietAllowHigh(e.target.checked)} />
+            Enviar igual los incidentes de severidad alta
+          </label>
+        </div>
+        <label className="grid gap-1 text-sm">
+          Logo (URL)
+          <TextInput value={logoUrl} placeholder="https://..." onChange={(e) => setLogoUrl(e.target.value)} />
+        </label>
+        <label className="grid gap-1 text-sm">
+          Color principal
+          <TextInput value={primaryColor} placeholder="#0f766e" onChange={(e) => setPrimaryColor(e.target.value)} />
+        </label>
+        <label className="grid gap-1 text-sm">
+          Email de soporte
+          <TextInput value={supportEmail} onChange={(e) => setSupportEmail(e.target.value)} />
+        </label>
+        <label className="grid gap-1 text-sm">
+          Teléfono de soporte
+          <TextInput value={supportPhone} onChange={(e) => setSupportPhone(e.target.value)} />
+        </label>
+        <div className="md:col-span-2">
+          <PrimaryButton type="submit" disabled={busy}>
+            Guardar preferencias
+          </PrimaryButton>
+        </div>
+      </form>
+    </PageCard>
+  );
+}
+function InvitationsPage({ apiUrl }: { apiUrl: string }) {
+  const tenantId = getTenantId();
+  const [invitations, setInvitations] = useState<any[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState("client_user");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+
+  const headers = () => ({
+    Authorization: `Bearer ${getToken()}`,
+    "Content-Type": "application/json",
+    ...(tenantId ? { "X-Tenant-Id": tenantId } : {})
+  });
+
+  async function load() {
+    if (!tenantId) return;
+    const res = await fetch(`${apiUrl}/invitations`, { headers: headers() });
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudieron cargar las invitaciones"));
+      return;
+    }
+    setInvitations((await res.json()).data);
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl, tenantId]);
+
+  async function run(action: () => Promise<Response>, fallback: string, success: string) {
+    setBusy(true);
+    setError(null);
+    setOk(null);
+    const res = await action();
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, fallback));
+    } else {
+      const payload = await res.json();
+      setOk(payload.data?.emailStatus === "failed" ? `${success} (el email no pudo enviarse, reintentá)` : success);
+    }
+    setBusy(false);
+    await load();
+  }
+
+  async function invite(e: FormEvent) {
+    e.preventDefault();
+    await run(
+      () => fetch(`${apiUrl}/invitations`, { method: "POST", headers: headers(), body: JSON.stringify({ email: email.trim(), role }) }),
+      "No se pudo enviar la invitación",
+      "Invitación enviada"
+    );
+    setEmail("");
+  }
+
+  if (!tenantId) return <PageCard title="Invitaciones">Seleccioná un tenant activo.</PageCard>;
+
+  return (
+    <PageCard title="Invitaciones">
+      <div className="mb-3 text-sm opacity-70">
+        El invitado recibe un enlace de un solo uso para crear su cuenta (o sumar el tenant a una cuenta existente) con el rol indicado.
+      </div>
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+      {ok && <div className="alert alert-success mb-3 py-2 text-sm">{ok}</div>}
+      <form className="mb-4 flex flex-wrap gap-2" onSubmit={invite}>
+        <TextInput placeholder="email@empresa.com" value={email} onChange={(e) => setEmail(e.target.value)} />
+        <SelectInput value={role} onChange={(e) => setRole(e.target.value)}>
+          <option value="tenant_admin">tenant_admin</option>
+          <option value="monitor">monitor</option>
+          <option value="client_user">client_user</option>
+        </SelectInput>
+        <PrimaryButton type="submit" disabled={busy || !email.trim()}>
+          Invitar
+        </PrimaryButton>
+      </form>
+      <DataTable>
+        <thead className="bg-slate-50 text-slate-600">
+          <tr>
+            <th className="px-3 py-2">Email</th>
+            <th className="px-3 py-2">Rol</th>
+            <th className="px-3 py-2">Estado</th>
+            <th className="px-3 py-2">Vence</th>
+            <th className="px-3 py-2">Acciones</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {invitations.map((invitation) => (
+            <tr key={invitation.id}>
+              <td className="px-3 py-2">{invitation.email}</td>
+              <td className="px-3 py-2">{invitation.role}</td>
+              <td className="px-3 py-2">
+                <Badge>{invitation.status}</Badge>
+              </td>
+              <td className="px-3 py-2">{formatDateTime(invitation.expiresAt)}</td>
+              <td className="px-3 py-2">
+                {invitation.status === "pending" || invitation.status === "expired" ? (
+                  <div className="flex gap-2">
+                    <PrimaryButton
+                      type="button"
+                      disabled={busy}
+                      onClick={() =>
+                        void run(
+                          () => fetch(`${apiUrl}/invitations/${invitation.id}/resend`, { method: "POST", headers: headers(), body: "{}" }),
+                          "No se pudo reenviar la invitación",
+                          "Invitación reenviada"
+                        )
+                      }
+                    >
+                      Reenviar
+                    </PrimaryButton>
+                    <DangerButton
+                      type="button"
+                      disabled={busy}
+                      onClick={() =>
+                        void run(
+                          () => fetch(`${apiUrl}/invitations/${invitation.id}`, { method: "DELETE", headers: { Authorization: `Bearer ${getToken()}`, "X-Tenant-Id": tenantId } }),
+                          "No se pudo revocar la invitación",
+                          "Invitación revocada"
+                        )
+                      }
+                    >
+                      Revocar
+                    </DangerButton>
+                  </div>
+                ) : null}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </DataTable>
+    </PageCard>
+  );
+}
+
+const API_KEY_SCOPES = [
+  "cameras:read",
+  "cameras:write",
+  "incidents:read",
+  "incidents:write",
+  "events:read",
+  "detections:read",
+  "detections:create",
+  "faces:read",
+  "faces:write",
+  "streams:read",
+  "streams:write"
+] as const;
+
+function ServiceAccountsPage({ apiUrl }: { apiUrl: string }) {
+  const tenantId = getTenantId();
+  const [accounts, setAccounts] = useState<any[]>([]);
+  const [name, setName] = useState("");
+  const [role, setRole] = useState("monitor");
+  const [keyDrafts, setKeyDrafts] = useState<Record<string, { name: string; scopes: string[]; expiresAt: string }>>({});
+  const [revealedKey, setRevealedKey] = useState<{ prefix: string; key: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers = () => ({
+    Authorization: `Bearer ${getToken()}`,
+    "Content-Type": "application/json",
+    ...(tenantId ? { "X-Tenant-Id": tenantId } : {})
+  });
+
+  async function load() {
+    if (!tenantId) return;
+    const res = await fetch(`${apiUrl}/service-accounts`, { headers: headers() });
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudieron cargar las service accounts"));
+      return;
+    }
+    setAccounts((await res.json()).data);
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl, tenantId]);
+
+  async function call(path: string, method: string, body: unknown, fallback: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiUrl}${path}`, { method, headers: headers(), body: body === undefined ? undefined : JSON.stringify(body) });
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, fallback));
+      const payload = await res.json();
+      if (payload.data?.key) setRevealedKey({ prefix: payload.data.prefix, key: payload.data.key });
+      await load();
+    } catch (cause) {
+      setError(summarizeApiError(cause, fallback));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function draftFor(accountId: string) {
+    return keyDrafts[accountId] ?? { name: "", scopes: ["cameras:read"], expiresAt: "" };
+  }
+
+  function updateDraft(accountId: string, patch: Partial<{ name: string; scopes: string[]; expiresAt: string }>) {
+    setKeyDrafts((prev) => ({ ...prev, [accountId]: { ...draftFor(accountId), ...patch } }));
+  }
+
+  if (!tenantId) return <PageCard title="Service accounts y API keys">Seleccioná un tenant activo.</PageCard>;
+
+  return (
+    <PageCard title="Service accounts y API keys">
+      <div className="mb-3 text-sm opacity-70">
+        Las integraciones se autentican con <code>Authorization: ApiKey &lt;key&gt;</code>; el tenant se deduce de la key y cada uso queda en auditoría.
+      </div>
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+      {revealedKey ? (
+        <div className="alert alert-warning mb-3 flex flex-col items-start gap-2 text-sm">
+          <span>Copiá la key ahora: no se vuelve a mostrar.</span>
+          <code className="break-all font-mono text-xs">{revealedKey.key}</code>
+          <button type="button" className="btn btn-link btn-xs" onClick={() => setRevealedKey(null)}>
+            Ocultar
+          </button>
+        </div>
+      ) : null}
+      <form
+        className="mb-4 flex flex-wrap gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void call("/service-accounts", "POST", { name: name.trim(), role }, "No se pudo crear la service account").then(() => setName(""));
+        }}
+      >
+        <TextInput placeholder="Nombre de la integración" value={name} onChange={(e) => setName(e.target.value)} />
+        <SelectInput value={role} onChange={(e) => setRole(e.target.value)}>
+          <option value="tenant_admin">tenant_admin</option>
+          <option value="monitor">monitor</option>
+          <option value="client_user">client_user</option>
+        </SelectInput>
+        <PrimaryButton type="submit" disabled={busy || !name.trim()}>
+          Crear service account
+        </PrimaryButton>
+      </form>
+      <div className="space-y-4">
+        {accounts.map((account) => {
+          const draft = draftFor(account.id);
+          return (
+            <Surface key={account.id} className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <strong>{account.name}</strong>
+                <Badge>{account.role}</Badge>
+                {account.disabledAt ? <Badge>deshabilitada</Badge> : null}
+                {!account.disabledAt ? (
+                  <DangerButton
+                    type="button"
+                    className="ml-auto"
+                    disabled={busy}
+                    onClick={() => void call(`/service-accounts/${account.id}`, "DELETE", undefined, "No se pudo deshabilitar la service account")}
+                  >
+                    Deshabilitar
+                  </DangerButton>
+                ) : null}
+              </div>
+              <DataTable>
+                <thead className="bg-slate-50 text-slate-600">
+                  <tr>
+                    <th className="px-3 py-2">Key</th>
+                    <th className="px-3 py-2">Scopes</th>
+                    <th className="px-3 py-2">Estado</th>
+                    <th className="px-3 py-2">Último uso</th>
+                    <th className="px-3 py-2">Vence</th>
+                    <th className="px-3 py-2">Acciones</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {(account.apiKeys ?? []).map((apiKey: any) => (
+                    <tr key={apiKey.id}>
+                      <td className="px-3 py-2 font-mono text-xs">
+                        {apiKey.prefix}… {apiKey.name ? <span className="font-sans opacity-70">({apiKey.name})</span> : null}
+                      </td>
+                      <td className="px-3 py-2 text-xs">{apiKey.scopes.join(", ")}</td>
+                      <td className="px-3 py-2">
+                        <Badge>{apiKey.status}</Badge>
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {apiKey.lastUsedAt ? `${formatDateTime(apiKey.lastUsedAt)} (${apiKey.lastUsedIp ?? "-"})` : "nunca"}
+                      </td>
+                      <td className="px-3 py-2 text-xs">{apiKey.expiresAt ? formatDateTime(apiKey.expiresAt) : "sin vencimiento"}</td>
+                      <td className="px-3 py-2">
+                        {apiKey.status === "active" && !account.disabledAt ? (
+                          <div className="flex gap-2">
+                            <PrimaryButton
+                              type="button"
+                              disabled={busy}
+                              onClick={() =>
+                                void call(`/service-accounts/${account.id}/keys/${apiKey.id}/rotate`, "POST", {}, "No se pudo rotar la key")
+                              }
+                            >
+                              Rotar
+                            </PrimaryButton>
+                            <DangerButton
+                              type="button"
+                              disabled={busy}
+                              onClick={() =>
+                                void call(`/service-accounts/${account.id}/keys/${apiKey.id}`, "DELETE", undefined, "No se pudo revocar la key")
+                              }
+                            >
+                              Revocar
+                            </DangerButton>
+                          </div>
+                        ) : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </DataTable>
+              {!account.disabledAt ? (
+                <form
+                  className="space-y-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    void call(
+                      `/service-accounts/${account.id}/keys`,
+                      "POST",
+                      {
+                        ...(draft.name.trim() ? { name: draft.name.trim() } : {}),
+                        scopes: draft.scopes,
+                        ...(draft.expiresAt ? { expiresAt: new Date(draft.expiresAt).toISOString() } : {})
+                      },
+                      "No se pudo crear la key"
+                    );
+                  }}
+                >
+                  <div className="flex flex-wrap gap-3 text-xs">
+                    {API_KEY_SCOPES.map((scope) => (
+                      <label key={scope} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={draft.scopes.includes(scope)}
+                          onChange={(e) =>
+                            updateDraft(account.id, {
+                              scopes: e.target.checked ? [...draft.scopes, scope] : draft.scopes.filter((item) => item !== scope)
+                            })
+                          }
+                        />
+                        {scope}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <TextInput placeholder="Nombre de la key (opcional)" value={draft.name} onChange={(e) => updateDraft(account.id, { name: e.target.value })} />
+                    <TextInput type="datetime-local" value={draft.expiresAt} onChange={(e) => updateDraft(account.id, { expiresAt: e.target.value })} />
+                    <PrimaryButton type="submit" disabled={busy || draft.scopes.length === 0}>
+                      Generar key
+                    </PrimaryButton>
+                  </div>
+                </form>
+              ) : null}
+            </Surface>
+          );
+        })}
+      </div>
+    </PageCard>
+  );
+}
+
+function TenantsPage() {
+  const tenantsList = useList({ resource: "tenants" } as any);
+  const { result } = tenantsList;
+  const { mutate: create } = useCreate();
+  const { mutate: update } = useUpdate();
+  const { mutate: remove } = useDelete();
+  const [name, setName] = useState("");
+  const canCreate = useCan({ resource: "tenants", action: "create" }).data?.can;
+  const canEdit = useCan({ resource: "tenants", action: "edit" }).data?.can;
+  const canDelete = useCan({ resource: "tenants", action: "delete" }).data?.can;
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const nextDrafts = Object.fromEntries((result?.data ?? []).map((t: any) => [t.id, t.name ?? ""]));
+    setDrafts(nextDrafts);
+  }, [result?.data]);
+
+  return (
+    <PageCard title="Tenants">
+      {canCreate && (
+        <form
+          className="mb-4 flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            create(
+              { resource: "tenants", values: { name } },
+              {
+                onSuccess: () => {
+                  (tenantsList as any).query.refetch();
                 }
-              }}
-            >
-              Guardar scope
+              }
+            );
+            setName("");
+          }}
+        >
+          <TextInput placeholder="Tenant name" value={name} onChange={(e) => setName(e.target.value)} />
+          <PrimaryButton type="submit">Create</PrimaryButton>
+        </form>
+      )}
+      <DataTable>
+        <thead className="bg-slate-50 text-slate-600">
+          <tr>
+            <th className="px-3 py-2">Name</th>
+            <th className="px-3 py-2">Created</th>
+            <th className="px-3 py-2">2FA obligatorio</th>
+            {(canEdit || canDelete) && <th className="px-3 py-2">Actions</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {(result?.data ?? []).map((t: any) => (
+            <tr key={t.id}>
+              <td className="px-3 py-2">
+                {canEdit ? (
+                  <TextInput
+                    data-testid={`tenant-name-${t.id}`}
+                    value={drafts[t.id] ?? ""}
+                    onChange={(e) => setDrafts((prev) => ({ ...prev, [t.id]: e.target.value }))}
+                  />
+                ) : (
+                  t.name
+                )}
+              </td>
+              <td className="px-3 py-2">{formatDateTime(t.createdAt)}</td>
+              <td className="px-3 py-2">
+                <label className="flex items-center gap-2 text-xs">
+                  <input
+                    data-testid={`tenant-require-2fa-${t.id}`}
+                    type="checkbox"
+                    checked={Boolean(t.requireTwoFactor)}
+                    disabled={!canEdit}
+                    onChange={(e) =>
+                      update(
+                        { resource: "tenants", id: t.id, values: { requireTwoFactor: e.target.checked } },
+                        {
+                          onSuccess: () => {
+                            (tenantsList as any).query.refetch();
+                          }
+                        }
+                      )
+                    }
+                  />
+                  admins y monitores
+                </label>
+              </td>
+              {(canEdit || canDelete) && (
+                <td className="px-3 py-2">
+                  <div className="flex flex-wrap gap-2">
+                    {canEdit && (
+                      <PrimaryButton
+                        data-testid={`tenant-save-${t.id}`}
+                        className="px-2 py-1 text-xs"
+                        type="button"
+                        onClick={() =>
+                          update(
+                            {
+                              resource: "tenants",
+                              id: t.id,
+                              values: { name: drafts[t.id] ?? t.name }
+                            },
+                            {
+                              onSuccess: () => {
+                                (tenantsList as any).query.refetch();
+                              }
+                            }
+                          )
+                        }
+                      >
+                        Save
+                      </PrimaryButton>
+                    )}
+                    {canDelete && (
+                      <DangerButton
+                        data-testid={`tenant-delete-${t.id}`}
+                        className="px-2 py-1 text-xs"
+                        type="button"
+                        onClick={() =>
+                          remove(
+                            {
+                              resource: "tenants",
+                              id: t.id
+                            },
+                            {
+                              onSuccess: () => {
+                                (tenantsList as any).query.refetch();
+                              }
+                            }
+                          )
+                        }
+                      >
+                        Delete
+                      </DangerButton>
+                    )}
+                  </div>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </DataTable>
+    </PageCard>
+  );
+}
+
+function UsersPage({ apiUrl }: { apiUrl: string }) {
+  const usersList = useList({ resource: "users" } as any);
+  const result = usersList.result;
+  const { mutate: create } = useCreate();
+  const { mutate: update } = useUpdate();
+  const canCreate = useCan({ resource: "users", action: "create" }).data?.can;
+  const canEdit = useCan({ resource: "users", action: "edit" }).data?.can;
+  const customRoles = (useList({ resource: "roles" } as any).result?.data ?? []).filter((role: any) => !role.builtIn);
+  const roleValues = (value: string) => (value.startsWith("custom:") ? { customRoleId: value.slice("custom:".length) } : { role: value });
+
+  const [form, setForm] = useState({ email: "", name: "", password: "demo1234", role: "client_user" });
+  const [rowDrafts, setRowDrafts] = useState<Record<string, { name: string; role: string; isActive: boolean }>>({});
+
+  useEffect(() => {
+    const nextDrafts = Object.fromEntries(
+      (result?.data ?? []).map((u: any) => [
+        u.id,
+        {
+          name: u.name ?? "",
+          role: u.customRole ? `custom:${u.customRole.id}` : (u.role ?? "client_user"),
+          isActive: Boolean(u.isActive)
+        }
+      ])
+    );
+    setRowDrafts(nextDrafts);
+  }, [result?.data]);
+
+  const users = useMemo(() => result?.data ?? [], [result?.data]);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [resetNotice, setResetNotice] = useState<string | null>(null);
+
+  async function unlockUser(userId: string) {
+    setUnlockError(null);
+    const tenantId = getTenantId();
+    const res = await fetch(`${apiUrl}/users/${userId}/unlock`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${getToken()}`, ...(tenantId ? { "X-Tenant-Id": tenantId } : {}) }
+    });
+    if (!res.ok) {
+      setUnlockError(await summarizeApiErrorResponse(res, "No se pudo desbloquear el usuario"));
+      return;
+    }
+    (usersList as any).query.refetch();
+  }
+
+  async function sendPasswordReset(userId: string, email: string) {
+    setUnlockError(null);
+    setResetNotice(null);
+    const tenantId = getTenantId();
+    const res = await fetch(`${apiUrl}/users/${userId}/password-reset`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${getToken()}`, ...(tenantId ? { "X-Tenant-Id": tenantId } : {}) }
+    });
+    if (!res.ok) {
+      setUnlockError(await summarizeApiErrorResponse(res, "No se pudo enviar el email de reset"));
+      return;
+    }
+    setResetNotice(`Email de reset enviado a ${email}`);
+  }
+
+  return (
+    <PageCard title="Users">
+      {unlockError && <div className="alert alert-error mb-3 py-2 text-sm">{unlockError}</div>}
+      {resetNotice && <div className="alert alert-success mb-3 py-2 text-sm">{resetNotice}</div>}
+      {canCreate && (
+        <form
+          data-testid="users-create-form"
+          className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            create(
+              { resource: "users", values: { email: form.email, name: form.name, password: form.password, ...roleValues(form.role) } },
+              {
+                onSuccess: () => {
+                  setForm({ email: "", name: "", password: "demo1234", role: "client_user" });
+                  (usersList as any).query.refetch();
+                }
+              }
+            );
+          }}
+        >
+          <TextInput
+            placeholder="email"
+            value={form.email}
+            onChange={(e) => setForm((f) => ({ ...f, email: e.target.value }))}
+          />
+          <TextInput
+            placeholder="name"
+            value={form.name}
+            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+          />
+          <TextInput
+            placeholder="password"
+            value={form.password}
+            onChange={(e) => setForm((f) => ({ ...f, password: e.target.value }))}
+          />
+          <SelectInput value={form.role} onChange={(e) => setForm((f) => ({ ...f, role: e.target.value }))}>
+            <option value="tenant_admin">tenant_admin</option>
+            <option value="monitor">operator</option>
+            <option value="client_user">customer</option>
+            {customRoles.map((role: any) => (
+              <option key={role.id} value={`custom:${role.id}`}>
+                {role.name}
+              </option>
+            ))}
+          </SelectInput>
+          <PrimaryButton type="submit">Create</PrimaryButton>
+        </form>
+      )}
+
+      <DataTable>
+        <thead className="bg-slate-50 text-slate-600">
+          <tr>
+            <th className="px-3 py-2">Email</th>
+            <th className="px-3 py-2">Name</th>
+            <th className="px-3 py-2">Role</th>
+            <th className="px-3 py-2">Status</th>
+            {canEdit && <th className="px-3 py-2">Actions</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {users.map((u: any) => (
+            <tr key={u.id}>
+              <td className="px-3 py-2">{u.email}</td>
+              <td className="px-3 py-2">
+                {canEdit ? (
+                  <TextInput
+                    data-testid={`users-name-${u.id}`}
+                    value={rowDrafts[u.id]?.name ?? ""}
+                    onChange={(e) =>
+                      setRowDrafts((prev) => ({
+                        ...prev,
+                        [u.id]: { ...(prev[u.id] ?? { name: "", role: "client_user", isActive: true }), name: e.target.value }
+                      }))
+                    }
+                  />
+                ) : (
+                  u.name
+                )}
+              </td>
+              <td className="px-3 py-2">
+                {canEdit ? (
+                  <SelectInput
+                    data-testid={`users-role-${u.id}`}
+                    value={rowDrafts[u.id]?.role ?? "client_user"}
+                    onChange={(e) =>
+                      setRowDrafts((prev) => ({
+                        ...prev,
+                        [u.id]: { ...(prev[u.id] ?? { name: "", role: "client_user", isActive: true }), role: e.target.value }
+                      }))
+                    }
+                  >
+                    <option value="tenant_admin">tenant_admin</option>
+                    <option value="monitor">operator</option>
+                    <option value="client_user">customer</option>
+                    {customRoles.map((role: any) => (
+                      <option key={role.id} value={`custom:${role.id}`}>
+                        {role.name}
+                      </option>
+                    ))}
+                  </SelectInput>
+                ) : (
+                  (u.customRole?.name ?? u.role)
+                )}
+              </td>
+              <td className="px-3 py-2">
+                <Badge className={rowDrafts[u.id]?.isActive ? "border-emerald-200 bg-emerald-50 text-emerald-700" : ""}>
+                  {rowDrafts[u.id]?.isActive ? "active" : "inactive"}
+                </Badge>
+                {u.lockedUntil ? (
+                  <Badge className="ml-1 border-amber-200 bg-amber-50 text-amber-700" title={`Hasta ${formatDateTime(u.lockedUntil)}`}>
+                    locked
+                  </Badge>
+                ) : null}
+              </td>
+              {canEdit && (
+                <td className="px-3 py-2">
+                  <div className="flex flex-wrap gap-2">
+                    <PrimaryButton
+                      data-testid={`users-save-${u.id}`}
+                      className="px-2 py-1 text-xs"
+                      type="button"
+                      onClick={() =>
+                        update(
+                          {
+                            resource: "users",
+                            id: u.id,
+                            values: {
+                              name: rowDrafts[u.id]?.name,
+                              ...roleValues(rowDrafts[u.id]?.role ?? "client_user")
+                            }
+                          },
+                          {
+                            onSuccess: () => {
+                              (usersList as any).query.refetch();
+                            }
+                          }
+                        )
+                      }
+                    >
+                      Save
+                    </PrimaryButton>
+                    <PrimaryButton
+                      data-testid={`users-toggle-${u.id}`}
+                      className="px-2 py-1 text-xs"
+                      type="button"
+                      onClick={() =>
+                        update(
+                          {
+                            resource: "users",
+                            id: u.id,
+                            values: { isActive: !rowDrafts[u.id]?.isActive }
+                          },
+                          {
+                            onSuccess: () => {
+                              (usersList as any).query.refetch();
+                            }
+                          }
+                        )
+                      }
+                    >
+                      {rowDrafts[u.id]?.isActive ? "Disable" : "Enable"}
+                    </PrimaryButton>
+                    {u.lockedUntil ? (
+                      <PrimaryButton data-testid={`users-unlock-${u.id}`} className="px-2 py-1 text-xs" type="button" onClick={() => void unlockUser(u.id)}>
+                        Unlock
+                      </PrimaryButton>
+                    ) : null}
+                    <PrimaryButton
+                      data-testid={`users-password-reset-${u.id}`}
+                      className="px-2 py-1 text-xs"
+                      type="button"
+                      onClick={() => void sendPasswordReset(u.id, u.email)}
+                    >
+                      Reset password
+                    </PrimaryButton>
+                  </div>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </DataTable>
+    </PageCard>
+  );
+}
+
+function RolesPage({ apiUrl }: { apiUrl: string }) {
+  const tenantId = getTenantId();
+  const canManage = useCan({ resource: "roles", action: "create" }).data?.can;
+  const [roles, setRoles] = useState<any[]>([]);
+  const [catalog, setCatalog] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  const emptyForm = { key: "", name: "", baseRole: "monitor", permissions: [] as string[] };
+  const [form, setForm] = useState(emptyForm);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers = () => ({
+    Authorization: `Bearer ${getToken()}`,
+    "Content-Type": "application/json",
+    ...(tenantId ? { "X-Tenant-Id": tenantId } : {})
+  });
+
+  async function load() {
+    if (!tenantId) return;
+    const [rolesRes, catalogRes] = await Promise.all([
+      fetch(`${apiUrl}/roles`, { headers: headers() }),
+      fetch(`${apiUrl}/permissions`, { headers: headers() })
+    ]);
+    if (!rolesRes.ok || !catalogRes.ok) {
+      setError(await summarizeApiErrorResponse(rolesRes.ok ? catalogRes : rolesRes, "No se pudieron cargar los roles"));
+      return;
+    }
+    const nextRoles = (await rolesRes.json()).data;
+    setRoles(nextRoles);
+    setCatalog((await catalogRes.json()).data.permissions);
+    setDrafts(Object.fromEntries(nextRoles.filter((role: any) => !role.builtIn).map((role: any) => [role.id, role.permissions])));
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl, tenantId]);
+
+  async function call(path: string, method: string, body: unknown, fallback: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiUrl}${path}`, { method, headers: headers(), body: body === undefined ? undefined : JSON.stringify(body) });
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, fallback));
+      await load();
+      return true;
+    } catch (cause) {
+      setError(summarizeApiError(cause, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function togglePermission(list: string[], permission: string, checked: boolean) {
+    return checked ? [...list, permission] : list.filter((item) => item !== permission);
+  }
+
+  if (!tenantId) return <PageCard title="Roles y permisos">Seleccioná un tenant activo.</PageCard>;
+
+  return (
+    <PageCard title="Roles y permisos">
+      <div className="mb-3 text-sm opacity-70">
+        Los roles tenant_admin, operator (monitor) y customer (client_user) son presets fijos. Los roles propios combinan permisos del catálogo y
+        heredan del rol base el alcance de cámaras y la política 2FA.
+      </div>
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+      <DataTable>
+        <thead className="bg-slate-50 text-slate-600">
+          <tr>
+            <th className="px-3 py-2">Rol</th>
+            <th className="px-3 py-2">Base</th>
+            <th className="px-3 py-2">Permisos</th>
+            {canManage && <th className="px-3 py-2">Acciones</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {roles.map((role) => (
+            <tr key={role.id ?? role.key}>
+              <td className="px-3 py-2">
+                {role.name} {role.builtIn ? <Badge>preset</Badge> : <span className="text-xs opacity-60">({role.memberCount} miembros)</span>}
+              </td>
+              <td className="px-3 py-2">{role.baseRole}</td>
+              <td className="px-3 py-2 text-xs">
+                {role.builtIn || !canManage ? (
+                  role.permissions.join(", ")
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {catalog.map((permission) => (
+                      <label key={permission} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={(drafts[role.id] ?? []).includes(permission)}
+                          onChange={(e) =>
+                            setDrafts((prev) => ({ ...prev, [role.id]: togglePermission(prev[role.id] ?? [], permission, e.target.checked) }))
+                          }
+                        />
+                        {permission}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </td>
+              {canManage && (
+                <td className="px-3 py-2">
+                  {role.builtIn ? null : (
+                    <div className="flex gap-2">
+                      <PrimaryButton
+                        type="button"
+                        disabled={busy || (drafts[role.id] ?? []).length === 0}
+                        onClick={() => void call(`/roles/${role.id}`, "PUT", { permissions: drafts[role.id] }, "No se pudo guardar el rol")}
+                      >
+                        Guardar
+                      </PrimaryButton>
+                      <DangerButton type="button" disabled={busy} onClick={() => void call(`/roles/${role.id}`, "DELETE", undefined, "No se pudo eliminar el rol")}>
+                        Eliminar
+                      </DangerButton>
+                    </div>
+                  )}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </DataTable>
+      {canManage ? (
+        <form
+          className="mt-4 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void call("/roles", "POST", { ...form, key: form.key.trim(), name: form.name.trim() }, "No se pudo crear el rol").then((ok) => {
+              if (ok) setForm(emptyForm);
+            });
+          }}
+        >
+          <div className="flex flex-wrap gap-2">
+            <TextInput placeholder="key (ej. guard)" value={form.key} onChange={(e) => setForm((prev) => ({ ...prev, key: e.target.value }))} />
+            <TextInput placeholder="Nombre visible" value={form.name} onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))} />
+            <SelectInput value={form.baseRole} onChange={(e) => setForm((prev) => ({ ...prev, baseRole: e.target.value }))}>
+              <option value="tenant_admin">tenant_admin</option>
+              <option value="monitor">monitor</option>
+              <option value="client_user">client_user</option>
+            </SelectInput>
+            <PrimaryButton type="submit" disabled={busy || !form.key.trim() || !form.name.trim() || form.permissions.length === 0}>
+              Crear rol
+            </PrimaryButton>
+          </div>
+          <div className="flex flex-wrap gap-3 text-xs">
+            {catalog.map((permission) => (
+              <label key={permission} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={form.permissions.includes(permission)}
+                  onChange={(e) => setForm((prev) => ({ ...prev, permissions: togglePermission(prev.permissions, permission, e.target.checked) }))}
+                />
+                {permission}
+              </label>
+            ))}
+          </div>
+        </form>
+      ) : null}
+    </PageCard>
+  );
+}
+
+function MembershipsPage() {
+  const { result } = useList({ resource: "memberships" } as any);
+  const { mutate } = useCreate();
+  const canCreate = useCan({ resource: "memberships", action: "create" }).data?.can;
+  const meRaw = localStorage.getItem("nearhome_me");
+  const me = meRaw ? JSON.parse(meRaw) : null;
+  const isSuperuser = Boolean(me?.user?.isSuperuser);
+  const tenantOptions = me?.memberships ?? [];
+  const [userId, setUserId] = useState("");
+  const [role, setRole] = useState("client_user");
+  const [tenantId, setTenantId] = useState<string>(tenantOptions[0]?.tenantId ?? "");
+
+  useEffect(() => {
+    if (!tenantId && tenantOptions[0]?.tenantId) {
+      setTenantId(tenantOptions[0].tenantId);
+    }
+  }, [tenantId, tenantOptions]);
+
+  return (
+    <PageCard title="Memberships">
+      {canCreate && (
+        <form
+          className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            mutate({ resource: "memberships", values: { userId, role, ...(isSuperuser ? { tenantId } : {}) } });
+            setUserId("");
+          }}
+        >
+          <TextInput placeholder="userId" value={userId} onChange={(e) => setUserId(e.target.value)} />
+          <SelectInput value={role} onChange={(e) => setRole(e.target.value)}>
+            <option value="tenant_admin">tenant_admin</option>
+            <option value="monitor">operator</option>
+            <option value="client_user">customer</option>
+          </SelectInput>
+          {isSuperuser && (
+            <SelectInput value={tenantId} onChange={(e) => setTenantId(e.target.value)}>
+              {tenantOptions.map((membership: any) => (
+                <option key={membership.tenantId} value={membership.tenantId}>
+                  {membership.tenant?.name ?? membership.tenantId}
+                </option>
+              ))}
+            </SelectInput>
+          )}
+          <PrimaryButton type="submit">Assign role</PrimaryButton>
+        </form>
+      )}
+      <DataTable>
+        <thead className="bg-slate-50 text-slate-600">
+          <tr>
+            <th className="px-3 py-2">Tenant</th>
+            <th className="px-3 py-2">User</th>
+            <th className="px-3 py-2">Role</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {(result?.data ?? []).map((m: any) => (
+            <tr key={m.id}>
+              <td className="px-3 py-2">{m.tenant?.name ?? m.tenantId}</td>
+              <td className="px-3 py-2">{m.user?.email ?? m.userId}</td>
+              <td className="px-3 py-2">{m.role}</td>
+            </tr>
+          ))}
+        </tbody>
+      </DataTable>
+    </PageCard>
+  );
+}
+
+function CameraAssignmentsPage({ apiUrl }: { apiUrl: string }) {
+  const canEdit = useCan({ resource: "users", action: "edit" }).data?.can;
+  const usersList = useList({ resource: "users", pagination: { currentPage: 1, pageSize: 200, mode: "server" } } as any);
+  const camerasList = useList({ resource: "cameras", pagination: { currentPage: 1, pageSize: 200, mode: "server" } } as any);
+  const users = useMemo(
+    () => (usersList.result?.data ?? []).filter((user: any) => ["monitor", "client_user"].includes(user.role)),
+    [usersList.result?.data]
+  );
+  const groupsList = useList({ resource: "camera-groups", pagination: { currentPage: 1, pageSize: 200, mode: "server" } } as any);
+  const cameras = useMemo(() => camerasList.result?.data ?? [], [camerasList.result?.data]);
+  const groups = useMemo(() => groupsList.result?.data ?? [], [groupsList.result?.data]);
+  const [selectedUserId, setSelectedUserId] = useState<string>("");
+  const [assignedCameraIds, setAssignedCameraIds] = useState<string[]>([]);
+  const [assignedGroupIds, setAssignedGroupIds] = useState<string[]>([]);
+  const [assignments, setAssignments] = useState<any[]>([]);
+  const [scheduleDraft, setScheduleDraft] = useState<
+    (TimeWindowDraft & { assignmentId: string; validFrom: string; validUntil: string }) | null
+  >(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!selectedUserId) return;
+    const token = getToken();
+    const tenantId = getTenantId();
+    if (!token || !tenantId) return;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const headers = {
+          Authorization: `Bearer ${token}`,
+          "X-Tenant-Id": tenantId
+        };
+        const [res, groupRes] = await Promise.all([
+          fetch(`${apiUrl}/camera-assignments?userId=${encodeURIComponent(selectedUserId)}`, { headers }),
+          fetch(`${apiUrl}/camera-group-assignments?userId=${encodeURIComponent(selectedUserId)}`, { headers })
+        ]);
+        if (!res.ok) {
+          const body = await res.text();
+          throw new Error(`camera-assignments ${res.status}: ${body}`);
+        }
+        if (!groupRes.ok) {
+          const body = await groupRes.text();
+          throw new Error(`camera-group-assignments ${groupRes.status}: ${body}`);
+        }
+        const body = await res.json();
+        const ids = (body.data ?? []).map((entry: any) => String(entry.cameraId));
+        setAssignedCameraIds(ids);
+        setAssignments(body.data ?? []);
+        setScheduleDraft(null);
+        setAssignedGroupIds(((await groupRes.json()).data ?? []).map((entry: any) => String(entry.groupId)));
+      } catch (cause) {
+        setError(summarizeApiError(cause, "No se pudo cargar scope de cámaras"));
+      } finally {
+        setLoading(false);
+      }
+    };
+    void load();
+  }, [apiUrl, selectedUserId]);
+
+  const selectedUser = users.find((user: any) => user.id === selectedUserId);
+
+  async function saveSchedule(assignmentId: string, schedule: unknown) {
+    const token = getToken();
+    const tenantId = getTenantId();
+    if (!token || !tenantId) {
+      setError("Missing auth context");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setOk(null);
+    try {
+      const res = await fetch(`${apiUrl}/camera-assignments/${encodeURIComponent(assignmentId)}/schedule`, {
+        method: "PUT",
+        headers: { "content-type": "application/json", Authorization: `Bearer ${token}`, "X-Tenant-Id": tenantId },
+        body: JSON.stringify({ schedule })
+      });
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, "No se pudo guardar el horario"));
+      const updated = (await res.json()).data;
+      setAssignments((prev) => prev.map((entry) => (entry.id === updated.id ? { ...entry, ...updated } : entry)));
+      setScheduleDraft(null);
+      setOk("Horario guardado");
+    } catch (cause) {
+      setError(summarizeApiError(cause, "No se pudo guardar el horario"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <PageCard title="Scope de cámaras por usuario">
+      <div className="mb-3 text-sm opacity-70">
+        Sin asignaciones explícitas, monitor/customer ven todas las cámaras del tenant. Al asignar cámaras o grupos, se aplica
+        allowlist; un grupo incluye sus subgrupos.
+      </div>
+      {!canEdit && <div className="alert alert-warning py-2 text-sm">No tenés permisos para administrar scopes.</div>}
+
+      <div className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-2">
+        <SelectInput value={selectedUserId} onChange={(e) => setSelectedUserId(e.target.value)} disabled={!canEdit}>
+          <option value="">Seleccionar usuario</option>
+          {users.map((user: any) => (
+            <option key={user.id} value={user.id}>
+              {user.email} ({user.role === "monitor" ? "operator" : "customer"})
+            </option>
+          ))}
+        </SelectInput>
+        <div className="rounded-box border border-base-300 px-3 py-2 text-sm">
+          {selectedUser ? (
+            <>
+              <div>usuario: {selectedUser.email}</div>
+              <div>rol: {selectedUser.role === "monitor" ? "operator" : "customer"}</div>
+            </>
+          ) : (
+            <div>Seleccioná un usuario para editar su scope</div>
+          )}
+        </div>
+      </div>
+
+      {selectedUserId && (
+        <>
+          <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+            <Badge>{assignedCameraIds.length} asignadas</Badge>
+            <Badge>{assignedGroupIds.length} grupos</Badge>
+            <Badge>{cameras.length} cámaras tenant</Badge>
+            {loading && <Badge>cargando...</Badge>}
+          </div>
+          {groups.length > 0 && (
+            <div className="mb-3 grid grid-cols-1 gap-2 md:grid-cols-3">
+              {groups.map((group: any) => (
+                <label key={group.id} className="flex items-center gap-2 rounded-box border border-base-300 px-3 py-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={assignedGroupIds.includes(group.id)}
+                    onChange={(e) =>
+                      setAssignedGroupIds((prev) =>
+                        e.target.checked ? Array.from(new Set([...prev, group.id])) : prev.filter((value) => value !== group.id)
+                      )
+                    }
+                    disabled={!canEdit || saving}
+                  />
+                  <span className="font-medium">{group.name}</span>
+                  <span className="opacity-70">
+                    ({group.kind}, {group.cameraCount} cámaras)
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+            {cameras.map((camera: any) => (
+              <label key={camera.id} className="flex items-center gap-2 rounded-box border border-base-300 px-3 py-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={assignedCameraIds.includes(camera.id)}
+                  onChange={(e) =>
+                    setAssignedCameraIds((prev) =>
+                      e.target.checked ? Array.from(new Set([...prev, camera.id])) : prev.filter((value) => value !== camera.id)
+                    )
+                  }
+                  disabled={!canEdit || saving}
+                />
+                <span className="font-medium">{camera.name}</span>
+                <span className="opacity-70">({camera.location || "-"})</span>
+              </label>
+            ))}
+          </div>
+          {assignments.length > 0 && (
+            <div className="mt-4">
+              <div className="mb-2 text-sm font-medium">Horarios de acceso</div>
+              <div className="mb-2 text-xs opacity-70">
+                Fuera de horario la cámara deja de verse y las sesiones de video en curso vencen al cerrar la franja (zona horaria del tenant).
+              </div>
+              <div className="grid grid-cols-1 gap-2">
+                {assignments.map((assignment: any) => (
+                  <div key={assignment.id} className="rounded-box border border-base-300 px-3 py-2 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{cameras.find((camera: any) => camera.id === assignment.cameraId)?.name ?? assignment.cameraId}</span>
+                      <span className="opacity-70">{describeAccessSchedule(assignment.schedule)}</span>
+                      <Badge>{assignment.accessOpen ? "habilitada ahora" : "fuera de horario"}</Badge>
+                      <button
+                        className="btn btn-xs"
+                        type="button"
+                        disabled={!canEdit || saving}
+                        onClick={() =>
+                          setScheduleDraft({
+                            assignmentId: assignment.id,
+                            days: assignment.schedule?.windows[0]?.days.join(",") ?? "1,2,3,4,5",
+                            start: assignment.schedule?.windows[0]?.start ?? "09:00",
+                            end: assignment.schedule?.windows[0]?.end ?? "18:00",
+                            validFrom: toDateTimeLocalInput(assignment.schedule?.validFrom),
+                            validUntil: toDateTimeLocalInput(assignment.schedule?.validUntil)
+                          })
+                        }
+                      >
+                        Editar horario
+                      </button>
+                      {assignment.schedule && (
+                        <button
+                          className="btn btn-xs"
+                          type="button"
+                          disabled={!canEdit || saving}
+                          onClick={() => void saveSchedule(assignment.id, null)}
+                        >
+                          Quitar horario
+                        </button>
+                      )}
+                    </div>
+                    {scheduleDraft && scheduleDraft.assignmentId === assignment.id && (
+                      <form
+                        className="mt-2 grid grid-cols-1 gap-2 md:grid-cols-6"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          const days = scheduleDraft.days.trim() ? parseDaysList(scheduleDraft.days) : [];
+                          void saveSchedule(assignment.id, {
+                            windows: days.length > 0 ? [{ days, start: scheduleDraft.start, end: scheduleDraft.end }] : [],
+                            validFrom: scheduleDraft.validFrom ? new Date(scheduleDraft.validFrom).toISOString() : null,
+                            validUntil: scheduleDraft.validUntil ? new Date(scheduleDraft.validUntil).toISOString() : null
+                          });
+                        }}
+                      >
+                        <TextInput
+                          aria-label="Días"
+                          placeholder="Días (0-6, vacío = cualquier día y hora)"
+                          value={scheduleDraft.days}
+                          onChange={(e) => setScheduleDraft((draft) => draft && { ...draft, days: e.target.value })}
+                        />
+                        <TextInput type="time" value={scheduleDraft.start} onChange={(e) => setScheduleDraft((draft) => draft && { ...draft, start: e.target.value })} />
+                        <TextInput type="time" value={scheduleDraft.end} onChange={(e) => setScheduleDraft((draft) => draft && { ...draft, end: e.target.value })} />
+                        <TextInput
+                          type="datetime-local"
+                          aria-label="Desde"
+                          value={scheduleDraft.validFrom}
+                          onChange={(e) => setScheduleDraft((draft) => draft && { ...draft, validFrom: e.target.value })}
+                        />
+                        <TextInput
+                          type="datetime-local"
+                          aria-label="Hasta"
+                          value={scheduleDraft.validUntil}
+                          onChange={(e) => setScheduleDraft((draft) => draft && { ...draft, validUntil: e.target.value })}
+                        />
+                        <PrimaryButton type="submit" disabled={!canEdit || saving}>
+                          Guardar horario
+                        </PrimaryButton>
+                      </form>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="mt-4 flex gap-2">
+            <PrimaryButton
+              type="button"
+              disabled={!canEdit || saving}
+              onClick={async () => {
+                const token = getToken();
+                const tenantId = getTenantId();
+                if (!token || !tenantId || !selectedUserId) {
+                  setError("Missing auth context");
+                  return;
+                }
+                setSaving(true);
+                setError(null);
+                setOk(null);
+                try {
+                  const res = await fetch(`${apiUrl}/camera-assignments/${encodeURIComponent(selectedUserId)}`, {
+                    method: "PUT",
+                    headers: {
+                      "content-type": "application/json",
+                      Authorization: `Bearer ${token}`,
+                      "X-Tenant-Id": tenantId
+                    },
+                    body: JSON.stringify({ cameraIds: assignedCameraIds, groupIds: assignedGroupIds })
+                  });
+                  if (!res.ok) {
+                    const body = await res.text();
+                    throw new Error(`camera-assignments save ${res.status}: ${body}`);
+                  }
+                  setOk("Scope guardado");
+                } catch (cause) {
+                  setError(summarizeApiError(cause, "No se pudo guardar scope"));
+                } finally {
+                  setSaving(false);
+                }
+              }}
+            >
+              Guardar scope
+            </PrimaryButton>
+            <button
+              className="btn"
+              type="button"
+              disabled={!canEdit || saving}
+              onClick={() => {
+                setAssignedCameraIds([]);
+                setAssignedGroupIds([]);
+              }}
+            >
+              Limpiar (ver todas)
+            </button>
+          </div>
+          {error && <div className="alert alert-error mt-3 py-2 text-sm">{error}</div>}
+          {ok && <div className="alert alert-success mt-3 py-2 text-sm">{ok}</div>}
+        </>
+      )}
+    </PageCard>
+  );
+}
+
+function ClientOverviewPage({ apiUrl }: { apiUrl: string }) {
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rows, setRows] = useState<ClientOverviewCameraRow[]>([]);
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"all" | "ready" | "attention" | "not_configured">("all");
+
+  async function loadOverview() {
+    const token = getToken();
+    const tenantId = getTenantId();
+    if (!token || !tenantId) {
+      setError("Missing auth context");
+      setLoading(false);
+      return;
+    }
+
+    setRefreshing(true);
+    setError(null);
+    try {
+      const camerasResponse = await fetch(`${apiUrl}/cameras?_start=0&_end=100&_sort=createdAt&_order=DESC`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "X-Tenant-Id": tenantId
+        }
+      });
+      if (!camerasResponse.ok) {
+        throw new Error(await summarizeApiErrorResponse(camerasResponse, "No se pudo cargar el resumen de cámaras"));
+      }
+      const cameraBody = (await camerasResponse.json()) as { data?: any[] };
+      const cameras = cameraBody.data ?? [];
+
+      const topologyResults = await Promise.all(
+        cameras.map(async (camera: any) => {
+          try {
+            const topologyResponse = await fetch(`${apiUrl}/cameras/${camera.id}/detection-topology`, {
+              headers: {
+                Authorization: `Bearer ${token}`,
+                "X-Tenant-Id": tenantId
+              }
+            });
+            if (!topologyResponse.ok) {
+              return {
+                id: camera.id,
+                name: camera.name,
+                location: camera.location,
+                lifecycleStatus: camera.lifecycleStatus,
+                isActive: Boolean(camera.isActive),
+                topology: null,
+                topologyError: await summarizeApiErrorResponse(topologyResponse, "No se pudo cargar topología")
+              } satisfies ClientOverviewCameraRow;
+            }
+            const topologyBody = (await topologyResponse.json()) as { data?: DetectionTopology };
+            return {
+              id: camera.id,
+              name: camera.name,
+              location: camera.location,
+              lifecycleStatus: camera.lifecycleStatus,
+              isActive: Boolean(camera.isActive),
+              topology: topologyBody.data ?? null,
+              topologyError: null
+            } satisfies ClientOverviewCameraRow;
+          } catch (cause) {
+            return {
+              id: camera.id,
+              name: camera.name,
+              location: camera.location,
+              lifecycleStatus: camera.lifecycleStatus,
+              isActive: Boolean(camera.isActive),
+              topology: null,
+              topologyError: summarizeApiError(cause, "No se pudo cargar topología")
+            } satisfies ClientOverviewCameraRow;
+          }
+        })
+      );
+
+      setRows(topologyResults);
+    } catch (cause) {
+      setError(summarizeApiError(cause, "No se pudo cargar el resumen cliente"));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }
+
+  useEffect(() => {
+    void loadOverview();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl]);
+
+  const filteredRows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return rows.filter((row) => {
+      const matchesSearch =
+        query.length === 0 ||
+        row.name.toLowerCase().includes(query) ||
+        (row.location ?? "").toLowerCase().includes(query) ||
+        (row.topology?.pipelines ?? []).some((pipeline) => formatDetectionTask(pipeline.taskType).toLowerCase().includes(query));
+
+      const state = !row.topology || row.topology.summary.totalPipelines === 0
+        ? "not_configured"
+        : row.topology.runnable && row.topology.inSync
+          ? "ready"
+          : "attention";
+
+      const matchesStatus = statusFilter === "all" || state === statusFilter;
+      return matchesSearch && matchesStatus;
+    });
+  }, [rows, search, statusFilter]);
+
+  const summary = useMemo(() => {
+    let ready = 0;
+    let attention = 0;
+    let notConfigured = 0;
+    const detections = new Set<string>();
+    for (const row of rows) {
+      if (!row.topology || row.topology.summary.totalPipelines === 0) {
+        notConfigured += 1;
+        continue;
+      }
+      if (row.topology.runnable && row.topology.inSync) ready += 1;
+      else attention += 1;
+      for (const pipeline of row.topology.pipelines) {
+        if (pipeline.enabled) detections.add(formatDetectionTask(pipeline.taskType));
+      }
+    }
+    return {
+      total: rows.length,
+      ready,
+      attention,
+      notConfigured,
+      detections: Array.from(detections)
+    };
+  }, [rows]);
+
+  return (
+    <div className="space-y-4">
+      <PageCard title="Resumen Cliente">
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-sm text-slate-600">Vista resumida por tenant para seguir cobertura, capacidad y riesgos sin entrar al detalle técnico.</div>
+            <div className="mt-2 flex flex-wrap gap-2 text-xs text-slate-600">
+              {summary.detections.map((detection) => (
+                <Badge key={detection}>{detection}</Badge>
+              ))}
+              {summary.detections.length === 0 ? <Badge>Sin detecciones activas</Badge> : null}
+            </div>
+          </div>
+          <PrimaryButton className="px-2.5 py-1.5 text-xs" type="button" onClick={() => void loadOverview()} disabled={refreshing}>
+            {refreshing ? "Refreshing..." : "Refresh"}
+          </PrimaryButton>
+        </div>
+        {error ? <div className="rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div> : null}
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <Surface className="border border-slate-200 bg-slate-50">
+            <div className="text-xs uppercase tracking-wide text-slate-500">Cámaras</div>
+            <div className="mt-1 text-2xl font-semibold text-slate-900">{summary.total}</div>
+            <div className="text-xs text-slate-500">Cantidad total visible para este tenant</div>
+          </Surface>
+          <Surface className="border border-emerald-200 bg-emerald-50">
+            <div className="text-xs uppercase tracking-wide text-emerald-700">Listas</div>
+            <div className="mt-1 text-2xl font-semibold text-emerald-900">{summary.ready}</div>
+            <div className="text-xs text-emerald-700">Cobertura consistente y capacidad disponible</div>
+          </Surface>
+          <Surface className="border border-amber-200 bg-amber-50">
+            <div className="text-xs uppercase tracking-wide text-amber-700">Con atención</div>
+            <div className="mt-1 text-2xl font-semibold text-amber-900">{summary.attention}</div>
+            <div className="text-xs text-amber-700">Hay drift, degradación o cobertura parcial</div>
+          </Surface>
+          <Surface className="border border-slate-200 bg-slate-50">
+            <div className="text-xs uppercase tracking-wide text-slate-500">Sin configurar</div>
+            <div className="mt-1 text-2xl font-semibold text-slate-900">{summary.notConfigured}</div>
+            <div className="text-xs text-slate-500">No tienen pipelines de detección activos</div>
+          </Surface>
+        </div>
+      </PageCard>
+
+      <PageCard title="Cámaras del Tenant">
+        <div className="mb-3 grid grid-cols-1 gap-2 md:grid-cols-[minmax(0,1fr)_220px]">
+          <TextInput placeholder="Buscar por cámara, ubicación o detección" value={search} onChange={(e) => setSearch(e.target.value)} />
+          <SelectInput value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}>
+            <option value="all">todos los estados</option>
+            <option value="ready">listas</option>
+            <option value="attention">con atención</option>
+            <option value="not_configured">sin configurar</option>
+          </SelectInput>
+        </div>
+        {loading ? (
+          <div className="text-sm text-slate-500">Cargando resumen del tenant...</div>
+        ) : (
+          <div className="grid grid-cols-1 gap-3 xl:grid-cols-2">
+            {filteredRows.map((row) => {
+              const state = !row.topology || row.topology.summary.totalPipelines === 0
+                ? { label: "Sin configurar", tone: "neutral" as const, detail: "Todavía no hay pipelines activos para esta cámara." }
+                : row.topology.runnable && row.topology.inSync
+                  ? { label: "Lista", tone: "good" as const, detail: "La cobertura actual es consistente y tiene capacidad disponible." }
+                  : { label: "Con atención", tone: "warn" as const, detail: summarizeTopologyRisks(row.topology).join("; ") || "Requiere revisión operativa." };
+              const detections = Array.from(
+                new Set((row.topology?.pipelines ?? []).filter((pipeline) => pipeline.enabled).map((pipeline) => formatDetectionTask(pipeline.taskType)))
+              );
+              const primaryPipelines = (row.topology?.pipelines ?? []).filter((pipeline) => pipeline.assignment.primaryNodeId);
+
+              return (
+                <Surface key={row.id} className="space-y-3 border border-slate-200">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <div className="text-lg font-semibold text-slate-900">{row.name}</div>
+                      <div className="text-sm text-slate-600">{row.location || "Sin ubicación declarada"}</div>
+                      <div className="mt-1 text-xs text-slate-500">Lifecycle {row.lifecycleStatus ?? "-"} · {row.isActive ? "Activa" : "Inactiva"}</div>
+                    </div>
+                    <Badge className={getAudienceToneClasses(state.tone)}>{state.label}</Badge>
+                  </div>
+                  <div className="text-sm text-slate-700">{row.topologyError ?? state.detail}</div>
+                  <div className="flex flex-wrap gap-2">
+                    {detections.map((detection) => (
+                      <Badge key={`${row.id}-${detection}`}>{detection}</Badge>
+                    ))}
+                    {detections.length === 0 ? <Badge>Sin detecciones activas</Badge> : null}
+                    {row.topology ? <Badge>{row.topology.summary.assignedPipelines}/{row.topology.summary.enabledPipelines} asignados</Badge> : null}
+                  </div>
+                  {primaryPipelines.length > 0 ? (
+                    <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-600">
+                      Nodos primarios: {primaryPipelines.map((pipeline) => pipeline.assignment.primaryNodeId).filter(Boolean).join(", ")}
+                    </div>
+                  ) : null}
+                  <div className="flex flex-wrap gap-2">
+                    <Link className="text-sm font-medium text-slate-700 underline underline-offset-2" to={ADMIN_ROUTES.resources.cameraDetail(row.id)}>
+                      Ver detalle de cámara
+                    </Link>
+                  </div>
+                </Surface>
+              );
+            })}
+            {filteredRows.length === 0 ? (
+              <Surface className="border border-slate-200 bg-slate-50">
+                <div className="text-sm text-slate-600">No hay cámaras que coincidan con los filtros actuales.</div>
+              </Surface>
+            ) : null}
+          </div>
+        )}
+      </PageCard>
+    </div>
+  );
+}
+
+const CAMERA_GROUP_KIND_LABELS: Record<string, string> = { building: "Edificio", floor: "Piso", area: "Área" };
+
+// Flattens the group tree depth-first so children render indented right under their parent.
+function orderCameraGroups(groups: any[]) {
+  const ordered: Array<{ group: any; depth: number }> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const group of groups.filter((entry) => (entry.parentId ?? null) === parentId)) {
+      ordered.push({ group, depth });
+      visit(group.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return ordered;
+}
+
+function SitesPage({ apiUrl }: { apiUrl: string }) {
+  const tenantId = getTenantId();
+  const [sites, setSites] = useState<any[]>([]);
+  const [selectedSite, setSelectedSite] = useState<any | null>(null);
+  const [siteForm, setSiteForm] = useState({ name: "", address: "", latitude: "", longitude: "", timezone: "" });
+  const [groupForm, setGroupForm] = useState({ name: "", kind: "building", parentId: "" });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers = () => ({
+    Authorization: `Bearer ${getToken()}`,
+    "Content-Type": "application/json",
+    ...(tenantId ? { "X-Tenant-Id": tenantId } : {})
+  });
+
+  async function loadSites() {
+    if (!tenantId) return;
+    const res = await fetch(`${apiUrl}/sites?_start=0&_end=200`, { headers: headers() });
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudieron cargar los sitios"));
+      return;
+    }
+    setSites((await res.json()).data);
+  }
+
+  async function loadSite(siteId: string) {
+    const res = await fetch(`${apiUrl}/sites/${siteId}`, { headers: headers() });
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudo cargar el sitio"));
+      return;
+    }
+    setSelectedSite((await res.json()).data);
+  }
+
+  useEffect(() => {
+    void loadSites();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl, tenantId]);
+
+  async function send(method: string, path: string, body: unknown, fallback: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiUrl}${path}`, {
+        method,
+        headers: headers(),
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {})
+      });
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, fallback));
+      await loadSites();
+      if (selectedSite) await loadSite(selectedSite.id);
+      return true;
+    } catch (cause) {
+      setError(summarizeApiError(cause, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!tenantId) return <PageCard title="Sitios">Seleccioná un tenant activo.</PageCard>;
+
+  return (
+    <PageCard title="Sitios">
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+      <form
+        className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-12"
+        onSubmit={(e) => {
+          e.preventDefault();
+          const payload = {
+            name: siteForm.name.trim(),
+            address: siteForm.address.trim() || null,
+            latitude: siteForm.latitude ? Number(siteForm.latitude) : null,
+            longitude: siteForm.longitude ? Number(siteForm.longitude) : null,
+            timezone: siteForm.timezone.trim() || null
+          };
+          void send("POST", "/sites", payload, "No se pudo crear el sitio").then((ok) => {
+            if (ok) setSiteForm({ name: "", address: "", latitude: "", longitude: "", timezone: "" });
+          });
+        }}
+      >
+        <TextInput
+          className="md:col-span-3"
+          placeholder="Nombre"
+          value={siteForm.name}
+          onChange={(e) => setSiteForm((f) => ({ ...f, name: e.target.value }))}
+        />
+        <TextInput
+          className="md:col-span-3"
+          placeholder="Dirección"
+          value={siteForm.address}
+          onChange={(e) => setSiteForm((f) => ({ ...f, address: e.target.value }))}
+        />
+        <TextInput
+          className="md:col-span-1"
+          placeholder="Lat"
+          inputMode="decimal"
+          value={siteForm.latitude}
+          onChange={(e) => setSiteForm((f) => ({ ...f, latitude: e.target.value }))}
+        />
+        <TextInput
+          className="md:col-span-1"
+          placeholder="Lng"
+          inputMode="decimal"
+          value={siteForm.longitude}
+          onChange={(e) => setSiteForm((f) => ({ ...f, longitude: e.target.value }))}
+        />
+        <TextInput
+          className="md:col-span-2"
+          placeholder="Zona horaria"
+          value={siteForm.timezone}
+          onChange={(e) => setSiteForm((f) => ({ ...f, timezone: e.target.value }))}
+        />
+        <PrimaryButton type="submit" className="md:col-span-2" disabled={busy || siteForm.name.trim().length < 2}>
+          Crear sitio
+        </PrimaryButton>
+      </form>
+      <DataTable>
+        <thead className="bg-slate-50 text-slate-600">
+          <tr>
+            <th className="px-3 py-2">Sitio</th>
+            <th className="px-3 py-2">Dirección</th>
+            <th className="px-3 py-2">Zona horaria</th>
+            <th className="px-3 py-2">Cámaras</th>
+            <th className="px-3 py-2">Acciones</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {sites.map((site) => (
+            <tr key={site.id} className={selectedSite?.id === site.id ? "bg-slate-50" : undefined}>
+              <td className="px-3 py-2">{site.name}</td>
+              <td className="px-3 py-2">
+                {site.address ?? "-"}
+                {site.latitude !== null && site.longitude !== null ? (
+                  <span className="ml-1 text-xs opacity-60">
+                    ({site.latitude}, {site.longitude})
+                  </span>
+                ) : null}
+              </td>
+              <td className="px-3 py-2">{site.timezone ?? "-"}</td>
+              <td className="px-3 py-2">{site.cameraCount}</td>
+              <td className="px-3 py-2">
+                <div className="flex gap-2">
+                  <PrimaryButton className="px-2 py-1 text-xs" type="button" onClick={() => void loadSite(site.id)}>
+                    Grupos
+                  </PrimaryButton>
+                  <DangerButton
+                    className="px-2 py-1 text-xs"
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      void send("DELETE", `/sites/${site.id}`, undefined, "No se pudo eliminar el sitio").then((ok) => {
+                        if (ok && selectedSite?.id === site.id) setSelectedSite(null);
+                      })
+                    }
+                  >
+                    Eliminar
+                  </DangerButton>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </DataTable>
+
+      {selectedSite && (
+        <Surface className="mt-4">
+          <div className="mb-2 text-sm font-semibold">Grupos de {selectedSite.name}</div>
+          <form
+            className="mb-3 flex flex-wrap items-end gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const payload = {
+                siteId: selectedSite.id,
+                name: groupForm.name.trim(),
+                kind: groupForm.kind,
+                parentId: groupForm.parentId || null
+              };
+              void send("POST", "/camera-groups", payload, "No se pudo crear el grupo").then((ok) => {
+                if (ok) setGroupForm((f) => ({ ...f, name: "" }));
+              });
+            }}
+          >
+            <TextInput
+              aria-label="Nombre del grupo"
+              placeholder="Nombre"
+              value={groupForm.name}
+              onChange={(e) => setGroupForm((f) => ({ ...f, name: e.target.value }))}
+            />
+            <SelectInput value={groupForm.kind} onChange={(e) => setGroupForm((f) => ({ ...f, kind: e.target.value }))}>
+              {Object.entries(CAMERA_GROUP_KIND_LABELS).map(([kind, label]) => (
+                <option key={kind} value={kind}>
+                  {label}
+                </option>
+              ))}
+            </SelectInput>
+            <SelectInput value={groupForm.parentId} onChange={(e) => setGroupForm((f) => ({ ...f, parentId: e.target.value }))}>
+              <option value="">Sin grupo padre</option>
+              {orderCameraGroups(selectedSite.groups).map(({ group, depth }) => (
+                <option key={group.id} value={group.id}>
+                  {"— ".repeat(depth)}
+                  {group.name}
+                </option>
+              ))}
+            </SelectInput>
+            <PrimaryButton type="submit" disabled={busy || !groupForm.name.trim()}>
+              Crear grupo
             </PrimaryButton>
-            <button
-              className="btn"
-              type="button"
-              disabled={!canEdit || saving}
-              onClick={() => setAssignedCameraIds([])}
-            >
-              Limpiar (ver todas)
-            </button>
-          </div>
-          {error && <div className="alert alert-error mt-3 py-2 text-sm">{error}</div>}
-          {ok && <div className="alert alert-success mt-3 py-2 text-sm">{ok}</div>}
-        </>
+          </form>
+          <ul className="space-y-1 text-sm">
+            {orderCameraGroups(selectedSite.groups).map(({ group, depth }) => (
+              <li key={group.id} className="flex items-center gap-2" style={{ paddingLeft: depth * 16 }}>
+                <Badge>{CAMERA_GROUP_KIND_LABELS[group.kind] ?? group.kind}</Badge>
+                <span>{group.name}</span>
+                <span className="text-xs opacity-60">{group.cameraCount} cámaras</span>
+                <button
+                  type="button"
+                  className="text-xs text-rose-600 hover:underline"
+                  disabled={busy}
+                  onClick={() => void send("DELETE", `/camera-groups/${group.id}`, undefined, "No se pudo eliminar el grupo")}
+                >
+                  eliminar
+                </button>
+              </li>
+            ))}
+            {selectedSite.groups.length === 0 && <li className="opacity-60">Sin grupos todavía.</li>}
+          </ul>
+        </Surface>
       )}
     </PageCard>
   );
 }
 
-function ClientOverviewPage({ apiUrl }: { apiUrl: string }) {
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
+const WEEKDAY_SHORT_LABELS = ["Dom", "Lun", "Mar", "Mié", "Jue", "Vie", "Sáb"];
+
+function MaintenanceWindowsPage({ apiUrl }: { apiUrl: string }) {
+  const tenantId = getTenantId();
+  const canManage = useCan({ resource: "cameras", action: "edit" }).data?.can;
+  const [windows, setWindows] = useState<any[]>([]);
+  const [cameras, setCameras] = useState<any[]>([]);
+  const [sites, setSites] = useState<any[]>([]);
+  const [form, setForm] = useState({
+    target: "camera",
+    targetId: "",
+    reason: "",
+    recurrence: "none",
+    startsAt: "",
+    endsAt: "",
+    days: "1,2,3,4,5",
+    start: "08:00",
+    end: "10:00"
+  });
+  const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [rows, setRows] = useState<ClientOverviewCameraRow[]>([]);
-  const [search, setSearch] = useState("");
-  const [statusFilter, setStatusFilter] = useState<"all" | "ready" | "attention" | "not_configured">("all");
 
-  async function loadOverview() {
-    const token = getToken();
-    const tenantId = getTenantId();
-    if (!token || !tenantId) {
-      setError("Missing auth context");
-      setLoading(false);
+  const headers = () => ({
+    Authorization: `Bearer ${getToken()}`,
+    "Content-Type": "application/json",
+    ...(tenantId ? { "X-Tenant-Id": tenantId } : {})
+  });
+
+  async function load() {
+    if (!tenantId) return;
+    const [windowsRes, camerasRes, sitesRes] = await Promise.all([
+      fetch(`${apiUrl}/maintenance-windows?_start=0&_end=200`, { headers: headers() }),
+      fetch(`${apiUrl}/cameras?_start=0&_end=200`, { headers: headers() }),
+      fetch(`${apiUrl}/sites?_start=0&_end=200`, { headers: headers() })
+    ]);
+    if (!windowsRes.ok) {
+      setError(await summarizeApiErrorResponse(windowsRes, "No se pudieron cargar las ventanas de mantenimiento"));
       return;
     }
+    setWindows((await windowsRes.json()).data);
+    if (camerasRes.ok) setCameras((await camerasRes.json()).data);
+    if (sitesRes.ok) setSites((await sitesRes.json()).data);
+  }
 
-    setRefreshing(true);
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiUrl, tenantId]);
+
+  async function send(method: string, path: string, body: unknown, fallback: string) {
+    setBusy(true);
     setError(null);
     try {
-      const camerasResponse = await fetch(`${apiUrl}/cameras?_start=0&_end=100&_sort=createdAt&_order=DESC`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "X-Tenant-Id": tenantId
-        }
+      const res = await fetch(`${apiUrl}${path}`, {
+        method,
+        headers: headers(),
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {})
       });
-      if (!camerasResponse.ok) {
-        throw new Error(await summarizeApiErrorResponse(camerasResponse, "No se pudo cargar el resumen de cámaras"));
-      }
-      const cameraBody = (await camerasResponse.json()) as { data?: any[] };
-      const cameras = cameraBody.data ?? [];
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, fallback));
+      await load();
+      return true;
+    } catch (cause) {
+      setError(summarizeApiError(cause, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
 
-      const topologyResults = await Promise.all(
-        cameras.map(async (camera: any) => {
-          try {
-            const topologyResponse = await fetch(`${apiUrl}/cameras/${camera.id}/detection-topology`, {
-              headers: {
-                Authorization: `Bearer ${token}`,
-                "X-Tenant-Id": tenantId
-              }
+  const targetName = (window: any) =>
+    window.cameraId
+      ? cameras.find((camera) => camera.id === window.cameraId)?.name ?? window.cameraId
+      : `Sitio ${sites.find((site) => site.id === window.siteId)?.name ?? window.siteId}`;
+
+  if (!tenantId) return <PageCard title="Mantenimiento">Seleccioná un tenant activo.</PageCard>;
+
+  return (
+    <PageCard title="Mantenimiento">
+      <p className="mb-3 text-sm opacity-70">
+        Durante una ventana activa los incidentes quedan marcados como suprimidos sin notificar y la sincronización de salud no cambia el
+        estado de la cámara.
+      </p>
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+      {canManage && (
+        <form
+          className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-12"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const payload = {
+              ...(form.target === "camera" ? { cameraId: form.targetId } : { siteId: form.targetId }),
+              reason: form.reason.trim(),
+              recurrence: form.recurrence,
+              startsAt: new Date(form.startsAt).toISOString(),
+              endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+              ...(form.recurrence === "weekly" ? { schedule: { days: parseDaysList(form.days), start: form.start, end: form.end } } : {})
+            };
+            void send("POST", "/maintenance-windows", payload, "No se pudo crear la ventana").then((ok) => {
+              if (ok) setForm((f) => ({ ...f, reason: "", startsAt: "", endsAt: "" }));
             });
-            if (!topologyResponse.ok) {
-              return {
-                id: camera.id,
-                name: camera.name,
-                location: camera.location,
-                lifecycleStatus: camera.lifecycleStatus,
-                isActive: Boolean(camera.isActive),
-                topology: null,
-                topologyError: await summarizeApiErrorResponse(topologyResponse, "No se pudo cargar topología")
-              } satisfies ClientOverviewCameraRow;
-            }
-            const topologyBody = (await topologyResponse.json()) as { data?: DetectionTopology };
-            return {
-              id: camera.id,
-              name: camera.name,
-              location: camera.location,
-              lifecycleStatus: camera.lifecycleStatus,
-              isActive: Boolean(camera.isActive),
-              topology: topologyBody.data ?? null,
-              topologyError: null
-            } satisfies ClientOverviewCameraRow;
-          } catch (cause) {
-            return {
-              id: camera.id,
-              name: camera.name,
-              location: camera.location,
-              lifecycleStatus: camera.lifecycleStatus,
-              isActive: Boolean(camera.isActive),
-              topology: null,
-              topologyError: summarizeApiError(cause, "No se pudo cargar topología")
-            } satisfies ClientOverviewCameraRow;
-          }
-        })
-      );
+          }}
+        >
+          <SelectInput
+            className="md:col-span-2"
+            value={form.target}
+            onChange={(e) => setForm((f) => ({ ...f, target: e.target.value, targetId: "" }))}
+          >
+            <option value="camera">Cámara</option>
+            <option value="site">Sitio</option>
+          </SelectInput>
+          <SelectInput className="md:col-span-3" value={form.targetId} onChange={(e) => setForm((f) => ({ ...f, targetId: e.target.value }))}>
+            <option value="">Elegí {form.target === "camera" ? "una cámara" : "un sitio"}</option>
+            {(form.target === "camera" ? cameras : sites).map((item: any) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </SelectInput>
+          <TextInput
+            className="md:col-span-4"
+            placeholder="Motivo (ej. recambio de cableado)"
+            value={form.reason}
+            onChange={(e) => setForm((f) => ({ ...f, reason: e.target.value }))}
+          />
+          <SelectInput className="md:col-span-3" value={form.recurrence} onChange={(e) => setForm((f) => ({ ...f, recurrence: e.target.value }))}>
+            <option value="none">Única vez</option>
+            <option value="weekly">Semanal</option>
+          </SelectInput>
+          <label className="text-xs md:col-span-3">
+            Desde
+            <TextInput type="datetime-local" value={form.startsAt} onChange={(e) => setForm((f) => ({ ...f, startsAt: e.target.value }))} />
+          </label>
+          <label className="text-xs md:col-span-3">
+            Hasta{form.recurrence === "weekly" ? " (opcional)" : ""}
+            <TextInput type="datetime-local" value={form.endsAt} onChange={(e) => setForm((f) => ({ ...f, endsAt: e.target.value }))} />
+          </label>
+          {form.recurrence === "weekly" && (
+            <>
+              <TextInput
+                className="md:col-span-2"
+                aria-label="Días"
+                placeholder="Días (0-6)"
+                value={form.days}
+                onChange={(e) => setForm((f) => ({ ...f, days: e.target.value }))}
+              />
+              <TextInput className="md:col-span-1" type="time" value={form.start} onChange={(e) => setForm((f) => ({ ...f, start: e.target.value }))} />
+              <TextInput className="md:col-span-1" type="time" value={form.end} onChange={(e) => setForm((f) => ({ ...f, end: e.target.value }))} />
+            </>
+          )}
+          <PrimaryButton
+            type="submit"
+            className="md:col-span-2"
+            disabled={busy || !form.targetId || form.reason.trim().length < 3 || !form.startsAt}
+          >
+            Programar
+          </PrimaryButton>
+        </form>
+      )}
+      <DataTable>
+        <thead className="bg-slate-50 text-slate-600">
+          <tr>
+            <th className="px-3 py-2">Alcance</th>
+            <th className="px-3 py-2">Motivo</th>
+            <th className="px-3 py-2">Horario</th>
+            <th className="px-3 py-2">Estado</th>
+            <th className="px-3 py-2"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {windows.map((window) => (
+            <tr key={window.id}>
+              <td className="px-3 py-2">{targetName(window)}</td>
+              <td className="px-3 py-2">{window.reason}</td>
+              <td className="px-3 py-2 text-xs">
+                {formatDateTime(window.startsAt)} → {window.endsAt ? formatDateTime(window.endsAt) : "sin fin"}
+                {window.schedule && (
+                  <div className="opacity-70">
+                    {window.schedule.days.map((day: number) => WEEKDAY_SHORT_LABELS[day]).join(", ")} {window.schedule.start}–{window.schedule.end}
+                  </div>
+                )}
+              </td>
+              <td className="px-3 py-2">
+                <Badge className={window.active ? "border-amber-200 bg-amber-50 text-amber-700" : ""}>
+                  {window.active ? "En curso" : "Inactiva"}
+                </Badge>
+              </td>
+              <td className="px-3 py-2">
+                {canManage && (
+                  <DangerButton
+                    className="px-2 py-1 text-xs"
+                    type="button"
+                    disabled={busy}
+                    onClick={() => void send("DELETE", `/maintenance-windows/${window.id}`, undefined, "No se pudo eliminar la ventana")}
+                  >
+                    Eliminar
+                  </DangerButton>
+                )}
+              </td>
+            </tr>
+          ))}
+          {windows.length === 0 && (
+            <tr>
+              <td className="px-3 py-2 opacity-60" colSpan={5}>
+                Sin ventanas de mantenimiento.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </DataTable>
+    </PageCard>
+  );
+}
 
-      setRows(topologyResults);
+function formatOutageDuration(seconds: number | null) {
+  if (seconds === null) return "—";
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+}
+
+function UptimePage({ apiUrl }: { apiUrl: string }) {
+  const tenantId = getTenantId();
+  const today = new Date();
+  const [range, setRange] = useState({
+    from: new Date(today.getTime() - 30 * 86_400_000).toISOString().slice(0, 10),
+    to: today.toISOString().slice(0, 10),
+    granularity: "day"
+  });
+  const [report, setReport] = useState<any | null>(null);
+  const [selectedCameraId, setSelectedCameraId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    if (!tenantId) return;
+    setError(null);
+    const params = new URLSearchParams({
+      from: new Date(`${range.from}T00:00:00`).toISOString(),
+      to: new Date(`${range.to}T23:59:59`).toISOString(),
+      granularity: range.granularity
+    });
+    try {
+      const res = await fetch(`${apiUrl}/cameras/uptime?${params}`, {
+        headers: { Authorization: `Bearer ${getToken()}`, "X-Tenant-Id": tenantId }
+      });
+      if (!res.ok) throw new Error(await summarizeApiErrorResponse(res, "No se pudo calcular la disponibilidad"));
+      setReport((await res.json()).data);
     } catch (cause) {
-      setError(summarizeApiError(cause, "No se pudo cargar el resumen cliente"));
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
+      setError(summarizeApiError(cause, "No se pudo calcular la disponibilidad"));
     }
   }
 
   useEffect(() => {
-    void loadOverview();
+    void load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [apiUrl]);
+  }, [apiUrl, tenantId]);
 
-  const filteredRows = useMemo(() => {
-    const query = search.trim().toLowerCase();
-    return rows.filter((row) => {
-      const matchesSearch =
-        query.length === 0 ||
-        row.name.toLowerCase().includes(query) ||
-        (row.location ?? "").toLowerCase().includes(query) ||
-        (row.topology?.pipelines ?? []).some((pipeline) => formatDetectionTask(pipeline.taskType).toLowerCase().includes(query));
+  const selected = report?.cameras.find((camera: any) => camera.cameraId === selectedCameraId) ?? null;
 
-      const state = !row.topology || row.topology.summary.totalPipelines === 0
-        ? "not_configured"
-        : row.topology.runnable && row.topology.inSync
-          ? "ready"
-          : "attention";
+  if (!tenantId) return <PageCard title="Disponibilidad">Seleccioná un tenant activo.</PageCard>;
 
-      const matchesStatus = statusFilter === "all" || state === statusFilter;
-      return matchesSearch && matchesStatus;
-    });
-  }, [rows, search, statusFilter]);
+  return (
+    <PageCard title="Disponibilidad">
+      <form
+        className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-12"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void load();
+        }}
+      >
+        <TextInput className="md:col-span-3" type="date" value={range.from} onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))} />
+        <TextInput className="md:col-span-3" type="date" value={range.to} onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))} />
+        <SelectInput className="md:col-span-3" value={range.granularity} onChange={(e) => setRange((r) => ({ ...r, granularity: e.target.value }))}>
+          <option value="day">Por día</option>
+          <option value="month">Por mes</option>
+        </SelectInput>
+        <PrimaryButton type="submit" className="md:col-span-3">
+          Calcular
+        </PrimaryButton>
+      </form>
+      {error && <div className="alert alert-error mb-3 py-2 text-sm">{error}</div>}
+      {report && (
+        <>
+          <div className="mb-3 flex flex-wrap gap-2 text-sm">
+            <Badge>Uptime {report.summary.uptimePct}%</Badge>
+            <Badge>Caídas {report.summary.outageCount}</Badge>
+            <Badge>MTTR {formatOutageDuration(report.summary.mttrSeconds)}</Badge>
+            <Badge>Mantenimiento {formatOutageDuration(report.summary.plannedDowntimeSeconds)}</Badge>
+            <span className="opacity-60">Zona horaria: {report.timezone}</span>
+          </div>
+          <DataTable>
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <th className="px-3 py-2">Cámara</th>
+                <th className="px-3 py-2">Uptime</th>
+                <th className="px-3 py-2">Caída</th>
+                <th className="px-3 py-2">Caídas</th>
+                <th className="px-3 py-2">MTTR</th>
+                <th className="px-3 py-2">Períodos bajo 99%</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {report.cameras.map((camera: any) => (
+                <tr
+                  key={camera.cameraId}
+                  className={`cursor-pointer ${camera.cameraId === selectedCameraId ? "bg-slate-50" : ""}`}
+                  onClick={() => setSelectedCameraId(camera.cameraId)}
+                >
+                  <td className="px-3 py-2">{camera.name}</td>
+                  <td className="px-3 py-2">
+                    <Badge className={camera.uptimePct < 99 ? "border-rose-200 bg-rose-50 text-rose-700" : "border-emerald-200 bg-emerald-50 text-emerald-700"}>
+                      {camera.uptimePct}%
+                    </Badge>
+                  </td>
+                  <td className="px-3 py-2">{formatOutageDuration(camera.downtimeSeconds)}</td>
+                  <td className="px-3 py-2">{camera.outageCount}</td>
+                  <td className="px-3 py-2">{formatOutageDuration(camera.mttrSeconds)}</td>
+                  <td className="px-3 py-2 text-xs">
+                    {camera.periods
+                      .filter((period: any) => period.observedSeconds > 0 && period.uptimePct < 99)
+                      .map((period: any) => `${period.period} (${period.uptimePct}%)`)
+                      .join(", ") || "—"}
+                  </td>
+                </tr>
+              ))}
+              {report.cameras.length === 0 && (
+                <tr>
+                  <td className="px-3 py-2 opacity-60" colSpan={6}>
+                    Sin cámaras en el período.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </DataTable>
+          {selected && (
+            <div className="mt-4">
+              <h3 className="mb-2 text-sm font-semibold">Caídas de {selected.name}</h3>
+              <DataTable>
+                <thead className="bg-slate-50 text-slate-600">
+                  <tr>
+                    <th className="px-3 py-2">Inicio</th>
+                    <th className="px-3 py-2">Fin</th>
+                    <th className="px-3 py-2">Duración</th>
+                    <th className="px-3 py-2">Causa</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {selected.outages.map((outage: any) => (
+                    <tr key={outage.id}>
+                      <td className="px-3 py-2">{formatDateTime(outage.startedAt)}</td>
+                      <td className="px-3 py-2">{outage.endedAt ? formatDateTime(outage.endedAt) : "en curso"}</td>
+                      <td className="px-3 py-2">{formatOutageDuration(outage.durationSeconds)}</td>
+                      <td className="px-3 py-2">
+                        {outage.cause ?? "—"}
+                        {outage.planned && <Badge className="ml-1">planificada</Badge>}
+                      </td>
+                    </tr>
+                  ))}
+                  {selected.outages.length === 0 && (
+                    <tr>
+                      <td className="px-3 py-2 opacity-60" colSpan={4}>
+                        Sin caídas registradas.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </DataTable>
+            </div>
+          )}
+        </>
+      )}
+    </PageCard>
+  );
+}
+
+// Userinfo the API shows in place of stored camera credentials; sending it back keeps them unchanged.
+const REDACTED_SECRET = "***";
+
+const CAMERA_IMPORT_STATUS_LABELS: Record<string, string> = {
+  valid: "ok",
+  invalid: "inválida",
+  duplicate: "duplicada",
+  over_limit: "excede el plan"
+};
+
+function CameraImportWizard({ apiUrl, onImported }: { apiUrl: string; onImported: () => void }) {
+  const tenantId = getTenantId();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [payload, setPayload] = useState<Record<string, unknown> | null>(null);
+  const [report, setReport] = useState<any | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ok, setOk] = useState<string | null>(null);
+
+  const headers = () => ({
+    Authorization: `Bearer ${getToken()}`,
+    "Content-Type": "application/json",
+    ...(tenantId ? { "X-Tenant-Id": tenantId } : {})
+  });
+
+  async function readFile(file: File) {
+    setError(null);
+    setOk(null);
+    setReport(null);
+    setFileName(file.name);
+    const content = await file.text();
+    if (file.name.toLowerCase().endsWith(".json")) {
+      try {
+        const parsed = JSON.parse(content);
+        setPayload({ format: "json", rows: Array.isArray(parsed) ? parsed : parsed.data ?? parsed.rows ?? [] });
+      } catch {
+        setPayload(null);
+        setError("El archivo JSON no es válido");
+      }
+      return;
+    }
+    setPayload({ format: "csv", content });
+  }
 
-  const summary = useMemo(() => {
-    let ready = 0;
-    let attention = 0;
-    let notConfigured = 0;
-    const detections = new Set<string>();
-    for (const row of rows) {
-      if (!row.topology || row.topology.summary.totalPipelines === 0) {
-        notConfigured += 1;
-        continue;
+  async function submit(dryRun: boolean) {
+    if (!payload) return;
+    setBusy(true);
+    setError(null);
+    setOk(null);
+    try {
+      const res = await fetch(`${apiUrl}/cameras/import`, {
+        method: "POST",
+        headers: headers(),
+        body: JSON.stringify({ ...payload, dryRun })
+      });
+      const body = await res.json().catch(() => null);
+      if (res.status === 422 && body?.details?.report) {
+        setReport(body.details.report);
+        throw new Error("Hay filas con errores: corregí el archivo y validá de nuevo");
       }
-      if (row.topology.runnable && row.topology.inSync) ready += 1;
-      else attention += 1;
-      for (const pipeline of row.topology.pipelines) {
-        if (pipeline.enabled) detections.add(formatDetectionTask(pipeline.taskType));
+      if (!res.ok) throw new Error(body?.message ?? "No se pudo procesar la importación");
+      setReport(body.data);
+      if (!dryRun) {
+        setOk(`Se importaron ${body.data.totals.valid} cámaras`);
+        setPayload(null);
+        setFileName(null);
+        onImported();
       }
+    } catch (cause) {
+      setError(summarizeApiError(cause, "No se pudo procesar la importación"));
+    } finally {
+      setBusy(false);
     }
-    return {
-      total: rows.length,
-      ready,
-      attention,
-      notConfigured,
-      detections: Array.from(detections)
-    };
-  }, [rows]);
+  }
+
+  async function download(format: "csv" | "json") {
+    setError(null);
+    const res = await fetch(`${apiUrl}/cameras/export?format=${format}`, { headers: headers() });
+    if (!res.ok) {
+      setError(await summarizeApiErrorResponse(res, "No se pudo exportar cámaras"));
+      return;
+    }
+    const blob =
+      format === "csv"
+        ? await res.blob()
+        : new Blob([JSON.stringify((await res.json()).data, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `cameras.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  const canCommit = report?.dryRun && report.totals.valid === report.totals.rows && report.totals.rows > 0;
 
   return (
-    <div className="space-y-4">
-      <PageCard title="Resumen Cliente">
-        <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
-          <div>
-            <div className="text-sm text-slate-600">Vista resumida por tenant para seguir cobertura, capacidad y riesgos sin entrar al detalle técnico.</div>
-            <div className="mt-2 flex flex-wrap gap-2 text-xs text-slate-600">
-              {summary.detections.map((detection) => (
-                <Badge key={detection}>{detection}</Badge>
-              ))}
-              {summary.detections.length === 0 ? <Badge>Sin detecciones activas</Badge> : null}
-            </div>
+    <Surface className="mb-4 p-3">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="text-sm font-semibold">Importación masiva</div>
+          <div className="text-xs text-slate-500">
+            CSV con columnas name, rtspUrl, description, location, tags (separadas por |), isActive, profile y detectionProfile (JSON), o
+            el mismo formato en JSON. Máximo 500 filas.
           </div>
-          <PrimaryButton className="px-2.5 py-1.5 text-xs" type="button" onClick={() => void loadOverview()} disabled={refreshing}>
-            {refreshing ? "Refreshing..." : "Refresh"}
-          </PrimaryButton>
-        </div>
-        {error ? <div className="rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div> : null}
-        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
-          <Surface className="border border-slate-200 bg-slate-50">
-            <div className="text-xs uppercase tracking-wide text-slate-500">Cámaras</div>
-            <div className="mt-1 text-2xl font-semibold text-slate-900">{summary.total}</div>
-            <div className="text-xs text-slate-500">Cantidad total visible para este tenant</div>
-          </Surface>
-          <Surface className="border border-emerald-200 bg-emerald-50">
-            <div className="text-xs uppercase tracking-wide text-emerald-700">Listas</div>
-            <div className="mt-1 text-2xl font-semibold text-emerald-900">{summary.ready}</div>
-            <div className="text-xs text-emerald-700">Cobertura consistente y capacidad disponible</div>
-          </Surface>
-          <Surface className="border border-amber-200 bg-amber-50">
-            <div className="text-xs uppercase tracking-wide text-amber-700">Con atención</div>
-            <div className="mt-1 text-2xl font-semibold text-amber-900">{summary.attention}</div>
-            <div className="text-xs text-amber-700">Hay drift, degradación o cobertura parcial</div>
-          </Surface>
-          <Surface className="border border-slate-200 bg-slate-50">
-            <div className="text-xs uppercase tracking-wide text-slate-500">Sin configurar</div>
-            <div className="mt-1 text-2xl font-semibold text-slate-900">{summary.notConfigured}</div>
-            <div className="text-xs text-slate-500">No tienen pipelines de detección activos</div>
-          </Surface>
         </div>
-      </PageCard>
-
-      <PageCard title="Cámaras del Tenant">
-        <div className="mb-3 grid grid-cols-1 gap-2 md:grid-cols-[minmax(0,1fr)_220px]">
-          <TextInput placeholder="Buscar por cámara, ubicación o detección" value={search} onChange={(e) => setSearch(e.target.value)} />
-          <SelectInput value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}>
-            <option value="all">todos los estados</option>
-            <option value="ready">listas</option>
-            <option value="attention">con atención</option>
-            <option value="not_configured">sin configurar</option>
-          </SelectInput>
+        <div className="flex gap-2">
+          <PrimaryButton type="button" className="px-2 py-1 text-xs" onClick={() => void download("csv")}>
+            Exportar CSV
+          </PrimaryButton>
+          <PrimaryButton type="button" className="px-2 py-1 text-xs" onClick={() => void download("json")}>
+            Exportar JSON
+          </PrimaryButton>
         </div>
-        {loading ? (
-          <div className="text-sm text-slate-500">Cargando resumen del tenant...</div>
-        ) : (
-          <div className="grid grid-cols-1 gap-3 xl:grid-cols-2">
-            {filteredRows.map((row) => {
-              const state = !row.topology || row.topology.summary.totalPipelines === 0
-                ? { label: "Sin configurar", tone: "neutral" as const, detail: "Todavía no hay pipelines activos para esta cámara." }
-                : row.topology.runnable && row.topology.inSync
-                  ? { label: "Lista", tone: "good" as const, detail: "La cobertura actual es consistente y tiene capacidad disponible." }
-                  : { label: "Con atención", tone: "warn" as const, detail: summarizeTopologyRisks(row.topology).join("; ") || "Requiere revisión operativa." };
-              const detections = Array.from(
-                new Set((row.topology?.pipelines ?? []).filter((pipeline) => pipeline.enabled).map((pipeline) => formatDetectionTask(pipeline.taskType)))
-              );
-              const primaryPipelines = (row.topology?.pipelines ?? []).filter((pipeline) => pipeline.assignment.primaryNodeId);
-
-              return (
-                <Surface key={row.id} className="space-y-3 border border-slate-200">
-                  <div className="flex flex-wrap items-start justify-between gap-3">
-                    <div>
-                      <div className="text-lg font-semibold text-slate-900">{row.name}</div>
-                      <div className="text-sm text-slate-600">{row.location || "Sin ubicación declarada"}</div>
-                      <div className="mt-1 text-xs text-slate-500">Lifecycle {row.lifecycleStatus ?? "-"} · {row.isActive ? "Activa" : "Inactiva"}</div>
-                    </div>
-                    <Badge className={getAudienceToneClasses(state.tone)}>{state.label}</Badge>
-                  </div>
-                  <div className="text-sm text-slate-700">{row.topologyError ?? state.detail}</div>
-                  <div className="flex flex-wrap gap-2">
-                    {detections.map((detection) => (
-                      <Badge key={`${row.id}-${detection}`}>{detection}</Badge>
-                    ))}
-                    {detections.length === 0 ? <Badge>Sin detecciones activas</Badge> : null}
-                    {row.topology ? <Badge>{row.topology.summary.assignedPipelines}/{row.topology.summary.enabledPipelines} asignados</Badge> : null}
-                  </div>
-                  {primaryPipelines.length > 0 ? (
-                    <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-600">
-                      Nodos primarios: {primaryPipelines.map((pipeline) => pipeline.assignment.primaryNodeId).filter(Boolean).join(", ")}
-                    </div>
-                  ) : null}
-                  <div className="flex flex-wrap gap-2">
-                    <Link className="text-sm font-medium text-slate-700 underline underline-offset-2" to={ADMIN_ROUTES.resources.cameraDetail(row.id)}>
-                      Ver detalle de cámara
-                    </Link>
-                  </div>
-                </Surface>
-              );
-            })}
-            {filteredRows.length === 0 ? (
-              <Surface className="border border-slate-200 bg-slate-50">
-                <div className="text-sm text-slate-600">No hay cámaras que coincidan con los filtros actuales.</div>
-              </Surface>
-            ) : null}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          aria-label="Archivo de cámaras"
+          className="text-sm"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void readFile(file);
+            e.target.value = "";
+          }}
+        />
+        {fileName && <Badge>{fileName}</Badge>}
+        <PrimaryButton type="button" disabled={busy || !payload} onClick={() => void submit(true)}>
+          1. Validar
+        </PrimaryButton>
+        <PrimaryButton type="button" disabled={busy || !payload || !canCommit} onClick={() => void submit(false)}>
+          2. Importar
+        </PrimaryButton>
+      </div>
+      {error && <div className="mt-2 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
+      {ok && <div className="mt-2 rounded-md border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">{ok}</div>}
+      {report && (
+        <div className="mt-3">
+          <div className="mb-2 text-xs text-slate-600">
+            {report.totals.rows} filas · {report.totals.valid} ok · {report.totals.invalid} inválidas · {report.totals.duplicate} duplicadas ·{" "}
+            {report.totals.overLimit} exceden el plan
+            {report.capacity ? ` · cupo disponible ${report.capacity.remaining}/${report.capacity.maxAllowed}` : ""}
           </div>
-        )}
-      </PageCard>
-    </div>
+          <DataTable>
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <th className="px-3 py-2">Fila</th>
+                <th className="px-3 py-2">Nombre</th>
+                <th className="px-3 py-2">RTSP URL</th>
+                <th className="px-3 py-2">Estado</th>
+                <th className="px-3 py-2">Errores</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {report.rows.map((row: any) => (
+                <tr key={row.row}>
+                  <td className="px-3 py-2">{row.row}</td>
+                  <td className="px-3 py-2">{row.name ?? "-"}</td>
+                  <td className="px-3 py-2">
+                    <code className="block max-w-[22rem] overflow-x-auto whitespace-nowrap text-xs">{row.rtspUrl ?? "-"}</code>
+                  </td>
+                  <td className="px-3 py-2">
+                    <Badge className={row.status === "valid" ? "border-emerald-200 bg-emerald-50 text-emerald-700" : "border-rose-200 bg-rose-50 text-rose-700"}>
+                      {CAMERA_IMPORT_STATUS_LABELS[row.status] ?? row.status}
+                    </Badge>
+                  </td>
+                  <td className="px-3 py-2 text-xs">{row.errors.join("; ") || "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </DataTable>
+        </div>
+      )}
+    </Surface>
   );
 }
 
-function CamerasPage() {
+function CamerasPage({ apiUrl }: { apiUrl: string }) {
   const [page, setPage] = useState(1);
   const [q, setQ] = useState("");
+  const [siteFilter, setSiteFilter] = useState("");
   const canCreate = useCan({ resource: "cameras", action: "create" }).data?.can;
   const canDelete = useCan({ resource: "cameras", action: "delete" }).data?.can;
   const canEdit = useCan({ resource: "cameras", action: "edit" }).data?.can;
@@ -1976,8 +5282,13 @@ function CamerasPage() {
   const camerasList = useList({
     resource: "cameras",
     pagination: { currentPage: page, pageSize: 5, mode: "server" },
-    filters: q ? [{ field: "name", operator: "contains", value: q }] : []
+    filters: [
+      ...(q ? [{ field: "name", operator: "contains", value: q }] : []),
+      ...(siteFilter ? [{ field: "siteId", operator: "eq", value: siteFilter }] : [])
+    ]
   } as any);
+  const sites = useList({ resource: "sites", pagination: { currentPage: 1, pageSize: 200, mode: "server" } } as any).result?.data ?? [];
+  const groups = useList({ resource: "camera-groups", pagination: { currentPage: 1, pageSize: 200, mode: "server" } } as any).result?.data ?? [];
   const result = camerasList.result;
 
   const { mutateAsync: create } = useCreate();
@@ -1985,20 +5296,44 @@ function CamerasPage() {
   const { mutate: remove } = useDelete();
 
   const [editing, setEditing] = useState<any>(null);
-  const [form, setForm] = useState({ name: "", description: "", rtspUrl: "", location: "", tags: "", isActive: true });
+  const [form, setForm] = useState({ name: "", description: "", rtspUrl: "", location: "", tags: "", isActive: true, siteId: "", groupId: "" });
   const [saving, setSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [saveOk, setSaveOk] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<Record<string, string>>({});
 
   const totalPages = Math.max(Math.ceil((result?.total ?? 0) / 5), 1);
   const listError = (camerasList as any).query?.error;
 
+  async function revealCredentials(cameraId: string) {
+    setSaveError(null);
+    const tenantId = getTenantId();
+    const res = await fetch(`${apiUrl}/cameras/${cameraId}/credentials/reveal`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${getToken()}`, ...(tenantId ? { "X-Tenant-Id": tenantId } : {}) }
+    });
+    if (!res.ok) {
+      setSaveError(await summarizeApiErrorResponse(res, "No se pudieron revelar las credenciales"));
+      return;
+    }
+    const body = await res.json();
+    setRevealed((current) => ({ ...current, [cameraId]: body.data.rtspUrl }));
+  }
+
   const rows = useMemo(() => result?.data ?? [], [result?.data]);
 
   return (
     <PageCard title="Cameras">
       <div className="mb-3 flex flex-wrap gap-2">
         <TextInput placeholder="Filter by name" value={q} onChange={(e) => setQ(e.target.value)} className="max-w-sm" />
+        <SelectInput value={siteFilter} className="max-w-xs" onChange={(e) => setSiteFilter(e.target.value)}>
+          <option value="">Todos los sitios</option>
+          {sites.map((site: any) => (
+            <option key={site.id} value={site.id}>
+              {site.name}
+            </option>
+          ))}
+        </SelectInput>
         <PrimaryButton onClick={() => (camerasList as any).query.refetch()}>Search</PrimaryButton>
       </div>
       {listError && (
@@ -2014,7 +5349,12 @@ function CamerasPage() {
             e.preventDefault();
             setSaveError(null);
             setSaveOk(null);
-            const payload = { ...form, tags: form.tags ? form.tags.split(",").map((x) => x.trim()) : [] };
+            const payload = {
+              ...form,
+              tags: form.tags ? form.tags.split(",").map((x) => x.trim()) : [],
+              siteId: form.siteId || null,
+              groupId: form.groupId || null
+            };
             try {
               setSaving(true);
               if (editing) {
@@ -2025,7 +5365,7 @@ function CamerasPage() {
                 await create({ resource: "cameras", values: payload });
                 setSaveOk("Camera creada");
               }
-              setForm({ name: "", description: "", rtspUrl: "", location: "", tags: "", isActive: true });
+              setForm({ name: "", description: "", rtspUrl: "", location: "", tags: "", isActive: true, siteId: "", groupId: "" });
               await (camerasList as any).query.refetch();
             } catch (error) {
               setSaveError(summarizeApiError(error, "No se pudo guardar la cámara"));
@@ -2050,7 +5390,7 @@ function CamerasPage() {
             placeholder="rtsp://usuario:password@ip:puerto/stream"
             value={form.rtspUrl}
             className="font-mono md:col-span-5"
-            title={form.rtspUrl}
+            title={form.rtspUrl.includes(`${REDACTED_SECRET}@`) ? "*** conserva las credenciales guardadas" : form.rtspUrl}
             onChange={(e) => setForm((f) => ({ ...f, rtspUrl: e.target.value }))}
           />
           <TextInput
@@ -2073,6 +5413,32 @@ function CamerasPage() {
             <option value="true">Active</option>
             <option value="false">Inactive</option>
           </SelectInput>
+          <SelectInput
+            value={form.siteId}
+            className="md:col-span-2"
+            onChange={(e) => setForm((f) => ({ ...f, siteId: e.target.value, groupId: "" }))}
+          >
+            <option value="">Sin sitio</option>
+            {sites.map((site: any) => (
+              <option key={site.id} value={site.id}>
+                {site.name}
+              </option>
+            ))}
+          </SelectInput>
+          <SelectInput
+            value={form.groupId}
+            className="md:col-span-2"
+            disabled={!form.siteId}
+            onChange={(e) => setForm((f) => ({ ...f, groupId: e.target.value }))}
+          >
+            <option value="">Sin grupo</option>
+            {orderCameraGroups(groups.filter((group: any) => group.siteId === form.siteId)).map(({ group, depth }) => (
+              <option key={group.id} value={group.id}>
+                {"— ".repeat(depth)}
+                {group.name}
+              </option>
+            ))}
+          </SelectInput>
           <PrimaryButton
             type="submit"
             className="md:col-span-2"
@@ -2086,7 +5452,7 @@ function CamerasPage() {
               className="md:col-span-2"
               onClick={() => {
                 setEditing(null);
-                setForm({ name: "", description: "", rtspUrl: "", location: "", tags: "", isActive: true });
+                setForm({ name: "", description: "", rtspUrl: "", location: "", tags: "", isActive: true, siteId: "", groupId: "" });
                 setSaveError(null);
               }}
             >
@@ -2103,6 +5469,8 @@ function CamerasPage() {
         </form>
       )}
 
+      {canCreate && <CameraImportWizard apiUrl={apiUrl} onImported={() => (camerasList as any).query.refetch()} />}
+
       <DataTable>
         <thead className="bg-slate-50 text-slate-600">
           <tr>
@@ -2119,12 +5487,18 @@ function CamerasPage() {
               <td className="px-3 py-2">{c.name}</td>
               <td className="px-3 py-2">{c.location || "-"}</td>
               <td className="px-3 py-2">
-                <code className="block max-w-[22rem] overflow-x-auto whitespace-nowrap text-xs">{c.rtspUrl}</code>
+                <code className="block max-w-[22rem] overflow-x-auto whitespace-nowrap text-xs">{revealed[c.id] ?? c.rtspUrl}</code>
+                {c.hasCredentials && canEdit && !revealed[c.id] && (
+                  <button type="button" className="btn btn-link btn-xs px-0" onClick={() => void revealCredentials(c.id)}>
+                    Revelar credenciales
+                  </button>
+                )}
               </td>
               <td className="px-3 py-2">
                 <Badge className={c.isActive ? "border-emerald-200 bg-emerald-50 text-emerald-700" : ""}>
                   {c.isActive ? "Active" : "Inactive"}
                 </Badge>
+                {c.inMaintenance && <Badge className="ml-1 border-amber-200 bg-amber-50 text-amber-700">En mantenimiento</Badge>}
               </td>
               <td className="px-3 py-2">
                 <div className="flex gap-2">
@@ -2147,7 +5521,9 @@ function CamerasPage() {
                           rtspUrl: c.rtspUrl,
                           location: c.location ?? "",
                           tags: (c.tags ?? []).join(","),
-                          isActive: c.isActive
+                          isActive: c.isActive,
+                          siteId: c.siteId ?? "",
+                          groupId: c.groupId ?? ""
                         });
                       }}
                     >
@@ -3130,7 +6506,7 @@ function DetectionNodesPage({ apiUrl }: { apiUrl: string }) {
           <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
             <Badge>nodes: {deployBundle?.nodeIds.length ?? 0}</Badge>
             <Badge>warnings: {deployBundle?.warnings.length ?? 0}</Badge>
-            <span>generated: {deployBundle?.generatedAt ? new Date(deployBundle.generatedAt).toLocaleString() : "-"}</span>
+            <span>generated: {deployBundle?.generatedAt ? formatDateTime(deployBundle.generatedAt) : "-"}</span>
           </div>
           {deployBundle?.export ? (
             <div className="rounded-md border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
@@ -3198,8 +6574,8 @@ function DetectionNodesPage({ apiUrl }: { apiUrl: string }) {
             {stackSyncState && stackSyncState.exitCode !== null ? <Badge>exit {stackSyncState.exitCode}</Badge> : null}
           </div>
           <div className="text-sm text-slate-600">
-            started: {stackSyncState?.startedAt ? new Date(stackSyncState.startedAt).toLocaleString() : "-"} · finished:{" "}
-            {stackSyncState?.finishedAt ? new Date(stackSyncState.finishedAt).toLocaleString() : "-"}
+            started: {stackSyncState?.startedAt ? formatDateTime(stackSyncState.startedAt) : "-"} · finished:{" "}
+            {stackSyncState?.finishedAt ? formatDateTime(stackSyncState.finishedAt) : "-"}
           </div>
           <div className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700">
             command: <code className="break-all">{stackSyncState?.command ?? "bash scripts/pilot/stack-sync-detection.sh onprem"}</code>
@@ -3232,7 +6608,7 @@ function DetectionNodesPage({ apiUrl }: { apiUrl: string }) {
             </div>
             <div>endpoint: {selectedNode.endpoint}</div>
             <div>tenant(s): {(selectedNode.assignedTenantIds ?? []).join(", ") || selectedNode.tenantId || "*"}</div>
-            <div>last heartbeat: {new Date(selectedNode.lastHeartbeatAt).toLocaleString()}</div>
+            <div>last heartbeat: {formatDateTime(selectedNode.lastHeartbeatAt)}</div>
             <div className="flex flex-wrap gap-2">
               <PrimaryButton
                 className="px-2.5 py-1.5 text-xs"
@@ -3341,7 +6717,7 @@ function DetectionNodesPage({ apiUrl }: { apiUrl: string }) {
                 </Badge>
                 {nodeConfig?.desiredConfig?.lastAppliedAt ? (
                   <span className="text-xs text-slate-500">
-                    last applied {new Date(nodeConfig.desiredConfig.lastAppliedAt).toLocaleString()}
+                    last applied {formatDateTime(nodeConfig.desiredConfig.lastAppliedAt)}
                   </span>
                 ) : null}
               </div>
@@ -3660,7 +7036,7 @@ function FaceInvestigationsPage({ apiUrl }: { apiUrl: string }) {
                 <td className="px-3 py-2 text-sm text-slate-600">
                   {row.cameras.map((camera) => `${camera.cameraName} (${camera.sightings})`).join(", ") || "-"}
                 </td>
-                <td className="px-3 py-2 text-sm text-slate-600">{row.latestSeenAt ? new Date(row.latestSeenAt).toLocaleString() : "-"}</td>
+                <td className="px-3 py-2 text-sm text-slate-600">{row.latestSeenAt ? formatDateTime(row.latestSeenAt) : "-"}</td>
                 <td className="px-3 py-2">
                   <Link className="text-sm font-medium text-slate-700 underline underline-offset-2" to={ADMIN_ROUTES.resources.faceCaseDetail(row.id)}>
                     Ver caso
@@ -3742,7 +7118,7 @@ function FaceIdentityShow() {
         </Surface>
         <Surface className="border border-slate-200 bg-slate-50">
           <div className="text-xs uppercase tracking-wide text-slate-500">Última aparición</div>
-          <div className="mt-1 text-sm font-semibold text-slate-900">{identity.latestSeenAt ? new Date(identity.latestSeenAt).toLocaleString() : "-"}</div>
+          <div className="mt-1 text-sm font-semibold text-slate-900">{identity.latestSeenAt ? formatDateTime(identity.latestSeenAt) : "-"}</div>
         </Surface>
       </div>
 
@@ -3766,8 +7142,8 @@ function FaceIdentityShow() {
                       {appearance.cameraName}
                     </Link>
                   </td>
-                  <td className="px-3 py-2 text-sm text-slate-600">{new Date(appearance.firstSeenAt).toLocaleString()}</td>
-                  <td className="px-3 py-2 text-sm text-slate-600">{new Date(appearance.lastSeenAt).toLocaleString()}</td>
+                  <td className="px-3 py-2 text-sm text-slate-600">{formatDateTime(appearance.firstSeenAt)}</td>
+                  <td className="px-3 py-2 text-sm text-slate-600">{formatDateTime(appearance.lastSeenAt)}</td>
                   <td className="px-3 py-2">{appearance.sightings}</td>
                 </tr>
               ))}
@@ -3792,7 +7168,7 @@ function FaceIdentityShow() {
                     {formatFaceIdentityName({ id: entry.sourceIdentityId, displayName: entry.sourceDisplayName })} →{" "}
                     {formatFaceIdentityName({ id: entry.targetIdentityId, displayName: entry.targetDisplayName })}
                   </div>
-                  <div className="mt-1 text-xs text-slate-500">{new Date(entry.createdAt).toLocaleString()}</div>
+                  <div className="mt-1 text-xs text-slate-500">{formatDateTime(entry.createdAt)}</div>
                   {entry.reason ? <div className="mt-1 text-xs text-slate-500">Motivo: {entry.reason}</div> : null}
                 </Surface>
               ))}
@@ -3807,7 +7183,7 @@ function FaceIdentityShow() {
           {identity.faces.map((face) => (
             <Surface key={face.id} className="border border-slate-200 bg-slate-50">
               <div className="font-medium text-slate-900">{summarizeFaceLabel(face)}</div>
-              <div className="mt-1 text-xs text-slate-500">{new Date(face.frameTs).toLocaleString()}</div>
+              <div className="mt-1 text-xs text-slate-500">{formatDateTime(face.frameTs)}</div>
               <div className="mt-3 flex flex-wrap gap-2 text-xs">
                 <Badge>{face.embedding?.dimensions ? `${face.embedding.dimensions}d` : "sin embedding"}</Badge>
                 {face.cluster ? <Badge>{face.cluster.displayName ?? face.cluster.id}</Badge> : null}
@@ -4406,7 +7782,7 @@ function CameraShow() {
             {camera.lifecycleStatus}
           </Badge>
         </div>
-        <div>Created: {new Date(camera.createdAt).toLocaleString()}</div>
+        <div>Created: {formatDateTime(camera.createdAt)}</div>
       </div>
       {topology ? (
         <Surface className="space-y-4">
@@ -4519,8 +7895,8 @@ function CameraShow() {
         <div className="space-y-3">
           <div className="rounded-box border border-base-300 p-3 text-sm">
             <div>Status: {lifecycle.currentStatus}</div>
-            <div>Last transition: {lifecycle.lastTransitionAt ? new Date(lifecycle.lastTransitionAt).toLocaleString() : "-"}</div>
-            <div>Last seen: {lifecycle.lastSeenAt ? new Date(lifecycle.lastSeenAt).toLocaleString() : "-"}</div>
+            <div>Last transition: {lifecycle.lastTransitionAt ? formatDateTime(lifecycle.lastTransitionAt) : "-"}</div>
+            <div>Last seen: {lifecycle.lastSeenAt ? formatDateTime(lifecycle.lastSeenAt) : "-"}</div>
             <div>Connectivity: {lifecycle.healthSnapshot?.connectivity ?? "-"}</div>
           </div>
           {canEdit && (
@@ -4560,7 +7936,7 @@ function CameraShow() {
               <tbody>
                 {(lifecycle.history ?? []).slice(0, 8).map((entry: any) => (
                   <tr key={entry.id}>
-                    <td>{new Date(entry.createdAt).toLocaleString()}</td>
+                    <td>{formatDateTime(entry.createdAt)}</td>
                     <td>{entry.event}</td>
                     <td>{entry.fromStatus ?? "-"}</td>
                     <td>{entry.toStatus}</td>
@@ -4751,7 +8127,7 @@ function CameraShow() {
         <form className="space-y-4" onSubmit={saveDetectionProfile}>
           <div className="flex flex-wrap items-center gap-2">
             <Badge>config v{detectionProfile.configVersion}</Badge>
-            <Badge>updated {new Date(detectionProfile.updatedAt).toLocaleString()}</Badge>
+            <Badge>updated {formatDateTime(detectionProfile.updatedAt)}</Badge>
             <PrimaryButton className="px-2.5 py-1.5 text-xs" type="button" onClick={() => void loadDetectionProfile()}>
               Reload profile
             </PrimaryButton>
@@ -5184,7 +8560,7 @@ function CameraShow() {
                         ) : null}
                       </div>
                       <div className={`mt-2 text-xs ${isSelected ? "text-slate-200" : "text-slate-500"}`}>
-                        {new Date(face.frameTs).toLocaleString()}
+                        {formatDateTime(face.frameTs)}
                       </div>
                       <div className="mt-3 flex flex-wrap gap-2 text-xs">
                         {face.embedding?.dimensions ? (
@@ -5338,7 +8714,7 @@ function CameraShow() {
                       <div className="font-medium text-slate-900">{summarizeFaceLabel(match.face)}</div>
                       <Badge>{(match.similarityScore * 100).toFixed(1)}%</Badge>
                     </div>
-                    <div className="mt-2 text-xs text-slate-500">{new Date(match.face.frameTs).toLocaleString()}</div>
+                    <div className="mt-2 text-xs text-slate-500">{formatDateTime(match.face.frameTs)}</div>
                     <div className="mt-3 flex flex-wrap gap-2 text-xs">
                       <Badge>{match.sameCamera ? "misma cámara" : "otra cámara"}</Badge>
                       {match.face.identity ? (
@@ -5563,7 +8939,7 @@ function NotificationsPage({ apiUrl }: { apiUrl: string }) {
           <tbody className="divide-y divide-slate-100">
             {deliveries.map((delivery) => (
               <tr key={delivery.id}>
-                <td className="px-3 py-2">{new Date(delivery.createdAt).toLocaleString()}</td>
+                <td className="px-3 py-2">{formatDateTime(delivery.createdAt)}</td>
                 <td className="px-3 py-2">{delivery.channelType}</td>
                 <td className="px-3 py-2">{delivery.status}</td>
                 <td className="px-3 py-2 font-mono text-xs">{delivery.cameraId}</td>
@@ -5653,7 +9029,7 @@ function SubscriptionPage({ apiUrl, onChanged }: { apiUrl: string; onChanged: ()
         <Surface className="mb-4 p-4">
           <div>Current plan: {active.plan?.name}</div>
           <div>Status: {active.status}</div>
-          <div>Period end: {new Date(active.currentPeriodEnd).toLocaleDateString()}</div>
+          <div>Period end: {formatDateTime(active.currentPeriodEnd, "date")}</div>
         </Surface>
       ) : (
         <div className="mb-4 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-700">No active subscription</div>
@@ -5685,7 +9061,7 @@ function SubscriptionPage({ apiUrl, onChanged }: { apiUrl: string; onChanged: ()
           <tbody className="divide-y divide-slate-100">
             {requests.map((request) => (
               <tr key={request.id}>
-                <td className="px-3 py-2 text-sm">{new Date(request.createdAt).toLocaleString()}</td>
+                <td className="px-3 py-2 text-sm">{formatDateTime(request.createdAt)}</td>
                 <td className="px-3 py-2">{request.plan?.name ?? request.planId}</td>
                 <td className="px-3 py-2">
                   <Badge>{request.status}</Badge>
@@ -5726,9 +9102,174 @@ function SubscriptionPage({ apiUrl, onChanged }: { apiUrl: string; onChanged: ()
   );
 }
 
+const WHEP_NEGOTIATION_TIMEOUT_MS = 5000;
+
+function waitForIceGathering(peer: RTCPeerConnection, timeoutMs: number) {
+  if (peer.iceGatheringState === "complete") return Promise.resolve();
+  return new Promise<void>((resolve) => {
+    const timer = window.setTimeout(done, timeoutMs);
+    function done() {
+      window.clearTimeout(timer);
+      peer.removeEventListener("icegatheringstatechange", onChange);
+      resolve();
+    }
+    function onChange() {
+      if (peer.iceGatheringState === "complete") done();
+    }
+    peer.addEventListener("icegatheringstatechange", onChange);
+  });
+}
+
+// Un answer SDP válido no garantiza media: se espera a que el peer conecte o llegue el primer frame.
+function waitForWhepMedia(peer: RTCPeerConnection, video: HTMLVideoElement, signal: AbortSignal) {
+  if (peer.connectionState === "connected") return Promise.resolve();
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      peer.removeEventListener("connectionstatechange", onStateChange);
+      video.removeEventListener("loadeddata", onLoaded);
+      signal.removeEventListener("abort", onAbort);
+    };
+    function onLoaded() {
+      cleanup();
+      resolve();
+    }
+    function onStateChange() {
+      if (peer.connectionState === "connected") onLoaded();
+      else if (peer.connectionState === "failed" || peer.connectionState === "closed") {
+        cleanup();
+        reject(new Error(`WHEP connection ${peer.connectionState}`));
+      }
+    }
+    function onAbort() {
+      cleanup();
+      reject(new Error("WHEP negotiation aborted"));
+    }
+    if (signal.aborted) return onAbort();
+    peer.addEventListener("connectionstatechange", onStateChange);
+    video.addEventListener("loadeddata", onLoaded);
+    signal.addEventListener("abort", onAbort);
+  });
+}
+
+// Negocia WebRTC (WHEP) sin trickle ICE; rechaza si el gateway o el navegador no pueden servirlo.
+// Si la conexión se cae después de arrancar, cierra todo y avisa por `onFailure`.
+async function startWhepPlayback(video: HTMLVideoElement, whepUrl: string, signal: AbortSignal, onFailure: () => void) {
+  if (typeof RTCPeerConnection === "undefined") throw new Error("WebRTC not supported");
+  const peer = new RTCPeerConnection();
+  const stream = new MediaStream();
+  let resourceUrl: string | null = null;
+  const close = () => {
+    peer.close();
+    if (video.srcObject === stream) video.srcObject = null;
+    if (resourceUrl) void fetch(resourceUrl, { method: "DELETE" }).catch(() => undefined);
+  };
+  try {
+    peer.addTransceiver("video", { direction: "recvonly" });
+    peer.addTransceiver("audio", { direction: "recvonly" });
+    peer.addEventListener("track", (event) => {
+      stream.addTrack(event.track);
+    });
+    await peer.setLocalDescription(await peer.createOffer());
+    await waitForIceGathering(peer, WHEP_NEGOTIATION_TIMEOUT_MS / 2);
+    const response = await fetch(whepUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/sdp" },
+      body: peer.localDescription?.sdp ?? "",
+      signal
+    });
+    if (response.status !== 201) throw new Error(`WHEP negotiation failed (${response.status})`);
+    const location = response.headers.get("Location");
+    if (location) {
+      const resource = new URL(location, whepUrl);
+      resource.search = new URL(whepUrl).search;
+      resourceUrl = resource.toString();
+    }
+    await peer.setRemoteDescription({ type: "answer", sdp: await response.text() });
+    if (signal.aborted) throw new Error("WHEP negotiation aborted");
+    video.srcObject = stream;
+    void video.play().catch(() => undefined);
+    await waitForWhepMedia(peer, video, signal);
+    let stopped = false;
+    const stop = () => {
+      if (stopped) return;
+      stopped = true;
+      peer.removeEventListener("connectionstatechange", onConnectionLost);
+      close();
+    };
+    function onConnectionLost() {
+      if (peer.connectionState !== "failed" && peer.connectionState !== "disconnected") return;
+      stop();
+      onFailure();
+    }
+    peer.addEventListener("connectionstatechange", onConnectionLost);
+    return stop;
+  } catch (error) {
+    close();
+    throw error;
+  }
+}
+
+function startHlsPlayback(video: HTMLVideoElement, playbackUrl: string): () => void {
+  if (video.canPlayType("application/vnd.apple.mpegurl")) {
+    video.src = playbackUrl;
+    void video.play().catch(() => undefined);
+    const keepNearLiveEdge = () => {
+      const seekable = video.seekable;
+      if (!seekable || seekable.length === 0) return;
+      const liveEdge = seekable.end(seekable.length - 1);
+      const lag = liveEdge - video.currentTime;
+      if (lag > 1.2) {
+        video.currentTime = Math.max(0, liveEdge - 0.15);
+      }
+    };
+    const timer = window.setInterval(keepNearLiveEdge, 500);
+    return () => {
+      window.clearInterval(timer);
+      video.pause();
+      video.removeAttribute("src");
+      video.load();
+    };
+  }
+
+  if (!Hls.isSupported()) return () => undefined;
+
+  const hls = new Hls({
+    enableWorker: true,
+    lowLatencyMode: true,
+    liveSyncDurationCount: 1,
+    liveMaxLatencyDurationCount: 2,
+    maxBufferLength: 1,
+    maxMaxBufferLength: 2,
+    backBufferLength: 0,
+    maxBufferSize: 0,
+    highBufferWatchdogPeriod: 0.5
+  });
+  hls.attachMedia(video);
+  hls.on(Hls.Events.MEDIA_ATTACHED, () => {
+    hls.loadSource(playbackUrl);
+  });
+  hls.on(Hls.Events.MANIFEST_PARSED, () => {
+    void video.play().catch(() => undefined);
+  });
+  const liveEdgeTimer = window.setInterval(() => {
+    const liveSyncPosition = hls.liveSyncPosition;
+    if (typeof liveSyncPosition !== "number") return;
+    if (liveSyncPosition - video.currentTime > 1.2) {
+      video.currentTime = Math.max(0, liveSyncPosition - 0.1);
+    }
+  }, 500);
+
+  return () => {
+    window.clearInterval(liveEdgeTimer);
+    hls.destroy();
+    video.pause();
+    video.removeAttribute("src");
+    video.load();
+  };
+}
+
 function CameraFeedPlayer({ playbackUrl, cameraName }: { playbackUrl: string; cameraName: string }) {
   const videoRef = useRef<HTMLVideoElement | null>(null);
-  const hlsRef = useRef<Hls | null>(null);
 
   useEffect(() => {
     const video = videoRef.current;
@@ -5737,63 +9278,40 @@ function CameraFeedPlayer({ playbackUrl, cameraName }: { playbackUrl: string; ca
     video.muted = true;
     video.playsInline = true;
 
-    if (video.canPlayType("application/vnd.apple.mpegurl")) {
-      video.src = playbackUrl;
-      void video.play().catch(() => undefined);
-      const keepNearLiveEdge = () => {
-        const seekable = video.seekable;
-        if (!seekable || seekable.length === 0) return;
-        const liveEdge = seekable.end(seekable.length - 1);
-        const lag = liveEdge - video.currentTime;
-        if (lag > 1.2) {
-          video.currentTime = Math.max(0, liveEdge - 0.15);
-        }
-      };
-      const timer = window.setInterval(keepNearLiveEdge, 500);
-      return () => {
-        window.clearInterval(timer);
-        video.pause();
-        video.removeAttribute("src");
-        video.load();
-      };
+    // WHEP primero (menor latencia); ante cualquier falla, timeout o corte posterior se cae al HLS de siempre.
+    const controller = new AbortController();
+    let stopPlayback: (() => void) | null = null;
+    let disposed = false;
+    const fallbackToHls = () => {
+      if (disposed || stopPlayback) return;
+      stopPlayback = startHlsPlayback(video, playbackUrl);
+    };
+    const onWhepLost = () => {
+      stopPlayback = null;
+      fallbackToHls();
+    };
+    const whepUrl = toWhepUrl(playbackUrl);
+    if (!whepUrl) {
+      fallbackToHls();
+    } else {
+      const timeout = window.setTimeout(() => controller.abort(), WHEP_NEGOTIATION_TIMEOUT_MS);
+      void startWhepPlayback(video, whepUrl, controller.signal, onWhepLost)
+        .then((stop) => {
+          if (disposed) {
+            stop();
+            return;
+          }
+          stopPlayback = stop;
+        })
+        .catch(fallbackToHls)
+        .finally(() => window.clearTimeout(timeout));
     }
 
-    if (!Hls.isSupported()) return;
-
-    const hls = new Hls({
-      enableWorker: true,
-      lowLatencyMode: true,
-      liveSyncDurationCount: 1,
-      liveMaxLatencyDurationCount: 2,
-      maxBufferLength: 1,
-      maxMaxBufferLength: 2,
-      backBufferLength: 0,
-      maxBufferSize: 0,
-      highBufferWatchdogPeriod: 0.5
-    });
-    hlsRef.current = hls;
-    hls.attachMedia(video);
-    hls.on(Hls.Events.MEDIA_ATTACHED, () => {
-      hls.loadSource(playbackUrl);
-    });
-    hls.on(Hls.Events.MANIFEST_PARSED, () => {
-      void video.play().catch(() => undefined);
-    });
-    const liveEdgeTimer = window.setInterval(() => {
-      const liveSyncPosition = hls.liveSyncPosition;
-      if (typeof liveSyncPosition !== "number") return;
-      if (liveSyncPosition - video.currentTime > 1.2) {
-        video.currentTime = Math.max(0, liveSyncPosition - 0.1);
-      }
-    }, 500);
-
     return () => {
-      window.clearInterval(liveEdgeTimer);
-      hlsRef.current?.destroy();
-      hlsRef.current = null;
-      video.pause();
-      video.removeAttribute("src");
-      video.load();
+      disposed = true;
+      controller.abort();
+      stopPlayback?.();
+      stopPlayback = null;
     };
   }, [playbackUrl]);
 
@@ -6169,7 +9687,7 @@ function MonitorPage({ apiUrl }: { apiUrl: string }) {
               <div className="mb-2 text-xs text-slate-600">
                 <div>id: {camera.id}</div>
                 <div>location: {camera.location ?? "-"}</div>
-                <div>token expira: {feed?.expiresAt ? new Date(feed.expiresAt).toLocaleTimeString() : "-"}</div>
+                <div>token expira: {feed?.expiresAt ? formatDateTime(feed.expiresAt, "time") : "-"}</div>
                 <div>
                   stream health:{" "}
                   {health ? (
@@ -6362,7 +9880,7 @@ function RealtimePage({ apiUrl }: { apiUrl: string }) {
           <Surface key={event.eventId} className="bg-slate-100 p-3 text-xs">
             <div className="mb-1 flex items-center justify-between">
               <Badge>{event.eventType}</Badge>
-              <span>{new Date(event.occurredAt).toLocaleString()}</span>
+              <span>{formatDateTime(event.occurredAt)}</span>
             </div>
             <pre className="overflow-x-auto whitespace-pre-wrap">{JSON.stringify(event.payload, null, 2)}</pre>
           </Surface>
@@ -6377,6 +9895,10 @@ export function App({ apiUrl }: AppProps) {
   return (
     <Routes>
       <Route path="/login" element={<LoginPage apiUrl={apiUrl} />} />
+      <Route path="/auth/oidc/callback" element={<OidcCallbackPage apiUrl={apiUrl} />} />
+      <Route path="/invitations/accept" element={<AcceptInvitationPage apiUrl={apiUrl} />} />
+      <Route path="/password/forgot" element={<ForgotPasswordPage apiUrl={apiUrl} />} />
+      <Route path="/password/reset" element={<ResetPasswordPage apiUrl={apiUrl} />} />
       <Route path="/*" element={<Layout apiUrl={apiUrl} />} />
     </Routes>
   );
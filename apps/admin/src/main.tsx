@@ -4,7 +4,7 @@ import { BrowserRouter } from "react-router-dom";
 import { Refine } from "@refinedev/core";
 import simpleRestDataProvider from "@refinedev/simple-rest";
 import axios from "axios";
-import { authProvider, accessControlProvider } from "./security";
+import { authProvider, accessControlProvider, clearSession, refreshAccessToken } from "./security";
 import { App } from "./App";
 import "./styles.css";
 
@@ -34,10 +34,14 @@ httpClient.interceptors.response.use(
     }
     return response;
   },
-  (error) => {
+  async (error) => {
+    const original = error?.config;
+    if (error?.response?.status === 401 && original && !original._retriedAfterRefresh && (await refreshAccessToken())) {
+      original._retriedAfterRefresh = true;
+      return httpClient(original);
+    }
     if (error?.response?.status === 401) {
-      localStorage.removeItem("nearhome_access_token");
-      localStorage.removeItem("nearhome_impersonate_role");
+      clearSession();
       window.location.href = "/login";
     }
     return Promise.reject(error);
@@ -57,6 +61,7 @@ ReactDOM.createRoot(document.getElementById("root")!).render(
           { name: "tenants" },
           { name: "users" },
           { name: "memberships" },
+          { name: "roles" },
           { name: "cameras" },
           { name: "notification-channels" },
           { name: "notifications/deliveries" },
@@ -1,10 +1,85 @@
 import type { AccessControlProvider, AuthProvider } from "@refinedev/core";
+import type { Permission } from "@app/shared";
 
-type Role = "super_admin" | "tenant_admin" | "monitor" | "client_user";
+const API_URL = import.meta.env.VITE_API_URL ?? "http://localhost:3001";
+const ACCESS_TOKEN_KEY = "nearhome_access_token";
+const REFRESH_TOKEN_KEY = "nearhome_refresh_token";
+const ACCESS_TOKEN_EXPIRES_AT_KEY = "nearhome_access_token_expires_at";
+
+type SessionTokens = { accessToken: string; refreshToken?: string; expiresIn?: number };
+
+export function storeSessionTokens(tokens: SessionTokens) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+  if (tokens.refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  if (tokens.expiresIn) {
+    localStorage.setItem(ACCESS_TOKEN_EXPIRES_AT_KEY, String(Date.now() + tokens.expiresIn * 1000));
+  }
+}
+
+export function clearSession() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(ACCESS_TOKEN_EXPIRES_AT_KEY);
+  localStorage.removeItem("nearhome_active_tenant");
+  localStorage.removeItem("nearhome_impersonate_role");
+  localStorage.removeItem("nearhome_me");
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+async function performRefresh() {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+  try {
+    const res = await fetch(`${API_URL}/auth/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken })
+    });
+    if (!res.ok) return false;
+    storeSessionTokens(await res.json());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Refresh tokens rotate on every use, so parallel callers must share one request.
+export function refreshAccessToken() {
+  if (!refreshInFlight) {
+    refreshInFlight = performRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+export function accessTokenExpiresWithin(ms: number) {
+  const expiresAt = Number(localStorage.getItem(ACCESS_TOKEN_EXPIRES_AT_KEY));
+  return Number.isFinite(expiresAt) && expiresAt > 0 && expiresAt - Date.now() <= ms;
+}
+
+export async function logoutSession() {
+  const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  try {
+    await fetch(`${API_URL}/auth/logout`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: JSON.stringify(refreshToken ? { refreshToken } : {})
+    });
+  } catch {
+    // Local state is cleared even if the API is unreachable.
+  }
+  clearSession();
+}
 
 export const authProvider: AuthProvider = {
   login: async ({ email, password }: any) => {
-    const res = await fetch(`${import.meta.env.VITE_API_URL ?? "http://localhost:3001"}/auth/login`, {
+    const res = await fetch(`${API_URL}/auth/login`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ email, password, audience: "backoffice" })
@@ -15,15 +90,15 @@ export const authProvider: AuthProvider = {
     }
 
     const data = await res.json();
-    localStorage.setItem("nearhome_access_token", data.accessToken);
+    if (data.mfaRequired) {
+      return { success: false, error: { message: "Se requiere el segundo factor", name: "MFA required" } };
+    }
+    storeSessionTokens(data);
     localStorage.removeItem("nearhome_impersonate_role");
     return { success: true, redirectTo: "/" };
   },
   logout: async () => {
-    localStorage.removeItem("nearhome_access_token");
-    localStorage.removeItem("nearhome_active_tenant");
-    localStorage.removeItem("nearhome_impersonate_role");
-    localStorage.removeItem("nearhome_me");
+    await logoutSession();
     return { success: true, redirectTo: "/login" };
   },
   check: async () => {
@@ -56,43 +131,22 @@ export const authProvider: AuthProvider = {
   onError: async () => ({ error: undefined })
 };
 
-const ACL: Record<Role, Record<string, string[]>> = {
-  super_admin: {
-    tenants: ["list", "create", "edit", "show", "delete"],
-    users: ["list", "create", "edit", "show"],
-    memberships: ["list", "create", "edit", "show"],
-    cameras: ["list", "create", "edit", "show", "delete"],
-    notifications: ["list", "create", "edit", "show", "delete"],
-    plans: ["list", "show"],
-    subscriptions: ["list", "create", "edit", "show"]
-  },
-  tenant_admin: {
-    tenants: ["list", "create", "edit", "show", "delete"],
-    users: ["list", "create", "edit", "show"],
-    memberships: ["list", "create", "edit", "show"],
-    cameras: ["list", "create", "edit", "show", "delete"],
-    notifications: ["list", "create", "edit", "show", "delete"],
-    plans: ["list", "show"],
-    subscriptions: ["list", "create", "edit", "show"]
-  },
-  monitor: {
-    tenants: ["list", "show"],
-    users: ["list", "show"],
-    memberships: ["list", "show"],
-    cameras: ["list", "show"],
-    notifications: ["list", "show"],
-    plans: ["list"],
-    subscriptions: ["list", "show"]
+// Refine resource/action pairs mapped onto the API permission catalog; `null` means any tenant member.
+const RESOURCE_PERMISSIONS: Record<string, Record<string, Permission | null>> = {
+  tenants: { list: null, show: null, create: "tenant.manage", edit: "tenant.manage", delete: "tenant.manage" },
+  users: { list: "users.read", show: "users.read", create: "users.manage", edit: "users.manage" },
+  memberships: { list: "users.read", show: "users.read", create: "users.manage", edit: "users.manage" },
+  roles: { list: "users.read", show: "users.read", create: "roles.manage", edit: "roles.manage", delete: "roles.manage" },
+  cameras: { list: "cameras.read", show: "cameras.read", create: "cameras.write", edit: "cameras.write", delete: "cameras.delete" },
+  notifications: {
+    list: "notifications.read",
+    show: "notifications.read",
+    create: "notifications.manage",
+    edit: "notifications.manage",
+    delete: "notifications.manage"
   },
-  client_user: {
-    tenants: ["list", "show"],
-    users: [],
-    memberships: [],
-    cameras: ["list", "show"],
-    notifications: [],
-    plans: [],
-    subscriptions: ["show"]
-  }
+  plans: { list: "subscriptions.read", show: "subscriptions.read" },
+  subscriptions: { list: "subscriptions.read", show: "subscriptions.read", create: "tenant.manage", edit: "tenant.manage" }
 };
 
 export const accessControlProvider: AccessControlProvider = {
@@ -101,16 +155,22 @@ export const accessControlProvider: AccessControlProvider = {
     const tenantId = localStorage.getItem("nearhome_active_tenant");
 
     if (!raw || !resource) return { can: false };
+    const rules = RESOURCE_PERMISSIONS[resource];
+    if (!rules || !(action in rules)) return { can: false };
 
     const me = JSON.parse(raw);
-    if (me?.user?.isSuperuser) {
-      return { can: ACL.super_admin[resource]?.includes(action) ?? false };
+    const required = rules[action];
+    // Platform operators act across tenants; their permissions come from their platform roles.
+    if (me?.user?.isSuperuser && !me?.context?.isImpersonating) {
+      if (required === null || me.platformRoles?.includes("platform_admin")) return { can: true };
+      return { can: Array.isArray(me.permissions) && me.permissions.includes(required!) };
     }
     if (!tenantId) return { can: false };
-    const role = me.memberships?.find((m: any) => m.tenantId === tenantId)?.role as Role | undefined;
-
-    if (!role) return { can: false };
+    const membership = me.memberships?.find((m: any) => m.tenantId === tenantId);
+    if (!membership) return { can: false };
 
-    return { can: ACL[role][resource]?.includes(action) ?? false };
+    if (required === null) return { can: true };
+    const permissions: string[] = me.context?.tenantId === tenantId && Array.isArray(me.permissions) ? me.permissions : (membership.permissions ?? []);
+    return { can: permissions.includes(required!) };
   }
 };
@@ -27,15 +27,40 @@ async function main() {
   await prisma.modelCatalogEntry.deleteMany();
   await prisma.event.deleteMany();
   await prisma.auditLog.deleteMany();
+  await prisma.accessTransparencyLog.deleteMany();
+  await prisma.impersonationGrant.deleteMany();
   await prisma.streamSessionTransition.deleteMany();
   await prisma.streamSession.deleteMany();
   await prisma.cameraProfile.deleteMany();
   await prisma.cameraLifecycleLog.deleteMany();
   await prisma.cameraHealthSnapshot.deleteMany();
+  await prisma.cameraHealthSample.deleteMany();
+  await prisma.cameraOutage.deleteMany();
   await prisma.subscription.deleteMany();
   await prisma.plan.deleteMany();
+  await prisma.maintenanceWindow.deleteMany();
+  await prisma.householdCamera.deleteMany();
   await prisma.camera.deleteMany();
+  await prisma.cameraGroupAssignment.deleteMany();
+  await prisma.cameraGroup.deleteMany();
+  await prisma.site.deleteMany();
   await prisma.membership.deleteMany();
+  await prisma.tenantRole.deleteMany();
+  await prisma.authSession.deleteMany();
+  await prisma.userRecoveryCode.deleteMany();
+  await prisma.userIdentity.deleteMany();
+  await prisma.oidcLoginState.deleteMany();
+  await prisma.tenantOidcConfig.deleteMany();
+  await prisma.userInvitation.deleteMany();
+  await prisma.passwordResetToken.deleteMany();
+  await prisma.passwordHistory.deleteMany();
+  await prisma.platformRole.deleteMany();
+  await prisma.platformAuditLog.deleteMany();
+  await prisma.tenantExport.deleteMany();
+  await prisma.tenantSettings.deleteMany();
+  await prisma.loginThrottle.deleteMany();
+  await prisma.apiKey.deleteMany();
+  await prisma.serviceAccount.deleteMany();
   await prisma.user.deleteMany();
   await prisma.tenant.deleteMany();
 
@@ -59,6 +84,8 @@ async function main() {
     prisma.user.create({ data: { email: "client@nearhome.dev", name: "Client User", passwordHash, isActive: true } })
   ]);
 
+  await prisma.platformRole.create({ data: { userId: admin.id, role: "platform_admin" } });
+
   await prisma.membership.createMany({
     data: [
       { tenantId: tenantA.id, userId: admin.id, role: "tenant_admin" },
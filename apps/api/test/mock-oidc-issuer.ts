@@ -0,0 +1,122 @@
+import { createHash, createSign, generateKeyPairSync, randomBytes } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+type PendingAuthorization = {
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+};
+
+export type MockOidcIssuer = {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  issueCode(args: { authorizationUrl: string; claims: Record<string, unknown> }): string;
+  close(): Promise<void>;
+};
+
+function base64url(value: string | Buffer) {
+  return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * Minimal OIDC provider for API tests: discovery, JWKS and an authorization-code token endpoint
+ * that enforces PKCE. Tests skip the browser step and mint codes directly via `issueCode`.
+ */
+export async function startMockOidcIssuer(): Promise<MockOidcIssuer> {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const kid = "mock-key-1";
+  const clientId = "nearhome-test-client";
+  const clientSecret = "nearhome-test-secret";
+  const pending = new Map<string, PendingAuthorization>();
+  let issuer = "";
+
+  const signIdToken = (claims: Record<string, unknown>) => {
+    const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid }));
+    const payload = base64url(JSON.stringify(claims));
+    const signer = createSign("RSA-SHA256");
+    signer.update(`${header}.${payload}`);
+    return `${header}.${payload}.${signer.sign(privateKey).toString("base64url")}`;
+  };
+
+  const server: Server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", issuer);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "GET" && url.pathname === "/.well-known/openid-configuration") {
+      json(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`
+      });
+      return;
+    }
+    if (req.method === "GET" && url.pathname === "/jwks") {
+      json(200, { keys: [{ ...publicKey.export({ format: "jwk" }), kid, alg: "RS256", use: "sig" }] });
+      return;
+    }
+    if (req.method === "POST" && url.pathname === "/token") {
+      let raw = "";
+      req.on("data", (chunk) => {
+        raw += chunk;
+      });
+      req.on("end", () => {
+        const form = new URLSearchParams(raw);
+        const code = form.get("code") ?? "";
+        const authorization = pending.get(code);
+        pending.delete(code);
+        const verifier = form.get("code_verifier") ?? "";
+        const challenge = createHash("sha256").update(verifier).digest("base64url");
+        if (
+          !authorization ||
+          form.get("client_id") !== clientId ||
+          form.get("client_secret") !== clientSecret ||
+          challenge !== authorization.codeChallenge
+        ) {
+          json(400, { error: "invalid_grant" });
+          return;
+        }
+        const now = Math.floor(Date.now() / 1000);
+        json(200, {
+          token_type: "Bearer",
+          access_token: randomBytes(16).toString("hex"),
+          id_token: signIdToken({
+            iss: issuer,
+            aud: clientId,
+            iat: now,
+            exp: now + 300,
+            nonce: authorization.nonce,
+            ...authorization.claims
+          })
+        });
+      });
+      return;
+    }
+    json(404, { error: "not_found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    issueCode({ authorizationUrl, claims }) {
+      const params = new URL(authorizationUrl).searchParams;
+      const code = randomBytes(12).toString("hex");
+      pending.set(code, {
+        codeChallenge: params.get("code_challenge") ?? "",
+        nonce: params.get("nonce") ?? "",
+        claims
+      });
+      return code;
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+  };
+}
@@ -10,6 +10,11 @@ type WsClaims = {
   topics: string[];
   typ: "ws";
   exp: number;
+  // Present for camera-scoped users: events of other cameras are withheld and the socket closes at scopeExp.
+  cameraIds?: string[];
+  scopeExp?: number;
+  // Present for household members: incident alerts only for cameras whose household link may receive them.
+  alertCameraIds?: string[];
 };
 
 type OutboundEvent = {
@@ -32,6 +37,8 @@ type WsSubscriber = {
     readyState: number;
   };
   topics: string[];
+  cameraIds?: string[];
+  alertCameraIds?: string[];
 };
 
 type SseSubscriber = {
@@ -51,6 +58,28 @@ const tenantBacklog = new Map<string, OutboundEvent[]>();
 const wsSubscribers = new Map<string, Set<WsSubscriber>>();
 const sseSubscribers = new Map<string, Set<SseSubscriber>>();
 const MAX_BACKLOG_PER_TENANT = 200;
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+const ALERT_TOPICS = ["incident", "notification"];
+
+// setTimeout overflows past 2^31-1 ms (~24.8 days) and fires at once, so far-off deadlines re-arm in capped steps.
+export function scheduleAt(deadlineMs: number, callback: () => void) {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const arm = () => {
+    const remainingMs = deadlineMs - Date.now();
+    if (remainingMs <= 0) {
+      timer = null;
+      callback();
+      return;
+    }
+    timer = setTimeout(arm, Math.min(remainingMs, MAX_TIMER_DELAY_MS));
+    timer.unref?.();
+  };
+  arm();
+  return () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+}
 
 function eventMatchesTopics(eventType: string, topics: string[]) {
   if (topics.length === 0) return true;
@@ -58,6 +87,15 @@ function eventMatchesTopics(eventType: string, topics: string[]) {
   return topics.some((topic) => eventType === topic || eventType.startsWith(`${topic}.`));
 }
 
+export function shouldDeliverToWsSubscriber(subscriber: Pick<WsSubscriber, "topics" | "cameraIds" | "alertCameraIds">, event: OutboundEvent) {
+  if (!eventMatchesTopics(event.eventType, subscriber.topics)) return false;
+  if (subscriber.cameraIds && event.cameraId && !subscriber.cameraIds.includes(event.cameraId)) return false;
+  if (subscriber.alertCameraIds && eventMatchesTopics(event.eventType, ALERT_TOPICS)) {
+    return Boolean(event.cameraId && subscriber.alertCameraIds.includes(event.cameraId));
+  }
+  return true;
+}
+
 function nextSequence(tenantId: string) {
   const current = tenantSequence.get(tenantId) ?? 0;
   const next = current + 1;
@@ -100,7 +138,7 @@ function publishEvent(event: OutboundEvent) {
   const wsSet = wsSubscribers.get(event.tenantId);
   if (wsSet) {
     for (const subscriber of wsSet) {
-      if (!eventMatchesTopics(event.eventType, subscriber.topics)) continue;
+      if (!shouldDeliverToWsSubscriber(subscriber, event)) continue;
       if (subscriber.socket.readyState === 1) {
         subscriber.socket.send(JSON.stringify(event));
       }
@@ -251,7 +289,12 @@ export async function buildApp() {
         request.wsClaims = claims;
         const wsTopics = Array.isArray(claims.topics) ? claims.topics : [];
 
-        const subscriber: WsSubscriber = { socket: connection.socket, topics: wsTopics };
+        const subscriber: WsSubscriber = {
+          socket: connection.socket,
+          topics: wsTopics,
+          ...(Array.isArray(claims.cameraIds) ? { cameraIds: claims.cameraIds } : {}),
+          ...(Array.isArray(claims.alertCameraIds) ? { alertCameraIds: claims.alertCameraIds } : {})
+        };
         const set = wsSubscribers.get(claims.tenantId) ?? new Set<WsSubscriber>();
         set.add(subscriber);
         wsSubscribers.set(claims.tenantId, set);
@@ -273,7 +316,12 @@ export async function buildApp() {
             connection.socket.send("pong");
           }
         });
+        const cancelScopeTimer =
+          typeof claims.scopeExp === "number"
+            ? scheduleAt(claims.scopeExp * 1000, () => connection.socket.close(4001, "access window closed"))
+            : null;
         connection.socket.on("close", () => {
+          cancelScopeTimer?.();
           const tenantSet = wsSubscribers.get(claims.tenantId);
           if (!tenantSet) return;
           tenantSet.delete(subscriber);
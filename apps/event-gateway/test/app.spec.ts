@@ -1,5 +1,5 @@
-import { afterEach, describe, expect, it } from "vitest";
-import { buildApp } from "../src/app.js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildApp, scheduleAt, shouldDeliverToWsSubscriber } from "../src/app.js";
 
 describe("event-gateway publish and replay", () => {
   afterEach(() => {
@@ -63,3 +63,57 @@ describe("event-gateway publish and replay", () => {
     }
   });
 });
+
+describe("event-gateway scope timers", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("waits for deadlines beyond the setTimeout range instead of firing at once", () => {
+    vi.useFakeTimers();
+    const onExpire = vi.fn();
+    const thirtyDaysMs = 30 * 24 * 60 * 60 * 1000;
+    scheduleAt(Date.now() + thirtyDaysMs, onExpire);
+
+    vi.advanceTimersByTime(1_000);
+    expect(onExpire).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(2 ** 31);
+    expect(onExpire).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(thirtyDaysMs);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not fire after being cancelled", () => {
+    vi.useFakeTimers();
+    const onExpire = vi.fn();
+    const cancel = scheduleAt(Date.now() + 5_000, onExpire);
+    cancel();
+    vi.advanceTimersByTime(10_000);
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+});
+
+describe("event-gateway alert filtering", () => {
+  const event = (eventType: string, cameraId?: string) => ({
+    eventId: "evt-1",
+    eventVersion: "1.0",
+    eventType,
+    tenantId: "tenant-a",
+    cameraId,
+    occurredAt: new Date().toISOString(),
+    correlationId: "corr-1",
+    sequence: 1,
+    payload: {}
+  });
+
+  it("withholds incident alerts from cameras whose household link cannot receive them", () => {
+    const member = { topics: ["camera.status", "incident"], cameraIds: ["cam-1", "cam-2"], alertCameraIds: ["cam-1"] };
+    expect(shouldDeliverToWsSubscriber(member, event("incident", "cam-1"))).toBe(true);
+    expect(shouldDeliverToWsSubscriber(member, event("incident", "cam-2"))).toBe(false);
+    expect(shouldDeliverToWsSubscriber(member, event("camera.status", "cam-2"))).toBe(true);
+    expect(shouldDeliverToWsSubscriber(member, event("incident", "cam-3"))).toBe(false);
+
+    const staff = { topics: ["camera.status", "incident"] };
+    expect(shouldDeliverToWsSubscriber(staff, event("incident", "cam-2"))).toBe(true);
+  });
+});
@@ -12,7 +12,7 @@ import {
   DataTable,
   type WorkspaceNavGroup
 } from "@app/ui";
-import { Link, Navigate, Route, Routes, useNavigate, useParams } from "react-router-dom";
+import { Link, Navigate, Route, Routes, useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { Camera, HomeAlt, Internet, UserCircle, ViewGrid, WarningSquare } from "iconoir-react";
 
 const API_URL = import.meta.env.VITE_API_URL ?? "http://localhost:3001";
@@ -32,6 +32,17 @@ const PORTAL_ROUTES = {
   }
 } as const;
 
+// Zona horaria y locale del tenant activo (de /auth/me); sin ellos se usan los del navegador.
+let tenantDisplay: { timezone: string; locale: string } | null = null;
+
+function formatDateTime(value: string | number | Date) {
+  return new Intl.DateTimeFormat(tenantDisplay?.locale, {
+    dateStyle: "medium",
+    timeStyle: "medium",
+    timeZone: tenantDisplay?.timezone
+  }).format(new Date(value));
+}
+
 type RealtimeEvent = {
   eventId: string;
   eventType: string;
@@ -57,20 +68,30 @@ function matchesTopics(eventType: string, topics: string[]) {
 function usePortalClient() {
   const [state, setState] = useState(loadSessionState());
   const navigate = useNavigate();
+  // Refreshed tokens must be visible to the retry inside the same ApiClient instance.
+  const stateRef = useRef(state);
+  stateRef.current = state;
 
   const api = useMemo(
     () =>
       new ApiClient({
         baseUrl: API_URL,
-        getToken: () => state.accessToken,
+        getToken: () => stateRef.current.accessToken,
         getTenantId: () => state.activeTenantId,
+        getRefreshToken: () => stateRef.current.refreshToken,
+        onTokensRefreshed: (tokens) => {
+          const next = { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken };
+          saveSessionState(next);
+          stateRef.current = { ...stateRef.current, ...next };
+          setState((prev) => ({ ...prev, ...next }));
+        },
         onUnauthorized: () => {
-          saveSessionState({ accessToken: null, activeTenantId: null });
-          setState({ accessToken: null, activeTenantId: null });
+          saveSessionState({ accessToken: null, refreshToken: null, activeTenantId: null });
+          setState({ accessToken: null, refreshToken: null, activeTenantId: null });
           navigate("/login");
         }
       }),
-    [navigate, state.accessToken, state.activeTenantId]
+    [navigate, state.activeTenantId]
   );
 
   const setSession = (next: Partial<typeof state>) => {
@@ -78,49 +99,405 @@ function usePortalClient() {
     setState((prev) => ({ ...prev, ...next }));
   };
 
-  return { api, state, setSession };
+  const logout = async () => {
+    try {
+      await api.post("/auth/logout", { refreshToken: stateRef.current.refreshToken ?? undefined });
+    } catch {
+      // The local session is cleared regardless of whether the server could be reached.
+    }
+    setSession({ accessToken: null, refreshToken: null, activeTenantId: null });
+  };
+
+  return { api, state, setSession, logout };
 }
 
 function LoginPage() {
   const { api, state, setSession } = usePortalClient();
   const navigate = useNavigate();
+  const location = useLocation();
   const [email, setEmail] = useState("monitor@nearhome.dev");
   const [password, setPassword] = useState("demo1234");
+  // El callback SSO llega con el desafío 2FA pendiente cuando el tenant no delega el segundo factor al IdP.
+  const [challengeToken, setChallengeToken] = useState<string | null>(
+    () => (location.state as { challengeToken?: string } | null)?.challengeToken ?? null
+  );
+  const [secondFactor, setSecondFactor] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [ssoTenants, setSsoTenants] = useState<Array<{ tenantId: string; tenantName: string }> | null>(null);
 
   if (state.accessToken) return <Navigate to={PORTAL_ROUTES.account.tenant} replace />;
 
+  const startSso = async (tenantId: string) => {
+    try {
+      const res = await api.post<{ data: { authorizationUrl: string } }>("/auth/oidc/start", {
+        tenantId,
+        redirectUri: `${window.location.origin}/auth/oidc/callback`,
+        audience: "portal"
+      });
+      window.location.assign(res.data.authorizationUrl);
+    } catch {
+      setError("No se pudo iniciar SSO");
+    }
+  };
+
+  const onSso = async () => {
+    setError(null);
+    const res = await api.get<{ data: Array<{ tenantId: string; tenantName: string }> }>("/auth/oidc/discover", { email }).catch(() => null);
+    const tenants = res?.data ?? [];
+    if (tenants.length === 0) {
+      setError("No hay SSO configurado para este email");
+      return;
+    }
+    if (tenants.length === 1) {
+      await startSso(tenants[0]!.tenantId);
+      return;
+    }
+    setSsoTenants(tenants);
+  };
+
+  const completeLogin = (data: any) => {
+    setSession({ accessToken: data.accessToken, refreshToken: data.refreshToken ?? null });
+    navigate(PORTAL_ROUTES.account.tenant);
+  };
+
   return (
     <AppShell>
       <div className="mx-auto flex min-h-screen max-w-md items-center px-4">
         <PageCard title="Portal Login">
-          <form
-            className="space-y-3"
-            onSubmit={async (e) => {
-              e.preventDefault();
-              setError(null);
-              try {
-                const data = await api.post<any>("/auth/login", { email, password, audience: "portal" });
-                setSession({ accessToken: data.accessToken });
-                navigate(PORTAL_ROUTES.account.tenant);
-              } catch {
-                setError("Credenciales inválidas");
-              }
-            }}
-          >
-            <label className="form-control">
-              <span className="label-text">Email</span>
-              <TextInput value={email} onChange={(e) => setEmail(e.target.value)} />
-            </label>
-            <label className="form-control">
-              <span className="label-text">Password</span>
-              <TextInput type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
-            </label>
-            {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
-            <PrimaryButton type="submit" className="w-full">
-              Login
-            </PrimaryButton>
-          </form>
+          {challengeToken ? (
+            <form
+              className="space-y-3"
+              onSubmit={async (e) => {
+                e.preventDefault();
+                setError(null);
+                try {
+                  const data = await api.post<any>("/auth/login/2fa", {
+                    challengeToken,
+                    ...(useRecoveryCode ? { recoveryCode: secondFactor.trim() } : { code: secondFactor.trim() })
+                  });
+                  completeLogin(data);
+                } catch (err) {
+                  if (err instanceof ApiClientError && err.code === "MFA_CHALLENGE_INVALID") {
+                    setChallengeToken(null);
+                    setError("El desafío expiró, volvé a ingresar tus credenciales");
+                    return;
+                  }
+                  setError(useRecoveryCode ? "Código de recuperación inválido" : "Código inválido");
+                }
+              }}
+            >
+              <label className="form-control">
+                <span className="label-text">{useRecoveryCode ? "Código de recuperación" : "Código de tu app de autenticación"}</span>
+                <TextInput
+                  autoComplete="one-time-code"
+                  inputMode={useRecoveryCode ? "text" : "numeric"}
+                  value={secondFactor}
+                  onChange={(e) => setSecondFactor(e.target.value)}
+                />
+              </label>
+              {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
+              <PrimaryButton type="submit" className="w-full">
+                Verificar
+              </PrimaryButton>
+              <button type="button" className="btn btn-link btn-sm w-full" onClick={() => setUseRecoveryCode((prev) => !prev)}>
+                {useRecoveryCode ? "Usar código de la app" : "Usar código de recuperación"}
+              </button>
+            </form>
+          ) : (
+            <form
+              className="space-y-3"
+              onSubmit={async (e) => {
+                e.preventDefault();
+                setError(null);
+                try {
+                  const data = await api.post<any>("/auth/login", { email, password, audience: "portal" });
+                  if (data.mfaRequired) {
+                    setChallengeToken(data.challengeToken);
+                    setSecondFactor("");
+                    return;
+                  }
+                  completeLogin(data);
+                } catch {
+                  setError("Credenciales inválidas");
+                }
+              }}
+            >
+              <label className="form-control">
+                <span className="label-text">Email</span>
+                <TextInput value={email} onChange={(e) => setEmail(e.target.value)} />
+              </label>
+              <label className="form-control">
+                <span className="label-text">Password</span>
+                <TextInput type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+              </label>
+              {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
+              <PrimaryButton type="submit" className="w-full">
+                Login
+              </PrimaryButton>
+              <button type="button" className="btn btn-link btn-sm w-full" onClick={() => void onSso()}>
+                Ingresar con SSO de mi organización
+              </button>
+              <Link className="link block text-center text-sm" to="/password/forgot">
+                ¿Olvidaste tu contraseña?
+              </Link>
+              {ssoTenants?.map((tenant) => (
+                <button
+                  key={tenant.tenantId}
+                  type="button"
+                  className="btn btn-outline btn-sm w-full"
+                  onClick={() => void startSso(tenant.tenantId)}
+                >
+                  {tenant.tenantName}
+                </button>
+              ))}
+            </form>
+          )}
+        </PageCard>
+      </div>
+    </AppShell>
+  );
+}
+
+function OidcCallbackPage() {
+  const { api, setSession } = usePortalClient();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState<string | null>(null);
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+    const code = searchParams.get("code");
+    const state = searchParams.get("state");
+    if (!code || !state) {
+      setError(searchParams.get("error_description") ?? searchParams.get("error") ?? "Respuesta SSO incompleta");
+      return;
+    }
+    api
+      .post<any>("/auth/oidc/callback", { code, state })
+      .then((data) => {
+        if (data.mfaRequired) {
+          navigate("/login", { replace: true, state: { challengeToken: data.challengeToken } });
+          return;
+        }
+        setSession({ accessToken: data.accessToken, refreshToken: data.refreshToken ?? null });
+        navigate(PORTAL_ROUTES.account.tenant, { replace: true });
+      })
+      .catch((err) => {
+        setError(err instanceof ApiClientError ? err.message : "No se pudo completar el inicio de sesión SSO");
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <AppShell>
+      <div className="mx-auto flex min-h-screen max-w-md items-center px-4">
+        <PageCard title="Inicio de sesión SSO">
+          {error ? (
+            <div className="space-y-3">
+              <div className="alert alert-error py-2 text-sm">{error}</div>
+              <Link className="link" to="/login">
+                Volver al login
+              </Link>
+            </div>
+          ) : (
+            <div className="text-sm">Validando credenciales con el proveedor de identidad...</div>
+          )}
+        </PageCard>
+      </div>
+    </AppShell>
+  );
+}
+
+function AcceptInvitationPage() {
+  const { api } = usePortalClient();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [invitation, setInvitation] = useState<{ email: string; role: string; tenantName: string; existingUser: boolean } | null>(null);
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [accepted, setAccepted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError("El enlace de invitación está incompleto");
+      return;
+    }
+    api
+      .get<{ data: { email: string; role: string; tenantName: string; existingUser: boolean } }>(`/auth/invitations/${encodeURIComponent(token)}`)
+      .then((res) => setInvitation(res.data))
+      .catch((err) => setError(err instanceof ApiClientError ? err.message : "La invitación no es válida o ya venció"));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  return (
+    <AppShell>
+      <div className="mx-auto flex min-h-screen max-w-md items-center px-4">
+        <PageCard title="Invitación a NearHome">
+          {accepted ? (
+            <div className="space-y-3 text-sm">
+              <div className="alert alert-success py-2">Invitación aceptada. Ya podés ingresar con {invitation?.email}.</div>
+              <Link className="link" to="/login">
+                Ir al login
+              </Link>
+            </div>
+          ) : invitation ? (
+            <form
+              className="space-y-3"
+              onSubmit={async (e) => {
+                e.preventDefault();
+                setError(null);
+                try {
+                  await api.post("/auth/invitations/accept", invitation.existingUser ? { token } : { token, name: name.trim(), password });
+                  setAccepted(true);
+                } catch (err) {
+                  setError(err instanceof ApiClientError ? err.message : "No se pudo aceptar la invitación");
+                }
+              }}
+            >
+              <p className="text-sm">
+                Te invitaron a <strong>{invitation.tenantName}</strong> con el email {invitation.email}.
+              </p>
+              {invitation.existingUser ? (
+                <p className="text-sm opacity-70">Tu cuenta ya existe: al aceptar se agrega el acceso a este tenant.</p>
+              ) : (
+                <>
+                  <label className="form-control">
+                    <span className="label-text">Nombre</span>
+                    <TextInput value={name} onChange={(e) => setName(e.target.value)} />
+                  </label>
+                  <label className="form-control">
+                    <span className="label-text">Contraseña (mínimo 8 caracteres)</span>
+                    <TextInput type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+                  </label>
+                </>
+              )}
+              {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
+              <PrimaryButton type="submit" className="w-full">
+                Aceptar invitación
+              </PrimaryButton>
+            </form>
+          ) : error ? (
+            <div className="space-y-3">
+              <div className="alert alert-error py-2 text-sm">{error}</div>
+              <Link className="link" to="/login">
+                Volver al login
+              </Link>
+            </div>
+          ) : (
+            <div className="text-sm">Validando invitación...</div>
+          )}
+        </PageCard>
+      </div>
+    </AppShell>
+  );
+}
+
+function ForgotPasswordPage() {
+  const { api } = usePortalClient();
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  return (
+    <AppShell>
+      <div className="mx-auto flex min-h-screen max-w-md items-center px-4">
+        <PageCard title="Recuperar contraseña">
+          {sent ? (
+            <div className="space-y-3 text-sm">
+              <div className="alert alert-success py-2">Si el email está registrado, vas a recibir un enlace para restablecer la contraseña.</div>
+              <Link className="link" to="/login">
+                Volver al login
+              </Link>
+            </div>
+          ) : (
+            <form
+              className="space-y-3"
+              onSubmit={async (e) => {
+                e.preventDefault();
+                setError(null);
+                try {
+                  await api.post("/auth/password/forgot", { email: email.trim(), audience: "portal" });
+                  setSent(true);
+                } catch (err) {
+                  setError(err instanceof ApiClientError ? err.message : "No se pudo procesar el pedido");
+                }
+              }}
+            >
+              <label className="form-control">
+                <span className="label-text">Email</span>
+                <TextInput value={email} onChange={(e) => setEmail(e.target.value)} />
+              </label>
+              {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
+              <PrimaryButton type="submit" className="w-full">
+                Enviar enlace
+              </PrimaryButton>
+              <Link className="link block text-center text-sm" to="/login">
+                Volver al login
+              </Link>
+            </form>
+          )}
+        </PageCard>
+      </div>
+    </AppShell>
+  );
+}
+
+function ResetPasswordPage() {
+  const { api } = usePortalClient();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  return (
+    <AppShell>
+      <div className="mx-auto flex min-h-screen max-w-md items-center px-4">
+        <PageCard title="Nueva contraseña">
+          {done ? (
+            <div className="space-y-3 text-sm">
+              <div className="alert alert-success py-2">Contraseña actualizada. Se cerraron las sesiones abiertas.</div>
+              <Link className="link" to="/login">
+                Ir al login
+              </Link>
+            </div>
+          ) : (
+            <form
+              className="space-y-3"
+              onSubmit={async (e) => {
+                e.preventDefault();
+                setError(null);
+                if (password !== confirmation) {
+                  setError("Las contraseñas no coinciden");
+                  return;
+                }
+                try {
+                  await api.post("/auth/password/reset", { token, password });
+                  setDone(true);
+                } catch (err) {
+                  setError(err instanceof ApiClientError ? err.message : "No se pudo restablecer la contraseña");
+                }
+              }}
+            >
+              <label className="form-control">
+                <span className="label-text">Nueva contraseña (mínimo 8 caracteres)</span>
+                <TextInput type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+              </label>
+              <label className="form-control">
+                <span className="label-text">Repetir contraseña</span>
+                <TextInput type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} />
+              </label>
+              {error && <div className="alert alert-error py-2 text-sm">{error}</div>}
+              <PrimaryButton type="submit" className="w-full" disabled={!token}>
+                Guardar contraseña
+              </PrimaryButton>
+            </form>
+          )}
         </PageCard>
       </div>
     </AppShell>
@@ -128,7 +505,7 @@ function LoginPage() {
 }
 
 function ProtectedLayout() {
-  const { api, state, setSession } = usePortalClient();
+  const { api, state, setSession, logout } = usePortalClient();
   const [me, setMe] = useState<any>(null);
 
   useEffect(() => {
@@ -136,18 +513,23 @@ function ProtectedLayout() {
     api
       .get<any>("/auth/me")
       .then((res) => {
+        tenantDisplay = res.tenantSettings ?? null;
         setMe(res);
         if (!state.activeTenantId && res.memberships?.[0]?.tenantId) {
           setSession({ activeTenantId: res.memberships[0].tenantId });
         }
       })
       .catch(() => {
-        setSession({ accessToken: null, activeTenantId: null });
+        setSession({ accessToken: null, refreshToken: null, activeTenantId: null });
       });
   }, [api, setSession, state.accessToken, state.activeTenantId]);
 
   if (!state.accessToken) return <Navigate to="/login" replace />;
   if (!me) return <div className="p-6">Loading...</div>;
+  const activeMembership = me.memberships?.find((m: any) => m.tenantId === state.activeTenantId);
+  const permissions: string[] = activeMembership?.permissions ?? me.permissions ?? [];
+  const branding = me.tenantSettings;
+  const supportLine = [branding?.supportContact?.email, branding?.supportContact?.phone].filter(Boolean).join(" · ");
   const navigation: WorkspaceNavGroup[] = [
     {
       title: "Operaciones",
@@ -171,7 +553,9 @@ function ProtectedLayout() {
   return (
     <WorkspaceShell
       product="NearHome App"
-      subtitle="Vista operativa para usuarios finales"
+      subtitle={supportLine ? `Soporte: ${supportLine}` : "Vista operativa para usuarios finales"}
+      logoUrl={branding?.logoUrl}
+      accentColor={branding?.primaryColor}
       tenantSwitcher={
         <SelectInput
           className="w-[220px]"
@@ -185,13 +569,13 @@ function ProtectedLayout() {
           ))}
         </SelectInput>
       }
-      onLogout={() => setSession({ accessToken: null, activeTenantId: null })}
+      onLogout={() => void logout()}
       navigation={navigation}
     >
       <Routes>
         <Route path="/" element={<Navigate to={PORTAL_ROUTES.operations.cameras} replace />} />
 
-        <Route path={PORTAL_ROUTES.operations.cameras} element={<CamerasPage api={api} />} />
+        <Route path={PORTAL_ROUTES.operations.cameras} element={<CamerasPage api={api} permissions={permissions} />} />
         <Route path="/operations/cameras/:id" element={<CameraDetailPage api={api} />} />
         <Route path={PORTAL_ROUTES.operations.events} element={<EventsPage api={api} />} />
         <Route path={PORTAL_ROUTES.operations.realtime} element={<RealtimePage api={api} tenantId={state.activeTenantId} />} />
@@ -245,7 +629,8 @@ function SelectTenantPage({ me }: { me: any }) {
   );
 }
 
-function CamerasPage({ api }: { api: ApiClient }) {
+function CamerasPage({ api, permissions }: { api: ApiClient; permissions: string[] }) {
+  const canWrite = permissions.includes("cameras.write");
   const [cameras, setCameras] = useState<any[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [ok, setOk] = useState<string | null>(null);
@@ -288,80 +673,82 @@ function CamerasPage({ api }: { api: ApiClient }) {
       {error && <div className="mb-3 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
       {ok && <div className="mb-3 rounded-md border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">{ok}</div>}
 
-      <div className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-6">
-        <TextInput
-          placeholder="Nombre cámara"
-          value={cameraForm.name}
-          onChange={(event) => setCameraForm((prev) => ({ ...prev, name: event.target.value }))}
-        />
-        <TextInput
-          placeholder="RTSP URL"
-          value={cameraForm.rtspUrl}
-          onChange={(event) => setCameraForm((prev) => ({ ...prev, rtspUrl: event.target.value }))}
-        />
-        <TextInput
-          placeholder="Ubicación"
-          value={cameraForm.location}
-          onChange={(event) => setCameraForm((prev) => ({ ...prev, location: event.target.value }))}
-        />
-        <TextInput
-          placeholder="Descripción"
-          value={cameraForm.description}
-          onChange={(event) => setCameraForm((prev) => ({ ...prev, description: event.target.value }))}
-        />
-        <SelectInput
-          value={String(cameraForm.isActive)}
-          onChange={(event) => setCameraForm((prev) => ({ ...prev, isActive: event.target.value === "true" }))}
-        >
-          <option value="true">Activa</option>
-          <option value="false">Borrador</option>
-        </SelectInput>
-        <div className="flex gap-2">
-          <PrimaryButton
-            onClick={async () => {
-              if (!cameraForm.name.trim() || !cameraForm.rtspUrl.trim()) {
-                setError("Nombre y RTSP URL son obligatorios.");
-                return;
-              }
-              try {
-                if (cameraForm.id) {
-                  await api.put(`/cameras/${cameraForm.id}`, {
-                    name: cameraForm.name.trim(),
-                    rtspUrl: cameraForm.rtspUrl.trim(),
-                    location: cameraForm.location.trim() || null,
-                    description: cameraForm.description.trim() || null,
-                    isActive: cameraForm.isActive
-                  });
-                  setOk("Cámara actualizada");
-                } else {
-                  await api.post("/cameras", {
-                    name: cameraForm.name.trim(),
-                    rtspUrl: cameraForm.rtspUrl.trim(),
-                    location: cameraForm.location.trim() || undefined,
-                    description: cameraForm.description.trim() || undefined,
-                    isActive: cameraForm.isActive
-                  });
-                  setOk("Cámara creada");
-                }
-                setError(null);
-                resetForm();
-                await loadCameras();
-              } catch (cause) {
-                setError(formatApiError(cause, "No se pudo guardar cámara"));
-              }
-            }}
+      {canWrite && (
+        <div className="mb-4 grid grid-cols-1 gap-2 md:grid-cols-6">
+          <TextInput
+            placeholder="Nombre cámara"
+            value={cameraForm.name}
+            onChange={(event) => setCameraForm((prev) => ({ ...prev, name: event.target.value }))}
+          />
+          <TextInput
+            placeholder="RTSP URL"
+            value={cameraForm.rtspUrl}
+            onChange={(event) => setCameraForm((prev) => ({ ...prev, rtspUrl: event.target.value }))}
+          />
+          <TextInput
+            placeholder="Ubicación"
+            value={cameraForm.location}
+            onChange={(event) => setCameraForm((prev) => ({ ...prev, location: event.target.value }))}
+          />
+          <TextInput
+            placeholder="Descripción"
+            value={cameraForm.description}
+            onChange={(event) => setCameraForm((prev) => ({ ...prev, description: event.target.value }))}
+          />
+          <SelectInput
+            value={String(cameraForm.isActive)}
+            onChange={(event) => setCameraForm((prev) => ({ ...prev, isActive: event.target.value === "true" }))}
           >
-            {cameraForm.id ? "Guardar" : "Crear"}
-          </PrimaryButton>
-          <button
-            className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
-            type="button"
-            onClick={resetForm}
-          >
-            Limpiar
-          </button>
+            <option value="true">Activa</option>
+            <option value="false">Borrador</option>
+          </SelectInput>
+          <div className="flex gap-2">
+            <PrimaryButton
+              onClick={async () => {
+                if (!cameraForm.name.trim() || !cameraForm.rtspUrl.trim()) {
+                  setError("Nombre y RTSP URL son obligatorios.");
+                  return;
+                }
+                try {
+                  if (cameraForm.id) {
+                    await api.put(`/cameras/${cameraForm.id}`, {
+                      name: cameraForm.name.trim(),
+                      rtspUrl: cameraForm.rtspUrl.trim(),
+                      location: cameraForm.location.trim() || null,
+                      description: cameraForm.description.trim() || null,
+                      isActive: cameraForm.isActive
+                    });
+                    setOk("Cámara actualizada");
+                  } else {
+                    await api.post("/cameras", {
+                      name: cameraForm.name.trim(),
+                      rtspUrl: cameraForm.rtspUrl.trim(),
+                      location: cameraForm.location.trim() || undefined,
+                      description: cameraForm.description.trim() || undefined,
+                      isActive: cameraForm.isActive
+                    });
+                    setOk("Cámara creada");
+                  }
+                  setError(null);
+                  resetForm();
+                  await loadCameras();
+                } catch (cause) {
+                  setError(formatApiError(cause, "No se pudo guardar cámara"));
+                }
+              }}
+            >
+              {cameraForm.id ? "Guardar" : "Crear"}
+            </PrimaryButton>
+            <button
+              className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
+              type="button"
+              onClick={resetForm}
+            >
+              Limpiar
+            </button>
+          </div>
         </div>
-      </div>
+      )}
 
       <DataTable>
         <thead className="bg-slate-50 text-slate-600">
@@ -380,26 +767,29 @@ function CamerasPage({ api }: { api: ApiClient }) {
               <td className="px-3 py-2 text-sm text-slate-600">{camera.location || "-"}</td>
               <td className="px-3 py-2">
                 <Badge>{camera.lifecycleStatus}</Badge>
+                {camera.inMaintenance && <Badge className="ml-1">en mantenimiento</Badge>}
               </td>
               <td className="px-3 py-2 text-sm">{camera.isActive ? "si" : "no"}</td>
               <td className="px-3 py-2">
                 <div className="flex gap-2">
-                  <button
-                    className="inline-flex items-center justify-center rounded-md border border-slate-300 px-2.5 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
-                    type="button"
-                    onClick={() =>
-                      setCameraForm({
-                        id: camera.id,
-                        name: camera.name ?? "",
-                        rtspUrl: camera.rtspUrl ?? "",
-                        location: camera.location ?? "",
-                        description: camera.description ?? "",
-                        isActive: Boolean(camera.isActive)
-                      })
-                    }
-                  >
-                    Editar
-                  </button>
+                  {canWrite && (
+                    <button
+                      className="inline-flex items-center justify-center rounded-md border border-slate-300 px-2.5 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+                      type="button"
+                      onClick={() =>
+                        setCameraForm({
+                          id: camera.id,
+                          name: camera.name ?? "",
+                          rtspUrl: camera.rtspUrl ?? "",
+                          location: camera.location ?? "",
+                          description: camera.description ?? "",
+                          isActive: Boolean(camera.isActive)
+                        })
+                      }
+                    >
+                      Editar
+                    </button>
+                  )}
                   <Link
                     className="inline-flex items-center justify-center rounded-md border border-slate-300 px-2.5 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
                     to={PORTAL_ROUTES.operations.cameraDetail(camera.id)}
@@ -473,6 +863,7 @@ function CameraDetailPage({ api }: { api: ApiClient }) {
         <div className="flex items-center gap-2">
           <span>Lifecycle:</span>
           <Badge>{lifecycle?.currentStatus ?? camera.lifecycleStatus}</Badge>
+          {camera.inMaintenance && <Badge>en mantenimiento</Badge>}
         </div>
         <div className="flex gap-2">
           <PrimaryButton
@@ -510,7 +901,7 @@ function CameraDetailPage({ api }: { api: ApiClient }) {
           <div>Jitter: {lifecycle?.healthSnapshot?.jitterMs ?? "-"} ms</div>
           <div>Packet loss: {lifecycle?.healthSnapshot?.packetLossPct ?? "-"} %</div>
           <div>Error: {lifecycle?.healthSnapshot?.error ?? "-"}</div>
-          <div>Última lectura: {lifecycle?.healthSnapshot?.checkedAt ? new Date(lifecycle.healthSnapshot.checkedAt).toLocaleString() : "-"}</div>
+          <div>Última lectura: {lifecycle?.healthSnapshot?.checkedAt ? formatDateTime(lifecycle.healthSnapshot.checkedAt) : "-"}</div>
         </Surface>
         <PrimaryButton
           onClick={async () => {
@@ -608,7 +999,7 @@ function CameraDetailPage({ api }: { api: ApiClient }) {
             {(lifecycle?.history ?? []).slice(0, 6).map((entry: any) => (
               <div key={entry.id} className="flex items-center justify-between rounded-lg bg-slate-100 px-3 py-2 text-xs">
                 <span>{entry.event}</span>
-                <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                <span>{formatDateTime(entry.createdAt)}</span>
               </div>
             ))}
             {!lifecycle?.history?.length && <div className="text-xs text-slate-500">Sin historial de lifecycle.</div>}
@@ -659,7 +1050,7 @@ function EventsPage({ api }: { api: ApiClient }) {
         <tbody className="divide-y divide-slate-100">
           {events.map((e) => (
             <tr key={e.id}>
-              <td className="px-3 py-2">{new Date(e.timestamp).toLocaleString()}</td>
+              <td className="px-3 py-2">{formatDateTime(e.timestamp)}</td>
               <td className="px-3 py-2">{e.cameraId}</td>
               <td className="px-3 py-2">{e.type}</td>
               <td className="px-3 py-2">
@@ -835,7 +1226,7 @@ function RealtimePage({ api, tenantId }: { api: ApiClient; tenantId: string | nu
           <Surface key={event.eventId} className="bg-slate-100 p-3 text-xs">
             <div className="mb-1 flex items-center justify-between">
               <Badge>{event.eventType}</Badge>
-              <span>{new Date(event.occurredAt).toLocaleString()}</span>
+              <span>{formatDateTime(event.occurredAt)}</span>
             </div>
             <pre className="overflow-x-auto whitespace-pre-wrap">{JSON.stringify(event.payload, null, 2)}</pre>
           </Surface>
@@ -849,6 +1240,8 @@ function RealtimePage({ api, tenantId }: { api: ApiClient; tenantId: string | nu
 function HouseholdsPage({ api }: { api: ApiClient }) {
   const [households, setHouseholds] = useState<any[]>([]);
   const [members, setMembers] = useState<any[]>([]);
+  const [cameras, setCameras] = useState<any[]>([]);
+  const [householdCameraIds, setHouseholdCameraIds] = useState<string[]>([]);
   const [selectedHouseholdId, setSelectedHouseholdId] = useState<string>("");
   const [error, setError] = useState<string | null>(null);
   const [ok, setOk] = useState<string | null>(null);
@@ -857,6 +1250,7 @@ function HouseholdsPage({ api }: { api: ApiClient }) {
     fullName: "",
     relationship: "",
     phone: "",
+    userEmail: "",
     canViewCameras: true,
     canReceiveAlerts: true,
     isActive: true
@@ -864,9 +1258,13 @@ function HouseholdsPage({ api }: { api: ApiClient }) {
 
   async function loadHouseholds() {
     try {
-      const res = await api.get<any>("/households", { _start: 0, _end: 100 });
+      const [res, camerasRes] = await Promise.all([
+        api.get<any>("/households", { _start: 0, _end: 100 }),
+        api.get<any>("/cameras", { _start: 0, _end: 200 })
+      ]);
       const rows = res.data ?? res;
       setHouseholds(rows);
+      setCameras(camerasRes.data ?? camerasRes);
       setError(null);
       if (!selectedHouseholdId && rows[0]?.id) {
         setSelectedHouseholdId(rows[0].id);
@@ -900,6 +1298,20 @@ function HouseholdsPage({ api }: { api: ApiClient }) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedHouseholdId]);
 
+  useEffect(() => {
+    setHouseholdCameraIds(households.find((household) => household.id === selectedHouseholdId)?.cameraIds ?? []);
+  }, [households, selectedHouseholdId]);
+
+  async function updateMember(memberId: string, patch: Record<string, unknown>) {
+    try {
+      await api.put(`/household-members/${memberId}`, patch);
+      setOk("Miembro actualizado");
+      await loadMembers(selectedHouseholdId);
+    } catch (cause) {
+      setError(formatApiError(cause, "No se pudo actualizar miembro"));
+    }
+  }
+
   return (
     <PageCard title="Domicilios y Miembros">
       {error && <div className="mb-3 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
@@ -972,7 +1384,42 @@ function HouseholdsPage({ api }: { api: ApiClient }) {
 
       {selectedHouseholdId && (
         <>
-          <div className="mb-3 grid grid-cols-1 gap-2 md:grid-cols-7">
+          <Surface className="mb-4 p-3">
+            <div className="mb-2 text-sm font-medium">Cámaras del domicilio</div>
+            <p className="mb-2 text-xs text-slate-500">
+              Los miembros vinculados a una cuenta solo ven estas cámaras y reciben alertas de ellas si tienen los permisos.
+            </p>
+            <div className="mb-2 flex flex-wrap gap-3">
+              {cameras.map((camera) => (
+                <label key={camera.id} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={householdCameraIds.includes(camera.id)}
+                    onChange={(e) =>
+                      setHouseholdCameraIds((prev) => (e.target.checked ? [...prev, camera.id] : prev.filter((id) => id !== camera.id)))
+                    }
+                  />
+                  {camera.name}
+                </label>
+              ))}
+              {!cameras.length && <span className="text-sm text-slate-500">No hay cámaras disponibles.</span>}
+            </div>
+            <PrimaryButton
+              onClick={async () => {
+                try {
+                  await api.put(`/households/${selectedHouseholdId}/cameras`, { cameraIds: householdCameraIds });
+                  setOk("Cámaras del domicilio actualizadas");
+                  await loadHouseholds();
+                } catch (cause) {
+                  setError(formatApiError(cause, "No se pudieron guardar las cámaras del domicilio"));
+                }
+              }}
+            >
+              Guardar cámaras
+            </PrimaryButton>
+          </Surface>
+
+          <div className="mb-3 grid grid-cols-1 gap-2 md:grid-cols-8">
             <TextInput
               placeholder="Nombre completo"
               value={memberForm.fullName}
@@ -988,6 +1435,11 @@ function HouseholdsPage({ api }: { api: ApiClient }) {
               value={memberForm.phone}
               onChange={(e) => setMemberForm((prev) => ({ ...prev, phone: e.target.value }))}
             />
+            <TextInput
+              placeholder="Email de la cuenta (opcional)"
+              value={memberForm.userEmail}
+              onChange={(e) => setMemberForm((prev) => ({ ...prev, userEmail: e.target.value }))}
+            />
             <SelectInput
               value={String(memberForm.canViewCameras)}
               onChange={(e) => setMemberForm((prev) => ({ ...prev, canViewCameras: e.target.value === "true" }))}
@@ -1016,6 +1468,7 @@ function HouseholdsPage({ api }: { api: ApiClient }) {
                     fullName: memberForm.fullName,
                     relationship: memberForm.relationship,
                     phone: memberForm.phone || null,
+                    userEmail: memberForm.userEmail.trim() || null,
                     canViewCameras: memberForm.canViewCameras,
                     canReceiveAlerts: memberForm.canReceiveAlerts,
                     isActive: memberForm.isActive
@@ -1024,6 +1477,7 @@ function HouseholdsPage({ api }: { api: ApiClient }) {
                     fullName: "",
                     relationship: "",
                     phone: "",
+                    userEmail: "",
                     canViewCameras: true,
                     canReceiveAlerts: true,
                     isActive: true
@@ -1044,6 +1498,7 @@ function HouseholdsPage({ api }: { api: ApiClient }) {
               <tr>
                 <th className="px-3 py-2">Nombre</th>
                 <th className="px-3 py-2">Relación</th>
+                <th className="px-3 py-2">Cuenta</th>
                 <th className="px-3 py-2">Permisos</th>
                 <th className="px-3 py-2">Estado</th>
                 <th className="px-3 py-2"></th>
@@ -1054,8 +1509,24 @@ function HouseholdsPage({ api }: { api: ApiClient }) {
                 <tr key={member.id}>
                   <td className="px-3 py-2">{member.fullName}</td>
                   <td className="px-3 py-2">{member.relationship}</td>
+                  <td className="px-3 py-2 text-sm text-slate-600">{member.user?.email ?? "sin cuenta"}</td>
                   <td className="px-3 py-2 text-xs">
-                    cam:{member.canViewCameras ? "si" : "no"} | alerts:{member.canReceiveAlerts ? "si" : "no"}
+                    <div className="flex gap-2">
+                      <button
+                        className="rounded-md border border-slate-300 px-2 py-1 hover:bg-slate-100"
+                        type="button"
+                        onClick={() => void updateMember(member.id, { canViewCameras: !member.canViewCameras })}
+                      >
+                        cam:{member.canViewCameras ? "si" : "no"}
+                      </button>
+                      <button
+                        className="rounded-md border border-slate-300 px-2 py-1 hover:bg-slate-100"
+                        type="button"
+                        onClick={() => void updateMember(member.id, { canReceiveAlerts: !member.canReceiveAlerts })}
+                      >
+                        alerts:{member.canReceiveAlerts ? "si" : "no"}
+                      </button>
+                    </div>
                   </td>
                   <td className="px-3 py-2">
                     <Badge>{member.isActive ? "active" : "inactive"}</Badge>
@@ -1079,7 +1550,7 @@ function HouseholdsPage({ api }: { api: ApiClient }) {
               ))}
               {!members.length && (
                 <tr>
-                  <td colSpan={5} className="px-3 py-4 text-center text-sm text-slate-500">
+                  <td colSpan={6} className="px-3 py-4 text-center text-sm text-slate-500">
                     No hay miembros para este domicilio.
                   </td>
                 </tr>
@@ -1205,7 +1676,7 @@ function SubscriptionRequestPage({ api }: { api: ApiClient }) {
         <tbody className="divide-y divide-slate-100">
           {requests.map((request) => (
             <tr key={request.id}>
-              <td className="px-3 py-2 text-sm">{new Date(request.createdAt).toLocaleString()}</td>
+              <td className="px-3 py-2 text-sm">{formatDateTime(request.createdAt)}</td>
               <td className="px-3 py-2">{request.plan?.name ?? request.planId}</td>
               <td className="px-3 py-2">
                 <Badge>{request.status}</Badge>
@@ -1247,6 +1718,10 @@ export function PortalApp() {
   return (
     <Routes>
       <Route path="/login" element={<LoginPage />} />
+      <Route path="/auth/oidc/callback" element={<OidcCallbackPage />} />
+      <Route path="/invitations/accept" element={<AcceptInvitationPage />} />
+      <Route path="/password/forgot" element={<ForgotPasswordPage />} />
+      <Route path="/password/reset" element={<ResetPasswordPage />} />
       <Route path="/*" element={<ProtectedLayout />} />
     </Routes>
   );
@@ -1,17 +1,21 @@
 import Fastify from "fastify";
-import { promises as fs } from "node:fs";
+import { createReadStream, promises as fs } from "node:fs";
 import { tmpdir } from "node:os";
 import path from "node:path";
 import { z } from "zod";
 import { createHmac, timingSafeEqual } from "node:crypto";
 import { spawn } from "node:child_process";
-import { createMediaEngineFromEnv, type MediaEngine } from "./media-engine.js";
+import { buildLowLatencyPlaylist, hasPlaylistReached, parseVirtualSegmentName } from "./ll-hls.js";
+import { createMediaEngineFromEnv, WebRtcNegotiationError, type MediaEngine } from "./media-engine.js";
+import { remuxTsToMp4 } from "./mp4-remux.js";
+import { createRegistrySealer, createStreamRegistry } from "./registry.js";
 
 const IngestTransportSchema = z.enum(["auto", "tcp", "udp"]);
 const IngestEncryptionSchema = z.enum(["optional", "required", "disabled"]);
 const IngestTunnelSchema = z.enum(["none", "http", "https", "ws", "wss", "auto"]);
 const CodecHintSchema = z.enum(["h264", "h265", "mpeg4", "unknown"]);
 const RecordingModeSchema = z.enum(["continuous", "event_only", "hybrid", "observe_only"]);
+const PlaybackFormatSchema = z.enum(["hls_ts", "ll_hls_cmaf"]);
 
 const ProvisionSchema = z.object({
   tenantId: z.string().min(1),
@@ -27,7 +31,8 @@ const ProvisionSchema = z.object({
   retentionDays: z.number().int().positive().optional(),
   recordingMode: RecordingModeSchema.optional(),
   eventClipPreSeconds: z.number().int().min(0).max(120).optional(),
-  eventClipPostSeconds: z.number().int().min(1).max(300).optional()
+  eventClipPostSeconds: z.number().int().min(1).max(300).optional(),
+  playbackFormat: PlaybackFormatSchema.optional()
 });
 
 type StreamStatus = "provisioning" | "ready" | "stopped";
@@ -48,6 +53,7 @@ type StreamSource = {
   tunnel: z.infer<typeof IngestTunnelSchema>;
   codecHint: "h264" | "h265" | "mpeg4" | "unknown";
   targetProfiles: string[];
+  playbackFormat: z.infer<typeof PlaybackFormatSchema>;
 };
 
 type StreamEntry = {
@@ -72,6 +78,9 @@ type StreamEntry = {
   updatedAt: string;
 };
 
+// Journal shape: `rtspUrl` keeps the URL without userinfo and the full URL travels sealed.
+type JournaledStreamEntry = StreamEntry & { rtspUrlSealed?: string };
+
 type SessionStatus = "issued" | "active" | "ended" | "expired";
 
 type StreamSessionEntry = {
@@ -88,6 +97,15 @@ type StreamSessionEntry = {
   endReason: string | null;
 };
 
+type WhepSessionEntry = {
+  whepSessionId: string;
+  tenantId: string;
+  cameraId: string;
+  sid: string;
+  resourceId: string;
+  createdAt: string;
+};
+
 type ApiErrorBody = {
   code: string;
   message: string;
@@ -134,6 +152,11 @@ const StreamPlaybackTokenSchema = z.object({
   sid: z.string().min(1),
   exp: z.number().int().positive(),
   iat: z.number().int().positive(),
+  // Recorded playback tokens carry the epoch-second window they may read; live tokens never do.
+  range: z
+    .object({ from: z.number().int().positive(), to: z.number().int().positive() })
+    .refine((value) => value.from < value.to)
+    .optional(),
   v: z.literal(1)
 });
 
@@ -158,6 +181,10 @@ function verifyTokenDetailed(token: string, secret: string) {
   }
 }
 
+function stripUrlCredentials(url: string) {
+  return url.replace(/^([a-z][a-z0-9+.-]*:\/\/)[^@/?#]*@/i, "$1");
+}
+
 function nowIso() {
   return new Date().toISOString();
 }
@@ -293,6 +320,43 @@ type EventClipEntry = {
   createdAt: string;
 };
 
+type ExportJobStatus = "queued" | "running" | "ready" | "failed";
+
+type ExportJobEntry = {
+  exportId: string;
+  tenantId: string;
+  cameraId: string;
+  source: "clip" | "range";
+  eventId: string | null;
+  from: string | null;
+  to: string | null;
+  status: ExportJobStatus;
+  strategy: "ffmpeg" | "remux" | null;
+  filePath: string | null;
+  sizeBytes: number | null;
+  durationSeconds: number | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+};
+
+const ExportRequestSchema = z
+  .object({
+    tenantId: z.string().min(1),
+    cameraId: z.string().min(1),
+    eventId: z.string().min(1).optional(),
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional()
+  })
+  .refine((value) => (value.eventId ? !value.from && !value.to : Boolean(value.from && value.to)), {
+    message: "Provide either eventId or both from and to"
+  });
+
+// Download links are `?expires=<epoch seconds>&signature=<hmac>`; the control plane signs them with the shared stream secret.
+function signExportDownload(exportId: string, expires: number, secret: string) {
+  return createHmac("sha256", secret).update(`${exportId}.${expires}`).digest("base64url");
+}
+
 const RETENTION_DEFAULT_EXTENSIONS = [".ts", ".m4s", ".mp4", ".mkv", ".fmp4"];
 
 function parseRetentionExtensions(raw: string | undefined) {
@@ -413,6 +477,8 @@ async function collectRetentionCandidates(
       if (!entry.isFile()) continue;
       const ext = path.extname(entry.name).toLowerCase();
       if (!extensions.has(ext)) continue;
+      // The CMAF init segment is written once per muxer start and every live part depends on it.
+      if (entry.name === "init.mp4") continue;
       try {
         const stat = await fs.stat(fullPath);
         if (now - stat.mtimeMs < minAgeMs) continue;
@@ -443,6 +509,91 @@ async function readDiskUsage(rootDir: string): Promise<DiskUsageSnapshot | null>
   }
 }
 
+// Event clips live at `<vault>/<tenantId>/<cameraId>/_events/<eventId>/`; unreadable directories are skipped.
+async function listEventClipDirs(vaultBasePath: string) {
+  const readDirNames = async (dir: string) => {
+    try {
+      return (await fs.readdir(dir, { withFileTypes: true })).filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+    } catch {
+      return [];
+    }
+  };
+  const found: Array<{ tenantId: string; cameraId: string; eventId: string }> = [];
+  for (const tenantId of await readDirNames(vaultBasePath)) {
+    for (const cameraId of await readDirNames(path.join(vaultBasePath, tenantId))) {
+      for (const eventId of await readDirNames(path.join(vaultBasePath, tenantId, cameraId, "_events"))) {
+        found.push({ tenantId, cameraId, eventId });
+      }
+    }
+  }
+  return found;
+}
+
+type RecordedSegment = {
+  name: string;
+  filePath: string;
+  startMs: number;
+  endMs: number;
+};
+
+/**
+ * Turns retained segments (sorted by mtime, i.e. when the muxer closed them) into a timeline. A segment
+ * that closes within two nominal durations of the previous one starts where that one ended; otherwise
+ * recording was interrupted and the segment is assumed to span one nominal duration.
+ */
+function buildRecordedTimeline(files: Array<{ filePath: string; name: string; mtimeMs: number }>, nominalSegmentMs: number) {
+  const timeline: RecordedSegment[] = [];
+  for (const file of files) {
+    const previous = timeline[timeline.length - 1];
+    const contiguous = previous && file.mtimeMs - previous.endMs <= nominalSegmentMs * 2;
+    const startMs = contiguous ? previous.endMs : file.mtimeMs - nominalSegmentMs;
+    timeline.push({ name: file.name, filePath: file.filePath, startMs, endMs: file.mtimeMs });
+  }
+  return timeline;
+}
+
+/**
+ * VOD playlist for a slice of the timeline. Every run of contiguous segments starts with
+ * EXT-X-PROGRAM-DATE-TIME; holes in the recording are filled with EXT-X-GAP entries (split to the
+ * target duration) between discontinuities so players keep wall-clock alignment.
+ */
+function buildRecordedPlaylist(segments: RecordedSegment[], segmentUri: (name: string) => string) {
+  const durationSeconds = (startMs: number, endMs: number) => Math.max(0.001, (endMs - startMs) / 1000);
+  const targetDuration = Math.max(1, Math.ceil(Math.max(...segments.map((segment) => durationSeconds(segment.startMs, segment.endMs)))));
+  const lines = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    "#EXT-X-PLAYLIST-TYPE:VOD",
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    "#EXT-X-MEDIA-SEQUENCE:0"
+  ];
+  let previousEndMs: number | null = null;
+  for (const segment of segments) {
+    if (previousEndMs !== null && segment.startMs > previousEndMs) {
+      lines.push("#EXT-X-DISCONTINUITY", `#EXT-X-PROGRAM-DATE-TIME:${new Date(previousEndMs).toISOString()}`);
+      for (let gapStartMs = previousEndMs; gapStartMs < segment.startMs; gapStartMs += targetDuration * 1000) {
+        const gapEndMs = Math.min(segment.startMs, gapStartMs + targetDuration * 1000);
+        lines.push("#EXT-X-GAP", `#EXTINF:${durationSeconds(gapStartMs, gapEndMs).toFixed(3)},`, segmentUri("gap.ts"));
+      }
+      lines.push("#EXT-X-DISCONTINUITY");
+    }
+    if (previousEndMs === null || segment.startMs > previousEndMs) {
+      lines.push(`#EXT-X-PROGRAM-DATE-TIME:${new Date(segment.startMs).toISOString()}`);
+    }
+    lines.push(`#EXTINF:${durationSeconds(segment.startMs, segment.endMs).toFixed(3)},`, segmentUri(segment.name));
+    previousEndMs = segment.endMs;
+  }
+  lines.push("#EXT-X-ENDLIST");
+  return lines.join("\n");
+}
+
+function playbackSegmentContentType(segmentName: string) {
+  const ext = path.extname(segmentName).toLowerCase();
+  if (ext === ".m4s") return "video/iso.segment";
+  if (ext === ".mp4") return "video/mp4";
+  return "video/MP2T";
+}
+
 type BuildAppOptions = {
   mediaEngine?: MediaEngine;
 };
@@ -472,7 +623,13 @@ export async function buildApp(options: BuildAppOptions = {}) {
   const eventClipFfmpegBin = process.env.STREAM_EVENT_CLIP_FFMPEG_BIN ?? "ffmpeg";
   const observeScratchBaseDir = path.resolve(process.env.STREAM_OBSERVE_SCRATCH_DIR ?? path.join(tmpdir(), "nearhome-observe"));
   const mediaEngine = options.mediaEngine ?? createMediaEngineFromEnv(storageDir);
+  const registryEnabled = (process.env.STREAM_REGISTRY_ENABLED ?? "1") === "1";
+  const registry = createStreamRegistry({
+    filePath: registryEnabled ? path.resolve(process.env.STREAM_REGISTRY_PATH ?? path.join(storageDir, ".nearhome-registry.jsonl")) : null,
+    compactAfterLines: Number(process.env.STREAM_REGISTRY_COMPACT_LINES ?? 5_000)
+  });
   const streamTokenSecret = process.env.STREAM_TOKEN_SECRET ?? "dev-stream-token-secret";
+  const registrySealer = createRegistrySealer(process.env.STREAM_REGISTRY_KEY?.trim() || streamTokenSecret);
   const probeIntervalMs = Number(process.env.STREAM_PROBE_INTERVAL_MS ?? 5000);
   const sessionIdleTtlMs = Number(process.env.STREAM_SESSION_IDLE_TTL_MS ?? 60_000);
   const sessionSweepIntervalMs = Number(process.env.STREAM_SESSION_SWEEP_MS ?? 5_000);
@@ -482,6 +639,12 @@ export async function buildApp(options: BuildAppOptions = {}) {
   const playbackReadTimeoutMs = Math.max(50, Number(process.env.STREAM_PLAYBACK_READ_TIMEOUT_MS ?? 2000));
   const playbackSlowRequestMs = Math.max(1, Number(process.env.STREAM_PLAYBACK_SLOW_MS ?? 500));
   const playbackLiveEdgeStaleMs = Math.max(1000, Number(process.env.STREAM_PLAYBACK_LIVE_EDGE_STALE_MS ?? 3000));
+  const llHlsPartSeconds = Math.max(0.1, Number(process.env.STREAM_LLHLS_PART_SECONDS ?? 0.5));
+  const llHlsPartsPerSegment = Math.max(1, Math.floor(Number(process.env.STREAM_LLHLS_PARTS_PER_SEGMENT ?? 4)));
+  const llHlsBlockingReloadTimeoutMs = Math.max(
+    100,
+    Number(process.env.STREAM_LLHLS_BLOCKING_RELOAD_TIMEOUT_MS ?? llHlsPartSeconds * llHlsPartsPerSegment * 3 * 1000)
+  );
   const maxActiveSessionsPerTenant = Math.max(0, Number(process.env.STREAM_MAX_ACTIVE_SESSIONS_PER_TENANT ?? 0));
   const defaultIngestTransport = IngestTransportSchema.catch("auto").parse(process.env.STREAM_DEFAULT_INGEST_TRANSPORT);
   const defaultIngestEncryption = IngestEncryptionSchema.catch("optional").parse(process.env.STREAM_DEFAULT_INGEST_ENCRYPTION);
@@ -496,6 +659,9 @@ export async function buildApp(options: BuildAppOptions = {}) {
     Math.max(1, Number(process.env.STREAM_RETENTION_TARGET_DISK_USAGE_PCT ?? 75))
   );
   const retentionExtensions = parseRetentionExtensions(process.env.STREAM_RETENTION_FILE_EXTENSIONS);
+  const recordedSegmentMs = Math.max(1, Number(process.env.STREAM_RETENTION_SEGMENT_SECONDS ?? 1)) * 1_000;
+  const recordedMaxRangeMs = Math.max(60, Number(process.env.STREAM_VOD_MAX_RANGE_SECONDS ?? 6 * 60 * 60)) * 1_000;
+  const exportMaxRangeMs = Math.max(60, Number(process.env.STREAM_EXPORT_MAX_RANGE_SECONDS ?? 30 * 60)) * 1_000;
   const corsOrigins = (process.env.STREAM_CORS_ORIGINS ?? process.env.CORS_ORIGIN_ADMIN ?? "*")
     .split(",")
     .map((value) => value.trim())
@@ -516,6 +682,8 @@ export async function buildApp(options: BuildAppOptions = {}) {
     }
     reply.header("access-control-allow-methods", "GET,POST,PUT,PATCH,DELETE,OPTIONS");
     reply.header("access-control-allow-headers", "Content-Type, Authorization, X-Tenant-Id");
+    // WHEP clients read the session resource from Location.
+    reply.header("access-control-expose-headers", "Location");
     if (request.method === "OPTIONS") {
       reply.code(204);
       return reply.send();
@@ -539,8 +707,42 @@ export async function buildApp(options: BuildAppOptions = {}) {
   let storageFailoverProvisionTotal = 0;
   let eventClipsCreatedTotal = 0;
   let eventClipsBytesTotal = 0;
+  let whepSessionsCreatedTotal = 0;
+  let whepNegotiationFailuresTotal = 0;
   const storageVaultHealthById = new Map<string, StorageVaultHealth>();
   const eventClips = new Map<string, EventClipEntry>();
+  const exportJobs = new Map<string, ExportJobEntry>();
+  let exportQueue: Promise<void> = Promise.resolve();
+  // WHEP sessions are not journaled: the peer connections die with the media engine anyway.
+  const whepSessions = new Map<string, WhepSessionEntry>();
+  const registryRestored = { streams: 0, failedStreams: 0, sessions: 0, clips: 0, droppedClips: 0, exports: 0 };
+
+  // Only provisioning, session status changes, clips and storage settings are journaled; probe health is not.
+  const persistStream = (key: string) => {
+    const entry = streams.get(key);
+    if (!entry) return;
+    const journaled: JournaledStreamEntry = {
+      ...entry,
+      rtspUrl: stripUrlCredentials(entry.rtspUrl),
+      rtspUrlSealed: registrySealer.seal(entry.rtspUrl)
+    };
+    registry.put("streams", key, journaled);
+  };
+  const persistSession = (key: string) => {
+    const entry = streamSessions.get(key);
+    if (entry) registry.put("sessions", key, entry);
+  };
+  const persistExport = (exportId: string) => {
+    const job = exportJobs.get(exportId);
+    if (job) registry.put("exports", exportId, job);
+  };
+  const persistStorageSettings = () => {
+    registry.put("storage", "settings", {
+      vaults: Array.from(storageVaultsById.values()),
+      defaultVaultId: storageDefaultVaultId,
+      planVaultMap: storagePlanVaultMap
+    });
+  };
   const playbackRequestCounters = new Map<string, number>();
   const playbackErrorCounters = new Map<string, number>();
   const playbackReadRetryCounters = new Map<string, number>();
@@ -711,6 +913,29 @@ export async function buildApp(options: BuildAppOptions = {}) {
     probeTimer = null;
   };
 
+  const hasOpenWhepSession = (session: StreamSessionEntry) => {
+    for (const whepSession of whepSessions.values()) {
+      const sameSession =
+        whepSession.tenantId === session.tenantId && whepSession.cameraId === session.cameraId && whepSession.sid === session.sid;
+      if (sameSession) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const releaseWhepSession = async (whepSession: WhepSessionEntry, reason: string) => {
+    if (!whepSessions.delete(whepSession.whepSessionId)) return;
+    try {
+      await mediaEngine.webrtc?.deleteWhepSession(
+        { tenantId: whepSession.tenantId, cameraId: whepSession.cameraId },
+        whepSession.resourceId
+      );
+    } catch (error) {
+      app.log.warn({ err: error, whepSessionId: whepSession.whepSessionId, reason }, "whep session teardown failed");
+    }
+  };
+
   const sweepSessions = () => {
     const now = Date.now();
     let expired = 0;
@@ -723,19 +948,30 @@ export async function buildApp(options: BuildAppOptions = {}) {
           endedAt: nowIso(),
           endReason: "token_expired"
         });
+        persistSession(key);
         expired += 1;
         continue;
       }
-      if (session.status === "active" && now - Date.parse(session.lastSeenAt) > sessionIdleTtlMs) {
+      // WebRTC media bypasses the gateway, so an open WHEP session is what keeps the playback session alive.
+      if (
+        session.status === "active" &&
+        now - Date.parse(session.lastSeenAt) > sessionIdleTtlMs &&
+        !hasOpenWhepSession(session)
+      ) {
         streamSessions.set(key, {
           ...session,
           status: "ended",
           endedAt: nowIso(),
           endReason: "idle_timeout"
         });
+        persistSession(key);
         ended += 1;
       }
     }
+    for (const whepSession of whepSessions.values()) {
+      const session = streamSessions.get(streamSessionKey(whepSession.tenantId, whepSession.cameraId, whepSession.sid));
+      if (session?.status !== "active") void releaseWhepSession(whepSession, "session_closed");
+    }
     sessionSweepCount += 1;
     return { expired, ended };
   };
@@ -977,6 +1213,8 @@ export async function buildApp(options: BuildAppOptions = {}) {
     stopRetentionSweepLoop();
     stopStorageHealthcheckLoop();
     await mediaEngine.close();
+    await exportQueue;
+    await registry.flush();
   });
 
   app.setNotFoundHandler((_request, reply) => {
@@ -1015,7 +1253,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
     reply.status(statusCode).send(body);
   });
 
-  function parseAndValidatePlaybackToken(args: { token?: string; tenantId: string; cameraId: string }) {
+  function parseAndValidatePlaybackToken(args: { token?: string; tenantId: string; cameraId: string; recorded?: boolean }) {
     if (!args.token) {
       throw new ApiDomainError({
         statusCode: 401,
@@ -1068,10 +1306,20 @@ export async function buildApp(options: BuildAppOptions = {}) {
         }
       });
     }
+    if (Boolean(args.recorded) !== Boolean(parsed.range)) {
+      throw new ApiDomainError({
+        statusCode: 403,
+        apiCode: "PLAYBACK_TOKEN_SCOPE_MISMATCH",
+        message: args.recorded
+          ? "Recorded playback requires a range-scoped token"
+          : "Range-scoped token cannot be used for live playback",
+        details: { tenantId: args.tenantId, cameraId: args.cameraId, tokenRange: parsed.range ?? null }
+      });
+    }
     return parsed;
   }
 
-  function assertStreamReady(entry: StreamEntry | undefined, tenantId: string, cameraId: string) {
+  function assertStreamReady(entry: StreamEntry | undefined, tenantId: string, cameraId: string): asserts entry is StreamEntry {
     if (!entry) {
       throw new ApiDomainError({
         statusCode: 404,
@@ -1155,6 +1403,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
       lastSeenAt: nowIso(),
       endReason: null
     });
+    if (existingSession?.status !== "active") persistSession(sessionKey);
   }
 
   async function readWithRetry<T>(args: {
@@ -1213,7 +1462,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
   async function withPlaybackMetrics<T>(args: {
     tenantId: string;
     cameraId: string;
-    asset: "manifest" | "segment";
+    asset: "manifest" | "segment" | "webrtc";
     handler: () => Promise<T>;
   }): Promise<T> {
     const startedAt = Date.now();
@@ -1264,12 +1513,18 @@ export async function buildApp(options: BuildAppOptions = {}) {
 
   const rewriteManifestSegmentUris = (manifest: string, tenantId: string, cameraId: string, token: string) => {
     const tokenQuery = `?token=${encodeURIComponent(token)}`;
+    const segmentUrl = (uri: string) => `/playback/${tenantId}/${cameraId}/segments/${encodeURIComponent(uri)}${tokenQuery}`;
     return manifest
       .split("\n")
       .map((line) => {
         const trimmed = line.trim();
-        if (!trimmed || trimmed.startsWith("#")) return line;
-        return `/playback/${tenantId}/${cameraId}/segments/${encodeURIComponent(trimmed)}${tokenQuery}`;
+        if (!trimmed) return line;
+        if (trimmed.startsWith("#")) {
+          // CMAF init segment, LL-HLS parts and preload hints reference media through a URI attribute.
+          if (!/^#EXT-X-(MAP|PART|PRELOAD-HINT):/.test(trimmed)) return line;
+          return line.replace(/URI="([^"]+)"/, (_match, uri: string) => `URI="${segmentUrl(uri)}"`);
+        }
+        return segmentUrl(trimmed);
       })
       .join("\n");
   };
@@ -1328,6 +1583,48 @@ export async function buildApp(options: BuildAppOptions = {}) {
     return files.sort((a, b) => a.mtimeMs - b.mtimeMs);
   };
 
+  const getRecordedStream = (args: { tenantId: string; cameraId: string }) => {
+    const entry = streams.get(streamKey(args.tenantId, args.cameraId));
+    if (!entry) {
+      throw new ApiDomainError({
+        statusCode: 404,
+        apiCode: "PLAYBACK_STREAM_NOT_FOUND",
+        message: "Stream is not provisioned",
+        details: { tenantId: args.tenantId, cameraId: args.cameraId }
+      });
+    }
+    if (entry.storage.recordingMode === "observe_only") {
+      throw new ApiDomainError({
+        statusCode: 409,
+        apiCode: "PLAYBACK_RECORDING_DISABLED_IN_OBSERVE_ONLY",
+        message: "Observe-only streams do not keep recordings",
+        details: { tenantId: args.tenantId, cameraId: args.cameraId }
+      });
+    }
+    return entry;
+  };
+
+  const listRecordedSegments = async (args: { tenantId: string; cameraId: string; fromMs: number; toMs: number }) => {
+    const entry = getRecordedStream(args);
+    const timeline = buildRecordedTimeline(await listCameraSegments(entry.storage.cameraStorageDir), recordedSegmentMs);
+    return timeline.filter((segment) => segment.endMs > args.fromMs && segment.startMs < args.toMs);
+  };
+
+  /**
+   * Resolves one segment of a VOD playlist by name with a single stat. A segment ends at its mtime and starts
+   * at most two nominal durations earlier (see buildRecordedTimeline), so it is served when that span
+   * overlaps the range; anything the playlist lists passes, nothing further back in the archive does.
+   */
+  const findRecordedSegment = async (args: { tenantId: string; cameraId: string; name: string; fromMs: number; toMs: number }) => {
+    const entry = getRecordedStream(args);
+    if (path.basename(args.name) !== args.name || !retentionExtensions.has(path.extname(args.name).toLowerCase())) return null;
+    const filePath = path.join(entry.storage.cameraStorageDir, args.name);
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (!stat?.isFile()) return null;
+    if (stat.mtimeMs <= args.fromMs || stat.mtimeMs - recordedSegmentMs * 2 >= args.toMs) return null;
+    return { name: args.name, filePath };
+  };
+
   const createEventClipFromRange = async (args: {
     stream: StreamEntry;
     eventId: string;
@@ -1462,6 +1759,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
           createdAt: typeof parsed.createdAt === "string" ? parsed.createdAt : nowIso()
         };
         eventClips.set(eventClipKey(tenantId, cameraId, eventId), entry);
+        registry.put("clips", eventClipKey(tenantId, cameraId, eventId), entry);
         return entry;
       } catch {
         // Keep searching other vault roots.
@@ -1492,6 +1790,232 @@ export async function buildApp(options: BuildAppOptions = {}) {
     return { lagMs, observedAt, stale };
   };
 
+  /** Source files of an export in playback order; they are read from disk by ffmpeg or the remuxer, never held together. */
+  const listExportSourceFiles = async (job: ExportJobEntry) => {
+    if (job.source === "clip") {
+      const clip =
+        eventClips.get(eventClipKey(job.tenantId, job.cameraId, job.eventId as string)) ??
+        (await loadEventClipFromDisk(job.tenantId, job.cameraId, job.eventId as string));
+      if (!clip) throw new Error("event clip no longer exists");
+      // Clips live at `<cameraDir>/_events/<eventId>/clip.ts`.
+      return { cameraDir: path.resolve(clip.clipPath, "..", "..", ".."), files: [clip.clipPath] };
+    }
+    const segments = await listRecordedSegments({
+      tenantId: job.tenantId,
+      cameraId: job.cameraId,
+      fromMs: Date.parse(job.from as string),
+      toMs: Date.parse(job.to as string)
+    });
+    const files: string[] = [];
+    for (const segment of segments) {
+      if (await fs.stat(segment.filePath).catch(() => null)) files.push(segment.filePath);
+    }
+    if (files.length === 0) throw new Error("no recorded segments left in requested range");
+    const stream = streams.get(streamKey(job.tenantId, job.cameraId)) as StreamEntry;
+    return { cameraDir: stream.storage.cameraStorageDir, files };
+  };
+
+  const runExportJob = async (job: ExportJobEntry) => {
+    exportJobs.set(job.exportId, { ...job, status: "running" });
+    persistExport(job.exportId);
+    try {
+      const source = await listExportSourceFiles(job);
+      const exportDir = path.join(source.cameraDir, "_exports", job.exportId);
+      const filePath = path.join(exportDir, "export.mp4");
+      await fs.mkdir(exportDir, { recursive: true });
+      let strategy: "ffmpeg" | "remux" = "remux";
+      let durationSeconds: number | null = null;
+      if (eventClipStrategy === "ffmpeg") {
+        // The concat demuxer reads the segments one after another, so the range never sits in memory.
+        const listPath = path.join(exportDir, "concat.txt");
+        const concatPayload = source.files.map((file) => `file '${file.replace(/'/g, "'\\''")}'`).join("\n");
+        await fs.writeFile(listPath, concatPayload, "utf8");
+        try {
+          await runCommand(eventClipFfmpegBin, [
+            "-y",
+            "-f",
+            "concat",
+            "-safe",
+            "0",
+            "-i",
+            listPath,
+            "-map",
+            "0:v",
+            "-map",
+            "0:a?",
+            "-c",
+            "copy",
+            "-movflags",
+            "+faststart",
+            filePath
+          ]);
+          strategy = "ffmpeg";
+        } catch (error) {
+          app.log.warn({ err: error, exportId: job.exportId }, "ffmpeg export failed, falling back to built-in remux");
+        } finally {
+          await fs.rm(listPath, { force: true });
+        }
+      }
+      if (strategy === "remux") {
+        // The built-in remuxer works on one buffer; STREAM_EXPORT_MAX_RANGE_SECONDS keeps it bounded.
+        const buffers: Buffer[] = [];
+        for (const file of source.files) {
+          const payload = await fs.readFile(file).catch(() => null);
+          if (payload) buffers.push(payload);
+        }
+        const remuxed = remuxTsToMp4(Buffer.concat(buffers));
+        await fs.writeFile(filePath, remuxed.mp4);
+        durationSeconds = Math.round(remuxed.durationSeconds * 1000) / 1000;
+      }
+      const stat = await fs.stat(filePath);
+      exportJobs.set(job.exportId, {
+        ...job,
+        status: "ready",
+        strategy,
+        filePath,
+        sizeBytes: stat.size,
+        durationSeconds,
+        completedAt: nowIso()
+      });
+    } catch (error) {
+      exportJobs.set(job.exportId, {
+        ...job,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: nowIso()
+      });
+    }
+    persistExport(job.exportId);
+  };
+
+  // Rebuilds state from the registry: storage settings, clips still on disk (plus clips on disk the journal
+  // missed), streams whose media workers restart, and sessions whose tokens have not expired yet.
+  const restoreFromRegistry = async () => {
+    const snapshot = await registry.load();
+
+    const settings = snapshot.storage.get("settings") as
+      | { vaults?: StorageVaultConfig[]; defaultVaultId?: string; planVaultMap?: Record<string, string> }
+      | undefined;
+    if (settings) {
+      // Vaults from STREAM_STORAGE_VAULTS_JSON stay configured; runtime-added or edited ones override them.
+      for (const vault of settings.vaults ?? []) storageVaultsById.set(vault.id, vault);
+      if (settings.defaultVaultId && storageVaultsById.has(settings.defaultVaultId)) {
+        storageDefaultVaultId = settings.defaultVaultId;
+      }
+      if (settings.planVaultMap) {
+        storagePlanVaultMap = Object.fromEntries(
+          Object.entries(settings.planVaultMap).filter(([, vaultId]) => storageVaultsById.has(vaultId))
+        );
+      }
+      await refreshVaultHealth();
+    }
+
+    for (const [key, value] of snapshot.clips) {
+      const clip = value as EventClipEntry;
+      try {
+        const stat = await fs.stat(clip.clipPath);
+        eventClips.set(key, { ...clip, clipBytes: stat.size });
+        registryRestored.clips += 1;
+      } catch {
+        registry.remove("clips", key);
+        registryRestored.droppedClips += 1;
+      }
+    }
+    for (const vault of storageVaultsById.values()) {
+      for (const clipDir of await listEventClipDirs(vault.basePath)) {
+        if (eventClips.has(eventClipKey(clipDir.tenantId, clipDir.cameraId, clipDir.eventId))) continue;
+        if (await loadEventClipFromDisk(clipDir.tenantId, clipDir.cameraId, clipDir.eventId)) registryRestored.clips += 1;
+      }
+    }
+
+    for (const [exportId, value] of snapshot.exports) {
+      const job = value as ExportJobEntry;
+      if (job.status === "ready") {
+        const exists = await fs
+          .stat(job.filePath as string)
+          .then(() => true)
+          .catch(() => false);
+        if (!exists) {
+          registry.remove("exports", exportId);
+          continue;
+        }
+        exportJobs.set(exportId, job);
+      } else if (job.status === "failed") {
+        exportJobs.set(exportId, job);
+      } else {
+        exportJobs.set(exportId, { ...job, status: "failed", error: "interrupted by gateway restart", completedAt: nowIso() });
+        persistExport(exportId);
+      }
+      registryRestored.exports += 1;
+    }
+
+    let plaintextStreams = 0;
+    for (const [key, value] of snapshot.streams) {
+      const { rtspUrlSealed, ...stored } = value as JournaledStreamEntry;
+      // Streams journaled before playback formats existed were always MPEG-TS HLS.
+      const entry: StreamEntry = {
+        ...stored,
+        source: { ...stored.source, playbackFormat: stored.source.playbackFormat ?? "hls_ts" }
+      };
+      if (!rtspUrlSealed) plaintextStreams += 1;
+      if (entry.status === "stopped") {
+        streams.set(key, { ...entry, health: buildHealth("offline", "deprovisioned"), updatedAt: nowIso() });
+        if (!rtspUrlSealed) persistStream(key);
+        continue;
+      }
+      try {
+        // Opening fails when STREAM_REGISTRY_KEY changed; the stream is then forgotten and re-provisioned by the API.
+        if (rtspUrlSealed) entry.rtspUrl = registrySealer.open(rtspUrlSealed);
+        if (storageVaultsById.get(entry.storage.vaultId)?.basePath !== entry.storage.vaultBasePath) {
+          throw new Error(`storage vault ${entry.storage.vaultId} is no longer configured at ${entry.storage.vaultBasePath}`);
+        }
+        if (entry.storage.observeScratchDir) {
+          await fs.mkdir(entry.storage.observeScratchDir, { recursive: true });
+        }
+        await mediaEngine.provisionStream({
+          tenantId: entry.tenantId,
+          cameraId: entry.cameraId,
+          rtspUrl: entry.rtspUrl,
+          transport: entry.source.transport,
+          encryption: entry.source.encryption,
+          tunnel: entry.source.tunnel,
+          playbackFormat: entry.source.playbackFormat,
+          storageDir: entry.storage.observeScratchDir ? observeScratchBaseDir : entry.storage.vaultBasePath
+        });
+        streams.set(key, { ...entry, status: "ready", health: buildHealth("online"), updatedAt: nowIso() });
+        if (!rtspUrlSealed) persistStream(key);
+        registryRestored.streams += 1;
+      } catch (error) {
+        // Forgotten rather than kept half-restored, so the next /provision from the API starts from scratch.
+        registry.remove("streams", key);
+        registryRestored.failedStreams += 1;
+        app.log.warn({ err: error, tenantId: entry.tenantId, cameraId: entry.cameraId }, "registry stream restore failed");
+      }
+    }
+    // Journals written before credentials were sealed are rewritten so the plaintext URLs leave the disk now.
+    if (plaintextStreams > 0) await registry.compact();
+
+    const now = Date.now();
+    for (const [key, value] of snapshot.sessions) {
+      const session = value as StreamSessionEntry;
+      // Closed sessions are kept until their token expires so the token cannot be replayed after a restart.
+      if (Date.parse(session.expiresAt) <= now) {
+        registry.remove("sessions", key);
+        continue;
+      }
+      const open = session.status === "issued" || session.status === "active";
+      if (open && streams.get(streamKey(session.tenantId, session.cameraId))?.status !== "ready") {
+        streamSessions.set(key, { ...session, status: "ended", endedAt: nowIso(), endReason: "stream_not_restored" });
+        persistSession(key);
+      } else {
+        streamSessions.set(key, open ? { ...session, lastSeenAt: nowIso() } : session);
+      }
+      registryRestored.sessions += 1;
+    }
+  };
+
+  await restoreFromRegistry();
+
   app.get("/health", async () => ({
     ok: true,
     streams: streams.size,
@@ -1549,7 +2073,22 @@ export async function buildApp(options: BuildAppOptions = {}) {
     },
     playback: {
       liveEdgeStaleMs: playbackLiveEdgeStaleMs,
-      observedStreams: playbackLiveEdgeLagGauge.size
+      observedStreams: playbackLiveEdgeLagGauge.size,
+      llHls: {
+        partSeconds: llHlsPartSeconds,
+        partsPerSegment: llHlsPartsPerSegment,
+        blockingReloadTimeoutMs: llHlsBlockingReloadTimeoutMs
+      },
+      webrtc: {
+        supported: Boolean(mediaEngine.webrtc),
+        openSessions: whepSessions.size
+      }
+    },
+    registry: {
+      enabled: registry.enabled,
+      path: registry.filePath,
+      restored: registryRestored,
+      ...registry.stats()
     },
     ...(mediaEngine.diagnostics ? { mediaEngineDiagnostics: mediaEngine.diagnostics() } : {})
   }));
@@ -1634,6 +2173,15 @@ export async function buildApp(options: BuildAppOptions = {}) {
       "# HELP nearhome_media_worker_restarts_total Media engine worker restart attempts",
       "# TYPE nearhome_media_worker_restarts_total counter",
       `nearhome_media_worker_restarts_total ${workerStats?.restartsTotal ?? 0}`,
+      "# HELP nearhome_playback_webrtc_sessions Open WHEP (WebRTC) playback sessions",
+      "# TYPE nearhome_playback_webrtc_sessions gauge",
+      `nearhome_playback_webrtc_sessions ${whepSessions.size}`,
+      "# HELP nearhome_playback_webrtc_sessions_created_total WHEP sessions negotiated",
+      "# TYPE nearhome_playback_webrtc_sessions_created_total counter",
+      `nearhome_playback_webrtc_sessions_created_total ${whepSessionsCreatedTotal}`,
+      "# HELP nearhome_playback_webrtc_negotiation_failures_total WHEP offers the media engine rejected or could not answer",
+      "# TYPE nearhome_playback_webrtc_negotiation_failures_total counter",
+      `nearhome_playback_webrtc_negotiation_failures_total ${whepNegotiationFailuresTotal}`,
       "# HELP nearhome_storage_retention_enabled Retention loop enabled flag (1 enabled, 0 disabled)",
       "# TYPE nearhome_storage_retention_enabled gauge",
       `nearhome_storage_retention_enabled ${retentionEnabled ? 1 : 0}`,
@@ -1789,6 +2337,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
     if (body.isDefault || !storageVaultsById.get(storageDefaultVaultId)) {
       storageDefaultVaultId = vault.id;
     }
+    persistStorageSettings();
     const health = await buildVaultHealth(vault);
     storageVaultHealthById.set(vault.id, health);
     return { data: { ...vault, isDefault: storageDefaultVaultId === vault.id, health } };
@@ -1833,6 +2382,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
     if (body.isDefault) {
       storageDefaultVaultId = vaultId;
     }
+    persistStorageSettings();
     const health = await buildVaultHealth(updated);
     storageVaultHealthById.set(vaultId, health);
     return { data: { ...updated, isDefault: storageDefaultVaultId === vaultId, health } };
@@ -1871,6 +2421,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
     for (const [planCode, mappedVaultId] of Object.entries(storagePlanVaultMap)) {
       if (mappedVaultId === vaultId) delete storagePlanVaultMap[planCode];
     }
+    persistStorageSettings();
     return { data: { removed: true, vaultId } };
   });
 
@@ -1902,6 +2453,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
     if (body.defaultVaultId) {
       storageDefaultVaultId = body.defaultVaultId;
     }
+    persistStorageSettings();
     return { data: { defaultVaultId: storageDefaultVaultId, map: storagePlanVaultMap } };
   });
 
@@ -1958,7 +2510,8 @@ export async function buildApp(options: BuildAppOptions = {}) {
       encryption: resolvedEncryption,
       tunnel: resolvedTunnel,
       codecHint: body.codecHint,
-      targetProfiles: body.targetProfiles
+      targetProfiles: body.targetProfiles,
+      playbackFormat: body.playbackFormat ?? "hls_ts"
     };
     const existing = streams.get(key);
 
@@ -1969,6 +2522,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
       existing.source.encryption === source.encryption &&
       existing.source.tunnel === source.tunnel &&
       existing.source.codecHint === source.codecHint &&
+      existing.source.playbackFormat === source.playbackFormat &&
       JSON.stringify(existing.source.targetProfiles) === JSON.stringify(source.targetProfiles) &&
       existing.storage.vaultId === streamStorage.vaultId &&
       existing.storage.retentionDays === streamStorage.retentionDays &&
@@ -2005,6 +2559,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
       transport: source.transport,
       encryption: source.encryption,
       tunnel: source.tunnel,
+      playbackFormat: source.playbackFormat,
       storageDir: observeScratchDir ? observeScratchBaseDir : selectedVault.basePath
     });
 
@@ -2021,6 +2576,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
     };
 
     streams.set(key, ready);
+    persistStream(key);
 
     return {
       data: {
@@ -2047,6 +2603,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
       health: buildHealth("offline", "deprovisioned"),
       updatedAt: nowIso()
     });
+    persistStream(key);
     for (const [sessionKey, session] of streamSessions.entries()) {
       if (
         session.tenantId === body.tenantId &&
@@ -2059,6 +2616,12 @@ export async function buildApp(options: BuildAppOptions = {}) {
           endedAt: nowIso(),
           endReason: "deprovisioned"
         });
+        persistSession(sessionKey);
+      }
+    }
+    for (const whepSession of whepSessions.values()) {
+      if (whepSession.tenantId === body.tenantId && whepSession.cameraId === body.cameraId) {
+        await releaseWhepSession(whepSession, "deprovisioned");
       }
     }
     try {
@@ -2132,6 +2695,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
       createdAt: clip.createdAt
     };
     eventClips.set(eventClipKey(body.tenantId, body.cameraId, eventId), entry);
+    registry.put("clips", eventClipKey(body.tenantId, body.cameraId, eventId), entry);
     eventClipsCreatedTotal += 1;
     eventClipsBytesTotal += entry.clipBytes;
     return {
@@ -2174,9 +2738,208 @@ export async function buildApp(options: BuildAppOptions = {}) {
     };
   });
 
+  app.post("/exports", async (request) => {
+    const body = ExportRequestSchema.parse(request.body);
+    const exportId = `exp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    if (body.eventId) {
+      const clip =
+        eventClips.get(eventClipKey(body.tenantId, body.cameraId, body.eventId)) ??
+        (await loadEventClipFromDisk(body.tenantId, body.cameraId, body.eventId));
+      if (!clip) {
+        throw new ApiDomainError({
+          statusCode: 404,
+          apiCode: "EVENT_CLIP_NOT_FOUND",
+          message: "Event clip does not exist",
+          details: { tenantId: body.tenantId, cameraId: body.cameraId, eventId: body.eventId }
+        });
+      }
+    } else {
+      const fromMs = Date.parse(body.from as string);
+      const toMs = Date.parse(body.to as string);
+      if (fromMs >= toMs || toMs - fromMs > exportMaxRangeMs) {
+        throw new ApiDomainError({
+          statusCode: 400,
+          apiCode: "EXPORT_RANGE_INVALID",
+          message: "Export range is invalid",
+          details: { from: body.from, to: body.to, maxRangeSeconds: exportMaxRangeMs / 1000 }
+        });
+      }
+      const segments = await listRecordedSegments({ tenantId: body.tenantId, cameraId: body.cameraId, fromMs, toMs });
+      if (segments.length === 0) {
+        throw new ApiDomainError({
+          statusCode: 404,
+          apiCode: "PLAYBACK_RECORDING_NOT_FOUND",
+          message: "No recorded segments in requested range",
+          details: { tenantId: body.tenantId, cameraId: body.cameraId, from: body.from, to: body.to }
+        });
+      }
+    }
+    const job: ExportJobEntry = {
+      exportId,
+      tenantId: body.tenantId,
+      cameraId: body.cameraId,
+      source: body.eventId ? "clip" : "range",
+      eventId: body.eventId ?? null,
+      from: body.from ?? null,
+      to: body.to ?? null,
+      status: "queued",
+      strategy: null,
+      filePath: null,
+      sizeBytes: null,
+      durationSeconds: null,
+      error: null,
+      createdAt: nowIso(),
+      completedAt: null
+    };
+    exportJobs.set(exportId, job);
+    persistExport(exportId);
+    // Exports run one at a time so a burst of requests cannot saturate disk and CPU.
+    exportQueue = exportQueue.then(() => runExportJob(job));
+    return { data: job };
+  });
+
+  app.get("/exports", async (request) => {
+    const query = request.query as { tenantId?: string; cameraId?: string };
+    const data = Array.from(exportJobs.values())
+      .filter((job) => (query.tenantId ? job.tenantId === query.tenantId : true))
+      .filter((job) => (query.cameraId ? job.cameraId === query.cameraId : true))
+      .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+    return { data, total: data.length };
+  });
+
+  const getExportJob = (exportId: string) => {
+    const job = exportJobs.get(exportId);
+    if (!job) {
+      throw new ApiDomainError({
+        statusCode: 404,
+        apiCode: "EXPORT_NOT_FOUND",
+        message: "Export does not exist",
+        details: { exportId }
+      });
+    }
+    return job;
+  };
+
+  app.get("/exports/:exportId", async (request) => {
+    const { exportId } = request.params as { exportId: string };
+    return { data: getExportJob(exportId) };
+  });
+
+  app.get("/exports/:exportId/download", async (request, reply) => {
+    const { exportId } = request.params as { exportId: string };
+    const query = request.query as { expires?: string; signature?: string };
+    const expires = Number(query.expires);
+    const expected = Buffer.from(signExportDownload(exportId, expires, streamTokenSecret), "utf8");
+    const provided = Buffer.from(query.signature ?? "", "utf8");
+    if (!Number.isInteger(expires) || expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      throw new ApiDomainError({
+        statusCode: 401,
+        apiCode: "EXPORT_DOWNLOAD_SIGNATURE_INVALID",
+        message: "Export download signature is invalid"
+      });
+    }
+    if (expires <= Math.floor(Date.now() / 1000)) {
+      throw new ApiDomainError({
+        statusCode: 401,
+        apiCode: "EXPORT_DOWNLOAD_EXPIRED",
+        message: "Export download link has expired",
+        details: { exportId, expiredAt: new Date(expires * 1000).toISOString() }
+      });
+    }
+    const job = getExportJob(exportId);
+    if (job.status !== "ready" || !job.filePath) {
+      throw new ApiDomainError({
+        statusCode: 409,
+        apiCode: "EXPORT_NOT_READY",
+        message: "Export is not ready for download",
+        details: { exportId, status: job.status }
+      });
+    }
+    const stat = await fs.stat(job.filePath).catch(() => null);
+    if (!stat) {
+      throw new ApiDomainError({
+        statusCode: 404,
+        apiCode: "EXPORT_NOT_FOUND",
+        message: "Export file is missing",
+        details: { exportId }
+      });
+    }
+    reply.header("content-type", "video/mp4");
+    reply.header("content-length", String(stat.size));
+    reply.header("content-disposition", `attachment; filename="${job.cameraId}-${job.exportId}.mp4"`);
+    return reply.send(createReadStream(job.filePath));
+  });
+
+  const readLiveManifest = async (tenantId: string, cameraId: string) => {
+    try {
+      return await readWithRetry({
+        reader: () => mediaEngine.readManifest({ tenantId, cameraId }),
+        tenantId,
+        cameraId,
+        asset: "manifest"
+      });
+    } catch (error) {
+      if (error instanceof ApiDomainError && error.apiCode === "PLAYBACK_ASSET_TIMEOUT") {
+        throw error;
+      }
+      throw new ApiDomainError({
+        statusCode: 404,
+        apiCode: "PLAYBACK_MANIFEST_NOT_FOUND",
+        message: "Playback manifest is missing",
+        details: { tenantId, cameraId, path: `${tenantId}/${cameraId}/index.m3u8` }
+      });
+    }
+  };
+
+  const readLowLatencyPlaylist = async (tenantId: string, cameraId: string) =>
+    buildLowLatencyPlaylist(await readLiveManifest(tenantId, cameraId), {
+      partsPerSegment: llHlsPartsPerSegment,
+      partTargetSeconds: llHlsPartSeconds
+    });
+
+  /**
+   * LL-HLS blocking playlist reload: holds the request until the playlist contains `_HLS_msn` (and
+   * `_HLS_part` when given), answering 503 once the wait exceeds three target segment durations.
+   */
+  const waitForLowLatencyPlaylist = async (args: { tenantId: string; cameraId: string; msn?: string; part?: string }) => {
+    let playlist = await readLowLatencyPlaylist(args.tenantId, args.cameraId);
+    if (args.msn === undefined || playlist.native) return playlist;
+    const msn = Number(args.msn);
+    const part = args.part === undefined ? undefined : Number(args.part);
+    const lastMsn = playlist.lastPart?.msn ?? playlist.lastCompleteMsn ?? 0;
+    if (!Number.isInteger(msn) || msn < 0 || (part !== undefined && (!Number.isInteger(part) || part < 0)) || msn > lastMsn + 2) {
+      throw new ApiDomainError({
+        statusCode: 400,
+        apiCode: "PLAYBACK_BLOCKING_RELOAD_INVALID",
+        message: "Requested media sequence is invalid or too far ahead of the live edge",
+        details: { msn: args.msn, part: args.part ?? null, lastMsn }
+      });
+    }
+    const deadline = Date.now() + llHlsBlockingReloadTimeoutMs;
+    while (!hasPlaylistReached(playlist, msn, part)) {
+      if (Date.now() >= deadline) {
+        throw new ApiDomainError({
+          statusCode: 503,
+          apiCode: "PLAYBACK_BLOCKING_RELOAD_TIMEOUT",
+          message: "Requested part was not produced in time",
+          details: {
+            tenantId: args.tenantId,
+            cameraId: args.cameraId,
+            msn,
+            part: part ?? null,
+            timeoutMs: llHlsBlockingReloadTimeoutMs
+          }
+        });
+      }
+      await sleep(Math.max(20, Math.min(100, (llHlsPartSeconds * 1000) / 4)));
+      playlist = await readLowLatencyPlaylist(args.tenantId, args.cameraId);
+    }
+    return playlist;
+  };
+
   app.get("/playback/:tenantId/:cameraId/index.m3u8", async (request, reply) => {
     const { tenantId, cameraId } = request.params as { tenantId: string; cameraId: string };
-    const query = request.query as { token?: string };
+    const query = request.query as { token?: string; _HLS_msn?: string; _HLS_part?: string };
     return withPlaybackMetrics({
       tenantId,
       cameraId,
@@ -2190,26 +2953,16 @@ export async function buildApp(options: BuildAppOptions = {}) {
         upsertActiveSession({ tenantId, cameraId, sid: parsed.sid, sub: parsed.sub, exp: parsed.exp, iat: parsed.iat });
 
         let manifest: string;
-        try {
-          manifest = await readWithRetry({
-            reader: () => mediaEngine.readManifest({ tenantId, cameraId }),
-            tenantId,
-            cameraId,
-            asset: "manifest"
-          });
-        } catch (error) {
-          if (error instanceof ApiDomainError && error.apiCode === "PLAYBACK_ASSET_TIMEOUT") {
-            throw error;
-          }
-          throw new ApiDomainError({
-            statusCode: 404,
-            apiCode: "PLAYBACK_MANIFEST_NOT_FOUND",
-            message: "Playback manifest is missing",
-            details: { tenantId, cameraId, path: `${tenantId}/${cameraId}/index.m3u8` }
-          });
+        if (entry.source.playbackFormat === "ll_hls_cmaf") {
+          const playlist = await waitForLowLatencyPlaylist({ tenantId, cameraId, msn: query._HLS_msn, part: query._HLS_part });
+          manifest = playlist.playlist;
+          // Parts move the live edge forward between segments, so it is measured at the end of the last part.
+          updateLiveEdgeMetrics(tenantId, cameraId, playlist.native ? extractLatestProgramDateTimeMs(manifest) : playlist.liveEdgeMs);
+        } else {
+          manifest = await readLiveManifest(tenantId, cameraId);
+          const latestProgramDateTimeMs = extractLatestProgramDateTimeMs(manifest);
+          updateLiveEdgeMetrics(tenantId, cameraId, latestProgramDateTimeMs);
         }
-        const latestProgramDateTimeMs = extractLatestProgramDateTimeMs(manifest);
-        updateLiveEdgeMetrics(tenantId, cameraId, latestProgramDateTimeMs);
         const patchedManifest = rewriteManifestSegmentUris(manifest, tenantId, cameraId, query.token as string);
 
         reply.header("content-type", "application/vnd.apple.mpegurl");
@@ -2233,14 +2986,34 @@ export async function buildApp(options: BuildAppOptions = {}) {
         assertStreamReady(entry, tenantId, cameraId);
         upsertActiveSession({ tenantId, cameraId, sid: parsed.sid, sub: parsed.sub, exp: parsed.exp, iat: parsed.iat });
 
+        const lowLatency = entry.source.playbackFormat === "ll_hls_cmaf";
+        const virtualSegmentMsn = lowLatency ? parseVirtualSegmentName(segmentName) : null;
         let segment: Buffer;
         try {
-          segment = await readWithRetry({
-            reader: () => mediaEngine.readSegment({ tenantId, cameraId }, segmentName),
-            tenantId,
-            cameraId,
-            asset: "segment"
-          });
+          if (virtualSegmentMsn !== null) {
+            // Full LL-HLS segments are the concatenation of their CMAF parts (moof/mdat pairs).
+            const parts = (await readLowLatencyPlaylist(tenantId, cameraId)).segments.get(virtualSegmentMsn);
+            if (!parts) throw Object.assign(new Error("segment outside playlist window"), { code: "ENOENT" });
+            const payloads: Buffer[] = [];
+            for (const part of parts) {
+              payloads.push(
+                await readWithRetry({
+                  reader: () => mediaEngine.readSegment({ tenantId, cameraId }, part),
+                  tenantId,
+                  cameraId,
+                  asset: "segment"
+                })
+              );
+            }
+            segment = Buffer.concat(payloads);
+          } else {
+            segment = await readWithRetry({
+              reader: () => mediaEngine.readSegment({ tenantId, cameraId }, segmentName),
+              tenantId,
+              cameraId,
+              asset: "segment"
+            });
+          }
         } catch (error) {
           if (error instanceof ApiDomainError && error.apiCode === "PLAYBACK_ASSET_TIMEOUT") {
             throw error;
@@ -2252,7 +3025,7 @@ export async function buildApp(options: BuildAppOptions = {}) {
             details: { tenantId, cameraId, path: `${tenantId}/${cameraId}/${segmentName}` }
           });
         }
-        reply.header("content-type", "video/MP2T");
+        reply.header("content-type", playbackSegmentContentType(segmentName));
         return reply.send(segment);
       }
     });
@@ -2267,6 +3040,202 @@ export async function buildApp(options: BuildAppOptions = {}) {
     return servePlaybackSegment(request, reply, "segment0.ts");
   });
 
+  app.addContentTypeParser(
+    ["application/sdp", "application/trickle-ice-sdpfrag"],
+    { parseAs: "string" },
+    (_request, body, done) => done(null, body)
+  );
+
+  // WHEP clients send the stream token as a bearer credential; `?token=` is accepted like the HLS routes.
+  const readWhepToken = (request: { headers: Record<string, unknown>; query: unknown }) => {
+    const authorization = request.headers.authorization;
+    if (typeof authorization === "string" && authorization.startsWith("Bearer ")) {
+      return authorization.slice("Bearer ".length).trim();
+    }
+    return (request.query as { token?: string }).token;
+  };
+
+  app.post("/playback/:tenantId/:cameraId/whep", async (request, reply) => {
+    const { tenantId, cameraId } = request.params as { tenantId: string; cameraId: string };
+    return withPlaybackMetrics({
+      tenantId,
+      cameraId,
+      asset: "webrtc",
+      handler: async () => {
+        const parsed = parseAndValidatePlaybackToken({ token: readWhepToken(request), tenantId, cameraId });
+        const entry = streams.get(streamKey(tenantId, cameraId));
+        assertStreamReady(entry, tenantId, cameraId);
+        if (!mediaEngine.webrtc) {
+          throw new ApiDomainError({
+            statusCode: 501,
+            apiCode: "PLAYBACK_WEBRTC_UNSUPPORTED",
+            message: "Media engine does not support WebRTC playback",
+            details: { mediaEngine: mediaEngine.name }
+          });
+        }
+        const offer = typeof request.body === "string" ? request.body : "";
+        if (!offer.startsWith("v=0")) {
+          throw new ApiDomainError({
+            statusCode: 400,
+            apiCode: "PLAYBACK_WEBRTC_OFFER_INVALID",
+            message: "Request body must be an SDP offer (application/sdp)",
+            details: { contentType: request.headers["content-type"] ?? null }
+          });
+        }
+        upsertActiveSession({ tenantId, cameraId, sid: parsed.sid, sub: parsed.sub, exp: parsed.exp, iat: parsed.iat });
+
+        let answer: Awaited<ReturnType<NonNullable<MediaEngine["webrtc"]>["createWhepSession"]>>;
+        try {
+          answer = await mediaEngine.webrtc.createWhepSession({ tenantId, cameraId }, offer);
+        } catch (error) {
+          whepNegotiationFailuresTotal += 1;
+          const rejectedOffer = error instanceof WebRtcNegotiationError && error.statusCode === 400;
+          throw new ApiDomainError({
+            statusCode: rejectedOffer ? 400 : 502,
+            apiCode: rejectedOffer ? "PLAYBACK_WEBRTC_OFFER_INVALID" : "PLAYBACK_WEBRTC_NEGOTIATION_FAILED",
+            message: error instanceof Error ? error.message : "WebRTC negotiation failed",
+            details: { tenantId, cameraId }
+          });
+        }
+        const whepSessionId = `whep-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        whepSessions.set(whepSessionId, {
+          whepSessionId,
+          tenantId,
+          cameraId,
+          sid: parsed.sid,
+          resourceId: answer.resourceId,
+          createdAt: nowIso()
+        });
+        whepSessionsCreatedTotal += 1;
+
+        reply.code(201);
+        reply.header("content-type", "application/sdp");
+        reply.header("location", `/playback/${tenantId}/${cameraId}/whep/${whepSessionId}`);
+        return answer.sdp;
+      }
+    });
+  });
+
+  const findWhepSession = (request: { params: unknown; headers: Record<string, unknown>; query: unknown }) => {
+    const { tenantId, cameraId, whepSessionId } = request.params as { tenantId: string; cameraId: string; whepSessionId: string };
+    const parsed = parseAndValidatePlaybackToken({ token: readWhepToken(request), tenantId, cameraId });
+    const whepSession = whepSessions.get(whepSessionId);
+    // Only the token that opened the session can touch it.
+    const owned =
+      whepSession && whepSession.tenantId === tenantId && whepSession.cameraId === cameraId && whepSession.sid === parsed.sid;
+    if (!whepSession || !owned) {
+      throw new ApiDomainError({
+        statusCode: 404,
+        apiCode: "PLAYBACK_WEBRTC_SESSION_NOT_FOUND",
+        message: "WHEP session does not exist",
+        details: { tenantId, cameraId, whepSessionId }
+      });
+    }
+    return whepSession;
+  };
+
+  app.patch("/playback/:tenantId/:cameraId/whep/:whepSessionId", async (request) => {
+    findWhepSession(request);
+    // Offers are expected to carry all ICE candidates; trickle ICE and ICE restarts are not supported.
+    throw new ApiDomainError({
+      statusCode: 405,
+      apiCode: "PLAYBACK_WEBRTC_TRICKLE_UNSUPPORTED",
+      message: "Trickle ICE is not supported; send a complete offer instead",
+      details: {}
+    });
+  });
+
+  app.delete("/playback/:tenantId/:cameraId/whep/:whepSessionId", async (request) => {
+    const whepSession = findWhepSession(request);
+    await releaseWhepSession(whepSession, "client_closed");
+    return { data: { whepSessionId: whepSession.whepSessionId, closed: true } };
+  });
+
+  app.get("/playback/:tenantId/:cameraId/vod.m3u8", async (request, reply) => {
+    const { tenantId, cameraId } = request.params as { tenantId: string; cameraId: string };
+    const query = request.query as { token?: string; from?: string; to?: string };
+    return withPlaybackMetrics({
+      tenantId,
+      cameraId,
+      asset: "manifest",
+      handler: async () => {
+        const parsed = parseAndValidatePlaybackToken({ token: query.token, tenantId, cameraId, recorded: true });
+        const tokenRange = parsed.range as { from: number; to: number };
+        const fromMs = query.from ? Date.parse(query.from) : tokenRange.from * 1000;
+        const toMs = query.to ? Date.parse(query.to) : tokenRange.to * 1000;
+        if (Number.isNaN(fromMs) || Number.isNaN(toMs) || fromMs >= toMs || toMs - fromMs > recordedMaxRangeMs) {
+          throw new ApiDomainError({
+            statusCode: 400,
+            apiCode: "PLAYBACK_RANGE_INVALID",
+            message: "Requested range is invalid",
+            details: { from: query.from ?? null, to: query.to ?? null, maxRangeSeconds: recordedMaxRangeMs / 1000 }
+          });
+        }
+        if (fromMs < tokenRange.from * 1000 || toMs > tokenRange.to * 1000) {
+          throw new ApiDomainError({
+            statusCode: 403,
+            apiCode: "PLAYBACK_TOKEN_RANGE_EXCEEDED",
+            message: "Requested range is outside the playback token range",
+            details: {
+              from: new Date(fromMs).toISOString(),
+              to: new Date(toMs).toISOString(),
+              tokenFrom: new Date(tokenRange.from * 1000).toISOString(),
+              tokenTo: new Date(tokenRange.to * 1000).toISOString()
+            }
+          });
+        }
+        const segments = await listRecordedSegments({ tenantId, cameraId, fromMs, toMs });
+        if (segments.length === 0) {
+          throw new ApiDomainError({
+            statusCode: 404,
+            apiCode: "PLAYBACK_RECORDING_NOT_FOUND",
+            message: "No recorded segments in requested range",
+            details: { tenantId, cameraId, from: new Date(fromMs).toISOString(), to: new Date(toMs).toISOString() }
+          });
+        }
+        upsertActiveSession({ tenantId, cameraId, sid: parsed.sid, sub: parsed.sub, exp: parsed.exp, iat: parsed.iat });
+        const tokenQuery = `?token=${encodeURIComponent(query.token as string)}`;
+        reply.header("content-type", "application/vnd.apple.mpegurl");
+        return buildRecordedPlaylist(
+          segments,
+          (name) => `/playback/${tenantId}/${cameraId}/vod/segments/${encodeURIComponent(name)}${tokenQuery}`
+        );
+      }
+    });
+  });
+
+  app.get("/playback/:tenantId/:cameraId/vod/segments/:segmentName", async (request, reply) => {
+    const { tenantId, cameraId, segmentName } = request.params as { tenantId: string; cameraId: string; segmentName: string };
+    const query = request.query as { token?: string };
+    return withPlaybackMetrics<unknown>({
+      tenantId,
+      cameraId,
+      asset: "segment",
+      handler: async () => {
+        const parsed = parseAndValidatePlaybackToken({ token: query.token, tenantId, cameraId, recorded: true });
+        const tokenRange = parsed.range as { from: number; to: number };
+        // Only segments inside the token range are reachable, so a range token cannot read the rest of the archive.
+        const name = decodeURIComponent(segmentName);
+        const segment = await findRecordedSegment({ tenantId, cameraId, name, fromMs: tokenRange.from * 1000, toMs: tokenRange.to * 1000 });
+        let payload: Buffer | null = null;
+        if (segment) {
+          payload = await fs.readFile(segment.filePath).catch(() => null);
+        }
+        if (!payload) {
+          throw new ApiDomainError({
+            statusCode: 404,
+            apiCode: "PLAYBACK_SEGMENT_NOT_FOUND",
+            message: "Recorded segment is missing or outside the token range",
+            details: { tenantId, cameraId, path: `${tenantId}/${cameraId}/${name}` }
+          });
+        }
+        upsertActiveSession({ tenantId, cameraId, sid: parsed.sid, sub: parsed.sub, exp: parsed.exp, iat: parsed.iat });
+        reply.header("content-type", path.extname(name).toLowerCase() === ".ts" ? "video/MP2T" : "video/mp4");
+        return reply.send(payload);
+      }
+    });
+  });
+
   app.get("/playback/events/:tenantId/:cameraId/:eventId/index.m3u8", async (request, reply) => {
     const { tenantId, cameraId, eventId } = request.params as { tenantId: string; cameraId: string; eventId: string };
     const query = request.query as { token?: string };
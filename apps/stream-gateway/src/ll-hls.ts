@@ -0,0 +1,168 @@
+export type LowLatencyPlaylistOptions = {
+  partsPerSegment: number;
+  partTargetSeconds: number;
+  // Complete segments (counted from the live edge) that still list their parts.
+  partWindowSegments?: number;
+};
+
+export type LowLatencyPlaylist = {
+  playlist: string;
+  // The producer already writes LL-HLS (e.g. MediaMTX); the playlist is passed through untouched.
+  native: boolean;
+  segments: Map<number, string[]>;
+  lastCompleteMsn: number | null;
+  lastPart: { msn: number; part: number } | null;
+  liveEdgeMs: number | null;
+};
+
+type SourcePart = {
+  uri: string;
+  sequence: number;
+  durationSeconds: number;
+  programDateTimeMs: number | null;
+};
+
+const VIRTUAL_SEGMENT_PATTERN = /^segment(\d+)\.m4s$/;
+
+export function virtualSegmentName(msn: number) {
+  return `segment${msn}.m4s`;
+}
+
+export function parseVirtualSegmentName(name: string) {
+  const match = VIRTUAL_SEGMENT_PATTERN.exec(name);
+  return match ? Number(match[1]) : null;
+}
+
+function parseSourcePlaylist(source: string) {
+  const parts: SourcePart[] = [];
+  let mediaSequence = 0;
+  let mapUri: string | null = null;
+  let pendingDuration: number | null = null;
+  let pendingProgramDateTimeMs: number | null = null;
+  for (const line of source.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (trimmed.startsWith("#EXT-X-MEDIA-SEQUENCE:")) {
+      mediaSequence = Number(trimmed.slice("#EXT-X-MEDIA-SEQUENCE:".length)) || 0;
+    } else if (trimmed.startsWith("#EXT-X-MAP:")) {
+      mapUri = /URI="([^"]+)"/.exec(trimmed)?.[1] ?? null;
+    } else if (trimmed.startsWith("#EXT-X-PROGRAM-DATE-TIME:")) {
+      const value = Date.parse(trimmed.slice("#EXT-X-PROGRAM-DATE-TIME:".length).trim());
+      pendingProgramDateTimeMs = Number.isNaN(value) ? null : value;
+    } else if (trimmed.startsWith("#EXTINF:")) {
+      pendingDuration = Number.parseFloat(trimmed.slice("#EXTINF:".length));
+    } else if (!trimmed.startsWith("#")) {
+      const previous = parts[parts.length - 1];
+      const inferredProgramDateTimeMs =
+        previous?.programDateTimeMs != null ? previous.programDateTimeMs + previous.durationSeconds * 1000 : null;
+      parts.push({
+        uri: trimmed,
+        sequence: mediaSequence + parts.length,
+        durationSeconds: pendingDuration !== null && Number.isFinite(pendingDuration) ? pendingDuration : 0,
+        programDateTimeMs: pendingProgramDateTimeMs ?? inferredProgramDateTimeMs
+      });
+      pendingDuration = null;
+      pendingProgramDateTimeMs = null;
+    }
+  }
+  return { parts, mapUri };
+}
+
+// The producer numbers part files by sequence (`part<N>.m4s`), so the next part is the last name plus one.
+function nextPartUri(uri: string) {
+  const match = /^(.*?)(\d+)(\.[A-Za-z0-9]+)$/.exec(uri);
+  if (!match) return null;
+  return `${match[1]}${Number(match[2]) + 1}${match[3]}`;
+}
+
+/**
+ * Builds an LL-HLS media playlist from a producer playlist whose entries are CMAF parts (ffmpeg cannot
+ * write EXT-X-PART itself). Every `partsPerSegment` parts, aligned on the media sequence, form one
+ * segment served as `segment<msn>.m4s`; parts of the segment still being written are listed alone and
+ * the next part is announced with EXT-X-PRELOAD-HINT.
+ */
+export function buildLowLatencyPlaylist(source: string, options: LowLatencyPlaylistOptions): LowLatencyPlaylist {
+  if (source.includes("#EXT-X-PART-INF")) {
+    return { playlist: source, native: true, segments: new Map(), lastCompleteMsn: null, lastPart: null, liveEdgeMs: null };
+  }
+  const partsPerSegment = Math.max(1, Math.floor(options.partsPerSegment));
+  const partWindowSegments = Math.max(1, options.partWindowSegments ?? 2);
+  const { parts, mapUri } = parseSourcePlaylist(source);
+
+  const groups: Array<{ msn: number; parts: SourcePart[] }> = [];
+  for (const part of parts) {
+    const msn = Math.floor(part.sequence / partsPerSegment);
+    const current = groups[groups.length - 1];
+    if (current && current.msn === msn) {
+      current.parts.push(part);
+    } else {
+      groups.push({ msn, parts: [part] });
+    }
+  }
+  // Older parts of the first segment were already deleted by the muxer, so it cannot be served whole.
+  if (groups.length > 0 && groups[0].parts[0].sequence % partsPerSegment !== 0) {
+    groups.shift();
+  }
+  const trailing = groups.length > 0 && groups[groups.length - 1].parts.length < partsPerSegment ? groups.pop() ?? null : null;
+
+  const partTarget = Math.max(options.partTargetSeconds, ...parts.map((part) => part.durationSeconds));
+  const segmentDuration = (group: { parts: SourcePart[] }) =>
+    group.parts.reduce((total, part) => total + part.durationSeconds, 0);
+  const targetDuration = Math.max(1, Math.ceil(Math.max(partTarget * partsPerSegment, ...groups.map(segmentDuration))));
+  const firstMsn = groups[0]?.msn ?? trailing?.msn ?? 0;
+
+  const lines = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:6",
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    `#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=${(partTarget * 3).toFixed(3)}`,
+    `#EXT-X-PART-INF:PART-TARGET=${partTarget.toFixed(3)}`,
+    `#EXT-X-MEDIA-SEQUENCE:${firstMsn}`
+  ];
+  if (mapUri) lines.push(`#EXT-X-MAP:URI="${mapUri}"`);
+  const pushParts = (group: { parts: SourcePart[] }) => {
+    for (const part of group.parts) {
+      lines.push(`#EXT-X-PART:DURATION=${part.durationSeconds.toFixed(3)},URI="${part.uri}"`);
+    }
+  };
+  const pushProgramDateTime = (group: { parts: SourcePart[] }) => {
+    const programDateTimeMs = group.parts[0].programDateTimeMs;
+    if (programDateTimeMs !== null) lines.push(`#EXT-X-PROGRAM-DATE-TIME:${new Date(programDateTimeMs).toISOString()}`);
+  };
+
+  const segments = new Map<number, string[]>();
+  groups.forEach((group, index) => {
+    pushProgramDateTime(group);
+    if (index >= groups.length - partWindowSegments) pushParts(group);
+    lines.push(`#EXTINF:${segmentDuration(group).toFixed(3)},`, virtualSegmentName(group.msn));
+    segments.set(group.msn, group.parts.map((part) => part.uri));
+  });
+  if (trailing) {
+    pushProgramDateTime(trailing);
+    pushParts(trailing);
+  }
+  const lastPart = parts[parts.length - 1];
+  const hint = lastPart ? nextPartUri(lastPart.uri) : null;
+  if (hint) lines.push(`#EXT-X-PRELOAD-HINT:TYPE=PART,URI="${hint}"`);
+
+  const lastGroup = trailing ?? groups[groups.length - 1];
+  return {
+    playlist: lines.join("\n"),
+    native: false,
+    segments,
+    lastCompleteMsn: groups.length > 0 ? groups[groups.length - 1].msn : null,
+    lastPart: lastGroup ? { msn: lastGroup.msn, part: lastGroup.parts.length - 1 } : null,
+    liveEdgeMs:
+      lastPart && lastPart.programDateTimeMs !== null ? lastPart.programDateTimeMs + lastPart.durationSeconds * 1000 : null
+  };
+}
+
+// Blocking playlist reload: `_HLS_msn` alone waits for the whole segment, `_HLS_part` for that part of it.
+export function hasPlaylistReached(playlist: LowLatencyPlaylist, msn: number, part?: number) {
+  if (part === undefined) {
+    return playlist.lastCompleteMsn !== null && playlist.lastCompleteMsn >= msn;
+  }
+  const last = playlist.lastPart;
+  if (!last) return false;
+  return last.msn > msn || (last.msn === msn && last.part >= part);
+}
@@ -2,6 +2,8 @@ import { promises as fs } from "node:fs";
 import { spawn } from "node:child_process";
 import path from "node:path";
 
+export type PlaybackFormat = "hls_ts" | "ll_hls_cmaf";
+
 export type StreamMediaInput = {
   tenantId: string;
   cameraId: string;
@@ -10,6 +12,7 @@ export type StreamMediaInput = {
   transport: "auto" | "tcp" | "udp";
   encryption: "optional" | "required" | "disabled";
   tunnel: "none" | "http" | "https" | "ws" | "wss" | "auto";
+  playbackFormat?: PlaybackFormat;
 };
 
 export type StreamMediaScope = {
@@ -17,6 +20,21 @@ export type StreamMediaScope = {
   cameraId: string;
 };
 
+export type WhepAnswer = {
+  sdp: string;
+  // Engine-side session resource (e.g. the MediaMTX WHEP Location URL), needed to tear the session down.
+  resourceId: string;
+};
+
+export class WebRtcNegotiationError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number
+  ) {
+    super(message);
+  }
+}
+
 export type MediaEngine = {
   name: string;
   provisionStream(input: StreamMediaInput): Promise<void>;
@@ -24,6 +42,11 @@ export type MediaEngine = {
   readManifest(scope: StreamMediaScope): Promise<string>;
   readSegment(scope: StreamMediaScope, segmentName?: string): Promise<Buffer>;
   close(): Promise<void>;
+  // WebRTC egress (WHEP). Engines without a WebRTC server leave it undefined and playback stays on HLS.
+  webrtc?: {
+    createWhepSession(scope: StreamMediaScope, offerSdp: string): Promise<WhepAnswer>;
+    deleteWhepSession(scope: StreamMediaScope, resourceId: string): Promise<void>;
+  };
   diagnostics?: () => {
     workers?: {
       total: number;
@@ -49,11 +72,54 @@ function cameraDir(storageDir: string, tenantId: string, cameraId: string) {
   return path.join(storageDir, tenantId, cameraId);
 }
 
+// CMAF live output (init segment, parts and their playlist) lives apart from the recorded TS segments,
+// so recorded playback, clips and exports keep reading MPEG-TS from the camera directory.
+const LL_HLS_DIR = "ll-hls";
+
+function playbackDir(storageDir: string, scope: StreamMediaScope, format: PlaybackFormat = "hls_ts") {
+  const dir = cameraDir(storageDir, scope.tenantId, scope.cameraId);
+  return format === "ll_hls_cmaf" ? path.join(dir, LL_HLS_DIR) : dir;
+}
+
 function streamKey(scope: StreamMediaScope) {
   return `${scope.tenantId}:${scope.cameraId}`;
 }
 
-async function ensurePlaybackAssets(storageDir: string, scope: StreamMediaScope) {
+function llHlsPartSeconds() {
+  return Math.max(0.1, Number(process.env.STREAM_LLHLS_PART_SECONDS ?? 0.5));
+}
+
+function llHlsPartsPerSegment() {
+  return Math.max(1, Math.floor(Number(process.env.STREAM_LLHLS_PARTS_PER_SEGMENT ?? 4)));
+}
+
+async function ensureLowLatencyPlaybackAssets(storageDir: string, scope: StreamMediaScope) {
+  const dir = playbackDir(storageDir, scope, "ll_hls_cmaf");
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, "init.mp4"), Buffer.from("NEARHOME_CMAF_INIT"));
+
+  const partSeconds = 0.5;
+  const partCount = 6;
+  const lines = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:7",
+    "#EXT-X-TARGETDURATION:1",
+    "#EXT-X-MEDIA-SEQUENCE:0",
+    '#EXT-X-MAP:URI="init.mp4"',
+    `#EXT-X-PROGRAM-DATE-TIME:${new Date(Date.now() - partCount * partSeconds * 1000).toISOString()}`
+  ];
+  for (let index = 0; index < partCount; index += 1) {
+    await fs.writeFile(path.join(dir, `part${index}.m4s`), Buffer.from(`NEARHOME_CMAF_PART_${index}`));
+    lines.push(`#EXTINF:${partSeconds.toFixed(3)},`, `part${index}.m4s`);
+  }
+  await fs.writeFile(path.join(dir, "index.m3u8"), lines.join("\n"), "utf8");
+}
+
+async function ensurePlaybackAssets(storageDir: string, scope: StreamMediaScope, format: PlaybackFormat = "hls_ts") {
+  if (format === "ll_hls_cmaf") {
+    await ensureLowLatencyPlaybackAssets(storageDir, scope);
+    return;
+  }
   const dir = cameraDir(storageDir, scope.tenantId, scope.cameraId);
   await fs.mkdir(dir, { recursive: true });
 
@@ -75,33 +141,36 @@ async function ensurePlaybackAssets(storageDir: string, scope: StreamMediaScope)
   await fs.writeFile(playlistPath, manifest, "utf8");
 }
 
-async function ensureCameraStorageDir(storageDir: string, scope: StreamMediaScope) {
-  await fs.mkdir(cameraDir(storageDir, scope.tenantId, scope.cameraId), { recursive: true });
+async function ensureCameraStorageDir(storageDir: string, scope: StreamMediaScope, format: PlaybackFormat = "hls_ts") {
+  await fs.mkdir(playbackDir(storageDir, scope, format), { recursive: true });
 }
 
-async function readManifestFile(storageDir: string, scope: StreamMediaScope) {
-  const playlistPath = path.join(cameraDir(storageDir, scope.tenantId, scope.cameraId), "index.m3u8");
+async function readManifestFile(storageDir: string, scope: StreamMediaScope, format?: PlaybackFormat) {
+  const playlistPath = path.join(playbackDir(storageDir, scope, format), "index.m3u8");
   return fs.readFile(playlistPath, "utf8");
 }
 
-async function readSegmentFile(storageDir: string, scope: StreamMediaScope, segmentName = "segment0.ts") {
-  const segmentPath = path.join(cameraDir(storageDir, scope.tenantId, scope.cameraId), segmentName);
+async function readSegmentFile(storageDir: string, scope: StreamMediaScope, segmentName = "segment0.ts", format?: PlaybackFormat) {
+  const segmentPath = path.join(playbackDir(storageDir, scope, format), segmentName);
   return fs.readFile(segmentPath);
 }
 
 export function createMockMediaEngine(storageDir: string): MediaEngine {
   const streamStorageDirs = new Map<string, string>();
+  const streamFormats = new Map<string, PlaybackFormat>();
 
   const provisionStream = async (input: StreamMediaInput) => {
     const scope = { tenantId: input.tenantId, cameraId: input.cameraId };
     const resolvedStorageDir = input.storageDir ?? storageDir;
     streamStorageDirs.set(streamKey(scope), resolvedStorageDir);
-    await ensurePlaybackAssets(resolvedStorageDir, scope);
+    streamFormats.set(streamKey(scope), input.playbackFormat ?? "hls_ts");
+    await ensurePlaybackAssets(resolvedStorageDir, scope, input.playbackFormat);
   };
 
   const deprovisionStream = async (scope: StreamMediaScope) => {
     // Mock engine keeps files on disk; stream state is enforced in memory by app layer.
     streamStorageDirs.delete(streamKey(scope));
+    streamFormats.delete(streamKey(scope));
   };
 
   const resolveStorageDir = (scope: StreamMediaScope) => streamStorageDirs.get(streamKey(scope)) ?? storageDir;
@@ -110,8 +179,9 @@ export function createMockMediaEngine(storageDir: string): MediaEngine {
     name: "mock-filesystem",
     provisionStream,
     deprovisionStream,
-    readManifest: (scope) => readManifestFile(resolveStorageDir(scope), scope),
-    readSegment: (scope, segmentName) => readSegmentFile(resolveStorageDir(scope), scope, segmentName),
+    readManifest: (scope) => readManifestFile(resolveStorageDir(scope), scope, streamFormats.get(streamKey(scope))),
+    readSegment: (scope, segmentName) =>
+      readSegmentFile(resolveStorageDir(scope), scope, segmentName, streamFormats.get(streamKey(scope))),
     close: async () => {}
   };
 }
@@ -158,7 +228,8 @@ function renderCommandTemplate(template: string, input: StreamMediaInput) {
     .replaceAll("{{rtspUrl}}", input.rtspUrl)
     .replaceAll("{{transport}}", input.transport)
     .replaceAll("{{encryption}}", input.encryption)
-    .replaceAll("{{tunnel}}", input.tunnel);
+    .replaceAll("{{tunnel}}", input.tunnel)
+    .replaceAll("{{playbackFormat}}", input.playbackFormat ?? "hls_ts");
 }
 
 function shellQuote(value: string) {
@@ -169,6 +240,22 @@ function yamlDoubleQuoted(value: string) {
   return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
 }
 
+// CMAF parts as fMP4 HLS entries; the gateway groups them into LL-HLS segments when serving the playlist.
+function ffmpegLowLatencyHlsOptions(input: StreamMediaInput, storageDir: string) {
+  const outDir = playbackDir(storageDir, input, "ll_hls_cmaf");
+  return {
+    playlist: path.join(outDir, "index.m3u8"),
+    options: [
+      ["hls_time", `${llHlsPartSeconds()}`],
+      ["hls_list_size", `${llHlsPartsPerSegment() * 6}`],
+      ["hls_segment_type", "fmp4"],
+      ["hls_fmp4_init_filename", "init.mp4"],
+      ["hls_flags", "append_list+delete_segments+omit_endlist+program_date_time+split_by_time"],
+      ["hls_segment_filename", path.join(outDir, "part%d.m4s")]
+    ]
+  };
+}
+
 function buildFfmpegHlsCommand(input: StreamMediaInput, storageDir: string) {
   const outDir = cameraDir(storageDir, input.tenantId, input.cameraId);
   const playlist = path.join(outDir, "index.m3u8");
@@ -181,6 +268,20 @@ function buildFfmpegHlsCommand(input: StreamMediaInput, storageDir: string) {
   const videoArgs = isLavfi
     ? ["-c:v", "mpeg2video", "-q:v", "4", "-pix_fmt", "yuv420p"]
     : ["-c:v", "copy"];
+  if (input.playbackFormat === "ll_hls_cmaf") {
+    // Browsers only play H.264 from CMAF parts, so the lavfi test source is encoded with libx264 instead of MPEG-2.
+    const lowLatency = ffmpegLowLatencyHlsOptions(input, storageDir);
+    return [
+      "ffmpeg",
+      ...inputArgs,
+      "-an",
+      ...(isLavfi ? ["-c:v", "libx264", "-preset", "veryfast", "-tune", "zerolatency", "-pix_fmt", "yuv420p"] : videoArgs),
+      "-f",
+      "hls",
+      ...lowLatency.options.flatMap(([name, value]) => [`-${name}`, name === "hls_segment_filename" ? `"${value}"` : value]),
+      `"${lowLatency.playlist}"`
+    ].join(" ");
+  }
   return [
     "ffmpeg",
     ...inputArgs,
@@ -249,8 +350,7 @@ function buildFfmpegHlsRetentionCommand(input: StreamMediaInput, storageDir: str
           `${bufferKbps}k`
         ]
       : ["-c:v", "copy"];
-  return [
-    "ffmpeg",
+  const lowLatencyInputArgs = [
     "-fflags",
     "nobuffer",
     "-flags",
@@ -261,7 +361,33 @@ function buildFfmpegHlsRetentionCommand(input: StreamMediaInput, storageDir: str
     "0",
     ...inputArgs,
     "-an",
-    ...videoArgs,
+    ...videoArgs
+  ];
+  if (input.playbackFormat === "ll_hls_cmaf") {
+    // One encode feeds both muxers through tee: TS segments keep the recording, CMAF parts serve live.
+    const lowLatency = ffmpegLowLatencyHlsOptions(input, storageDir);
+    const recordingOptions = [
+      ["hls_time", `${segmentSeconds}`],
+      ["hls_list_size", `${liveListSize}`],
+      ["hls_flags", "append_list+delete_segments+omit_endlist+program_date_time+split_by_time"],
+      ["strftime", "1"],
+      ["hls_segment_filename", segmentPattern]
+    ];
+    const teeOutput = (options: string[][], target: string) =>
+      `[f=hls:${options.map(([name, value]) => `${name}=${value}`).join(":")}]${target}`;
+    return [
+      "ffmpeg",
+      ...lowLatencyInputArgs,
+      "-map",
+      "0:v",
+      "-f",
+      "tee",
+      `"${teeOutput(recordingOptions, playlist)}|${teeOutput(lowLatency.options, lowLatency.playlist)}"`
+    ].join(" ");
+  }
+  return [
+    "ffmpeg",
+    ...lowLatencyInputArgs,
     "-f",
     "hls",
     "-hls_time",
@@ -292,8 +418,12 @@ function mapMediaMtxSourceProtocol(transport: StreamMediaInput["transport"]) {
   return "automatic";
 }
 
+function mediaMtxStreamName(scope: StreamMediaScope) {
+  return `${scope.tenantId}_${scope.cameraId}`.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
 function buildMediaMtxPullCommand(input: StreamMediaInput, storageDir: string) {
-  const streamName = `${input.tenantId}_${input.cameraId}`.replace(/[^a-zA-Z0-9_-]/g, "_");
+  const streamName = mediaMtxStreamName(input);
   const streamDir = cameraDir(storageDir, input.tenantId, input.cameraId);
   const configPath = path.join(streamDir, "mediamtx.generated.yml");
   const sourceUrl = normalizeRtspUrlForEncryption(input.rtspUrl, input.encryption);
@@ -302,12 +432,23 @@ function buildMediaMtxPullCommand(input: StreamMediaInput, storageDir: string) {
   const writeTimeout = process.env.STREAM_MEDIAMTX_WRITE_TIMEOUT ?? "10s";
   const mediamtxBin = process.env.STREAM_MEDIAMTX_BIN ?? "mediamtx";
   const mediamtxArgs = process.env.STREAM_MEDIAMTX_ARGS ?? "";
+  const webrtcAddress = process.env.STREAM_MEDIAMTX_WEBRTC_ADDRESS ?? ":8889";
+  const webrtcAdditionalHosts = (process.env.STREAM_MEDIAMTX_WEBRTC_ADDITIONAL_HOSTS ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
   const config = [
     "logLevel: info",
     "readTimeout: " + readTimeout,
     "writeTimeout: " + writeTimeout,
     "hls: yes",
     "hlsAlwaysRemux: yes",
+    ...(input.playbackFormat === "ll_hls_cmaf" ? ["hlsVariant: lowLatency"] : []),
+    "webrtc: yes",
+    `webrtcAddress: ${yamlDoubleQuoted(webrtcAddress)}`,
+    ...(webrtcAdditionalHosts.length > 0
+      ? [`webrtcAdditionalHosts: [${webrtcAdditionalHosts.map((host) => yamlDoubleQuoted(host)).join(", ")}]`]
+      : []),
     "paths:",
     `  ${streamName}:`,
     `    source: ${yamlDoubleQuoted(sourceUrl)}`,
@@ -334,6 +475,44 @@ function resolveTranscoderCommand(input: StreamMediaInput, storageDir: string, p
   return renderCommandTemplate(commandTemplate, input);
 }
 
+/**
+ * WHEP client for the MediaMTX WebRTC server: the SDP offer is relayed to `<base>/<streamName>/whep` and
+ * the returned Location identifies the session for teardown.
+ */
+function createMediaMtxWebRtc(): NonNullable<MediaEngine["webrtc"]> {
+  const baseUrl = (process.env.STREAM_MEDIAMTX_WEBRTC_URL ?? "http://127.0.0.1:8889").replace(/\/$/, "");
+  return {
+    createWhepSession: async (scope, offerSdp) => {
+      const endpoint = `${baseUrl}/${mediaMtxStreamName(scope)}/whep`;
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: "POST",
+          headers: { "content-type": "application/sdp" },
+          body: offerSdp
+        });
+      } catch (error) {
+        throw new WebRtcNegotiationError(`MediaMTX WHEP endpoint unreachable: ${(error as Error).message}`, 502);
+      }
+      const body = await response.text();
+      if (response.status !== 201) {
+        throw new WebRtcNegotiationError(`MediaMTX WHEP negotiation failed: ${body.slice(0, 200)}`, response.status);
+      }
+      const location = response.headers.get("location");
+      if (!location) {
+        throw new WebRtcNegotiationError("MediaMTX WHEP answer has no session Location", 502);
+      }
+      return { sdp: body, resourceId: new URL(location, `${endpoint}/`).toString() };
+    },
+    deleteWhepSession: async (_scope, resourceId) => {
+      const response = await fetch(resourceId, { method: "DELETE" });
+      if (!response.ok && response.status !== 404) {
+        throw new WebRtcNegotiationError(`MediaMTX WHEP teardown failed with status ${response.status}`, response.status);
+      }
+    }
+  };
+}
+
 type ProcessEngineOptions = {
   engineName?: string;
   defaultPreset?: string;
@@ -352,6 +531,7 @@ export function createProcessMediaEngine(storageDir: string, options: ProcessEng
   const restartBackoffMaxMs = Math.max(restartBackoffMs, Number(process.env.STREAM_TRANSCODER_RESTART_BACKOFF_MAX_MS ?? 3000));
   const workers = new Map<string, ProcessWorkerEntry>();
   const streamStorageDirs = new Map<string, string>();
+  const streamFormats = new Map<string, PlaybackFormat>();
   let closing = false;
 
   const clearRestartTimer = (entry: ProcessWorkerEntry) => {
@@ -419,10 +599,11 @@ export function createProcessMediaEngine(storageDir: string, options: ProcessEng
     const scope = { tenantId: input.tenantId, cameraId: input.cameraId };
     const resolvedStorageDir = input.storageDir ?? storageDir;
     streamStorageDirs.set(streamKey(scope), resolvedStorageDir);
+    streamFormats.set(streamKey(scope), input.playbackFormat ?? "hls_ts");
     if (seedAssets) {
-      await ensurePlaybackAssets(resolvedStorageDir, scope);
+      await ensurePlaybackAssets(resolvedStorageDir, scope, input.playbackFormat);
     } else {
-      await ensureCameraStorageDir(resolvedStorageDir, scope);
+      await ensureCameraStorageDir(resolvedStorageDir, scope, input.playbackFormat);
     }
     const key = streamKey(scope);
     const existing = workers.get(key);
@@ -461,6 +642,7 @@ export function createProcessMediaEngine(storageDir: string, options: ProcessEng
     const key = streamKey(scope);
     const worker = workers.get(key);
     streamStorageDirs.delete(key);
+    streamFormats.delete(key);
     if (!worker) return;
     worker.desiredRunning = false;
     clearRestartTimer(worker);
@@ -518,11 +700,18 @@ export function createProcessMediaEngine(storageDir: string, options: ProcessEng
 
   return {
     name: options.engineName ?? "process-shell",
+    ...(preset === "mediamtx-rtsp-pull" ? { webrtc: createMediaMtxWebRtc() } : {}),
     provisionStream,
     deprovisionStream,
-    readManifest: (scope) => readManifestFile(streamStorageDirs.get(streamKey(scope)) ?? storageDir, scope),
+    readManifest: (scope) =>
+      readManifestFile(streamStorageDirs.get(streamKey(scope)) ?? storageDir, scope, streamFormats.get(streamKey(scope))),
     readSegment: (scope, segmentName) =>
-      readSegmentFile(streamStorageDirs.get(streamKey(scope)) ?? storageDir, scope, segmentName),
+      readSegmentFile(
+        streamStorageDirs.get(streamKey(scope)) ?? storageDir,
+        scope,
+        segmentName,
+        streamFormats.get(streamKey(scope))
+      ),
     close,
     diagnostics
   };
@@ -0,0 +1,440 @@
+const TS_PACKET_SIZE = 188;
+const TS_SYNC_BYTE = 0x47;
+const STREAM_TYPE_H264 = 0x1b;
+const MPEG_TIMESCALE = 90_000;
+const MOVIE_TIMESCALE = 1_000;
+
+type VideoSample = {
+  data: Buffer;
+  dts: number;
+  cts: number;
+  keyframe: boolean;
+};
+
+type AvcConfig = {
+  sps: Buffer;
+  pps: Buffer;
+  width: number;
+  height: number;
+};
+
+export type Mp4RemuxResult = {
+  mp4: Buffer;
+  durationSeconds: number;
+  samples: number;
+  width: number;
+  height: number;
+};
+
+export class Mp4RemuxError extends Error {}
+
+function readTimestamp(buf: Buffer, offset: number) {
+  return (
+    ((buf[offset] >> 1) & 0x07) * 2 ** 30 +
+    (buf[offset + 1] << 22) +
+    ((buf[offset + 2] >> 1) << 15) +
+    (buf[offset + 3] << 7) +
+    (buf[offset + 4] >> 1)
+  );
+}
+
+/** Yields the payload of every 188-byte packet together with its PID, resyncing after garbage. */
+function* readTsPackets(ts: Buffer) {
+  let offset = 0;
+  while (offset + TS_PACKET_SIZE <= ts.length) {
+    if (ts[offset] !== TS_SYNC_BYTE) {
+      offset += 1;
+      continue;
+    }
+    const pid = ((ts[offset + 1] & 0x1f) << 8) | ts[offset + 2];
+    const payloadUnitStart = (ts[offset + 1] & 0x40) !== 0;
+    const adaptationControl = (ts[offset + 3] >> 4) & 0x03;
+    let payloadOffset = offset + 4;
+    if (adaptationControl & 0x02) payloadOffset += 1 + ts[offset + 4];
+    if (adaptationControl & 0x01 && payloadOffset < offset + TS_PACKET_SIZE) {
+      yield { pid, payloadUnitStart, payload: ts.subarray(payloadOffset, offset + TS_PACKET_SIZE) };
+    }
+    offset += TS_PACKET_SIZE;
+  }
+}
+
+function sectionBody(payload: Buffer, payloadUnitStart: boolean) {
+  const start = payloadUnitStart ? 1 + payload[0] : 0;
+  const sectionLength = ((payload[start + 1] & 0x0f) << 8) | payload[start + 2];
+  // Drops the 3-byte table header and the trailing CRC32.
+  return payload.subarray(start + 3, Math.min(payload.length, start + 3 + sectionLength - 4));
+}
+
+function splitAnnexB(data: Buffer) {
+  const units: Buffer[] = [];
+  let start = -1;
+  let index = 0;
+  while (index + 2 < data.length) {
+    if (data[index] === 0 && data[index + 1] === 0 && data[index + 2] === 1) {
+      if (start >= 0) units.push(data.subarray(start, index > 0 && data[index - 1] === 0 ? index - 1 : index));
+      index += 3;
+      start = index;
+      continue;
+    }
+    index += 1;
+  }
+  if (start >= 0 && start < data.length) units.push(data.subarray(start));
+  return units.filter((unit) => unit.length > 0);
+}
+
+class BitReader {
+  private bit = 0;
+
+  constructor(private readonly data: Buffer) {}
+
+  u(bits: number) {
+    let value = 0;
+    for (let i = 0; i < bits; i += 1) {
+      const byte = this.data[this.bit >> 3];
+      if (byte === undefined) throw new Mp4RemuxError("SPS is truncated");
+      value = value * 2 + ((byte >> (7 - (this.bit & 7))) & 1);
+      this.bit += 1;
+    }
+    return value;
+  }
+
+  ue() {
+    let zeros = 0;
+    while (this.u(1) === 0) zeros += 1;
+    return 2 ** zeros - 1 + (zeros > 0 ? this.u(zeros) : 0);
+  }
+
+  se() {
+    const value = this.ue();
+    return value % 2 === 0 ? -(value / 2) : (value + 1) / 2;
+  }
+}
+
+function unescapeRbsp(nal: Buffer) {
+  const bytes: number[] = [];
+  for (let i = 0; i < nal.length; i += 1) {
+    if (i >= 2 && nal[i] === 0x03 && nal[i - 1] === 0 && nal[i - 2] === 0) continue;
+    bytes.push(nal[i]);
+  }
+  return Buffer.from(bytes);
+}
+
+/** Reads the coded picture size from an H.264 SPS (ITU-T H.264 7.3.2.1.1). */
+function parseSpsDimensions(sps: Buffer) {
+  const reader = new BitReader(unescapeRbsp(sps.subarray(1)));
+  const profileIdc = reader.u(8);
+  reader.u(16);
+  reader.ue();
+  let chromaFormatIdc = 1;
+  if ([100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135].includes(profileIdc)) {
+    chromaFormatIdc = reader.ue();
+    if (chromaFormatIdc === 3) reader.u(1);
+    reader.ue();
+    reader.ue();
+    reader.u(1);
+    if (reader.u(1)) {
+      for (let i = 0; i < (chromaFormatIdc === 3 ? 12 : 8); i += 1) {
+        if (!reader.u(1)) continue;
+        let lastScale = 8;
+        let nextScale = 8;
+        for (let j = 0; j < (i < 6 ? 16 : 64); j += 1) {
+          if (nextScale !== 0) nextScale = (lastScale + reader.se() + 256) % 256;
+          lastScale = nextScale === 0 ? lastScale : nextScale;
+        }
+      }
+    }
+  }
+  reader.ue();
+  const picOrderCntType = reader.ue();
+  if (picOrderCntType === 0) {
+    reader.ue();
+  } else if (picOrderCntType === 1) {
+    reader.u(1);
+    reader.se();
+    reader.se();
+    const cycle = reader.ue();
+    for (let i = 0; i < cycle; i += 1) reader.se();
+  }
+  reader.ue();
+  reader.u(1);
+  const widthInMbs = reader.ue() + 1;
+  const heightInMapUnits = reader.ue() + 1;
+  const frameMbsOnly = reader.u(1);
+  if (!frameMbsOnly) reader.u(1);
+  reader.u(1);
+  let crop = { left: 0, right: 0, top: 0, bottom: 0 };
+  if (reader.u(1)) {
+    crop = { left: reader.ue(), right: reader.ue(), top: reader.ue(), bottom: reader.ue() };
+  }
+  const cropUnitX = chromaFormatIdc === 1 || chromaFormatIdc === 2 ? 2 : 1;
+  const cropUnitY = (chromaFormatIdc === 1 ? 2 : 1) * (2 - frameMbsOnly);
+  return {
+    width: widthInMbs * 16 - (crop.left + crop.right) * cropUnitX,
+    height: (2 - frameMbsOnly) * heightInMapUnits * 16 - (crop.top + crop.bottom) * cropUnitY
+  };
+}
+
+/** Pulls H.264 access units out of the first program's video PES stream. */
+function demuxH264(ts: Buffer) {
+  let pmtPid: number | null = null;
+  let videoPid: number | null = null;
+  let unsupportedStreamType: number | null = null;
+  const pesPackets: Buffer[][] = [];
+  let currentPes: Buffer[] | null = null;
+
+  for (const packet of readTsPackets(ts)) {
+    if (packet.pid === 0 && packet.payloadUnitStart) {
+      const body = sectionBody(packet.payload, true);
+      for (let offset = 5; offset + 4 <= body.length; offset += 4) {
+        const programNumber = body.readUInt16BE(offset);
+        if (programNumber === 0) continue;
+        pmtPid = ((body[offset + 2] & 0x1f) << 8) | body[offset + 3];
+        break;
+      }
+      continue;
+    }
+    if (packet.pid === pmtPid && packet.payloadUnitStart) {
+      const body = sectionBody(packet.payload, true);
+      const programInfoLength = ((body[7] & 0x0f) << 8) | body[8];
+      for (let offset = 9 + programInfoLength; offset + 5 <= body.length; ) {
+        const streamType = body[offset];
+        const pid = ((body[offset + 1] & 0x1f) << 8) | body[offset + 2];
+        const esInfoLength = ((body[offset + 3] & 0x0f) << 8) | body[offset + 4];
+        if (streamType === STREAM_TYPE_H264) {
+          videoPid = pid;
+          break;
+        }
+        unsupportedStreamType ??= streamType;
+        offset += 5 + esInfoLength;
+      }
+      continue;
+    }
+    if (packet.pid !== videoPid || videoPid === null) continue;
+    if (packet.payloadUnitStart) {
+      currentPes = [];
+      pesPackets.push(currentPes);
+    }
+    currentPes?.push(packet.payload);
+  }
+
+  if (videoPid === null) {
+    throw new Mp4RemuxError(
+      unsupportedStreamType === null
+        ? "No H.264 video stream found in MPEG-TS input"
+        : `Unsupported MPEG-TS stream type 0x${unsupportedStreamType.toString(16)} (only H.264 can be remuxed without ffmpeg)`
+    );
+  }
+
+  let config: { sps: Buffer; pps: Buffer } | null = null;
+  let sps: Buffer | null = null;
+  let pps: Buffer | null = null;
+  const samples: VideoSample[] = [];
+  let previousDts: number | null = null;
+  let wrapOffset = 0;
+
+  for (const parts of pesPackets) {
+    const pes = Buffer.concat(parts);
+    if (pes.length < 9 || pes[0] !== 0 || pes[1] !== 0 || pes[2] !== 1) continue;
+    const ptsDtsFlags = pes[7] >> 6;
+    if (!(ptsDtsFlags & 0x02)) continue;
+    const pts = readTimestamp(pes, 9);
+    let dts = ptsDtsFlags === 0x03 ? readTimestamp(pes, 14) : pts;
+    // 33-bit clocks wrap roughly every 26.5 hours.
+    if (previousDts !== null && dts + wrapOffset < previousDts - 2 ** 32) wrapOffset += 2 ** 33;
+    dts += wrapOffset;
+    previousDts = dts;
+
+    const units: Buffer[] = [];
+    let keyframe = false;
+    for (const nal of splitAnnexB(pes.subarray(9 + pes[8]))) {
+      const nalType = nal[0] & 0x1f;
+      if (nalType === 7) {
+        sps ??= Buffer.from(nal);
+      } else if (nalType === 8) {
+        pps ??= Buffer.from(nal);
+      } else if (nalType !== 9) {
+        if (nalType === 5) keyframe = true;
+        units.push(nal);
+      }
+    }
+    if (sps && pps) config ??= { sps, pps };
+    // Decoding has to start on an IDR picture with parameter sets already known.
+    if (units.length === 0 || (samples.length === 0 && (!keyframe || !config))) continue;
+    const data = Buffer.concat(
+      units.flatMap((unit) => {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(unit.length);
+        return [length, unit];
+      })
+    );
+    samples.push({ data, dts, cts: Math.max(0, pts + wrapOffset - dts), keyframe });
+  }
+
+  if (!config || samples.length === 0) {
+    throw new Mp4RemuxError("MPEG-TS input has no decodable H.264 keyframe");
+  }
+  return { config: { ...config, ...parseSpsDimensions(config.sps) } as AvcConfig, samples };
+}
+
+function box(type: string, ...payload: Buffer[]) {
+  const body = Buffer.concat(payload);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8);
+  header.write(type, 4, "ascii");
+  return Buffer.concat([header, body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Buffer[]) {
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(((version & 0xff) << 24) | (flags & 0xffffff));
+  return box(type, header, ...payload);
+}
+
+function u32(...values: number[]) {
+  return u32List(values);
+}
+
+// Spreading per-sample tables into u32(...) would overflow the call stack on long recordings.
+function u32List(values: number[]) {
+  const buf = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => buf.writeUInt32BE(value >>> 0, index * 4));
+  return buf;
+}
+
+function u16(...values: number[]) {
+  const buf = Buffer.alloc(values.length * 2);
+  values.forEach((value, index) => buf.writeUInt16BE(value & 0xffff, index * 2));
+  return buf;
+}
+
+const IDENTITY_MATRIX = u32(0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000);
+
+function runLengthTable(values: number[]) {
+  const entries: Array<[number, number]> = [];
+  for (const value of values) {
+    const last = entries[entries.length - 1];
+    if (last && last[1] === value) last[0] += 1;
+    else entries.push([1, value]);
+  }
+  return Buffer.concat([u32(entries.length), ...entries.map(([count, value]) => u32(count, value))]);
+}
+
+function buildMoov(args: { config: AvcConfig; samples: VideoSample[]; durations: number[]; chunkOffset: number }) {
+  const { config, samples, durations } = args;
+  const mediaDuration = durations.reduce((total, value) => total + value, 0);
+  const movieDuration = Math.round((mediaDuration * MOVIE_TIMESCALE) / MPEG_TIMESCALE);
+  const initialCts = samples[0].cts;
+
+  const avcC = box(
+    "avcC",
+    Buffer.from([1, config.sps[1], config.sps[2], config.sps[3], 0xff, 0xe1]),
+    u16(config.sps.length),
+    config.sps,
+    Buffer.from([1]),
+    u16(config.pps.length),
+    config.pps
+  );
+  const compressorName = Buffer.alloc(32);
+  const avc1 = box(
+    "avc1",
+    Buffer.alloc(6),
+    u16(1),
+    Buffer.alloc(16),
+    u16(config.width, config.height),
+    u32(0x00480000, 0x00480000, 0),
+    u16(1),
+    compressorName,
+    u16(0x0018, 0xffff),
+    avcC
+  );
+  const syncSamples = samples.flatMap((sample, index) => (sample.keyframe ? [index + 1] : []));
+  const stbl = box(
+    "stbl",
+    fullBox("stsd", 0, 0, u32(1), avc1),
+    fullBox("stts", 0, 0, runLengthTable(durations)),
+    ...(samples.some((sample) => sample.cts !== 0)
+      ? [fullBox("ctts", 0, 0, runLengthTable(samples.map((sample) => sample.cts)))]
+      : []),
+    fullBox("stss", 0, 0, u32(syncSamples.length), u32List(syncSamples)),
+    fullBox("stsc", 0, 0, u32(1, 1, samples.length, 1)),
+    fullBox("stsz", 0, 0, u32(0, samples.length), u32List(samples.map((sample) => sample.data.length))),
+    fullBox("stco", 0, 0, u32(1, args.chunkOffset))
+  );
+  const minf = box(
+    "minf",
+    fullBox("vmhd", 0, 1, Buffer.alloc(8)),
+    box("dinf", fullBox("dref", 0, 0, u32(1), fullBox("url ", 0, 1))),
+    stbl
+  );
+  const mdia = box(
+    "mdia",
+    fullBox("mdhd", 0, 0, u32(0, 0, MPEG_TIMESCALE, mediaDuration), u16(0x55c4, 0)),
+    fullBox("hdlr", 0, 0, u32(0), Buffer.from("vide", "ascii"), Buffer.alloc(12), Buffer.from("VideoHandler\0", "ascii")),
+    minf
+  );
+  // With B-frames the first presentation time is later than the first decode time; the edit list hides that offset.
+  const edts =
+    initialCts > 0 ? [box("edts", fullBox("elst", 0, 0, u32(1, movieDuration, initialCts), u16(1, 0)))] : [];
+  const trak = box(
+    "trak",
+    fullBox(
+      "tkhd",
+      0,
+      0x03,
+      u32(0, 0, 1, 0, movieDuration, 0, 0),
+      u16(0, 0, 0, 0),
+      IDENTITY_MATRIX,
+      u32(config.width * 0x10000, config.height * 0x10000)
+    ),
+    ...edts,
+    mdia
+  );
+  const mvhd = fullBox(
+    "mvhd",
+    0,
+    0,
+    u32(0, 0, MOVIE_TIMESCALE, movieDuration, 0x00010000),
+    u16(0x0100, 0),
+    Buffer.alloc(8),
+    IDENTITY_MATRIX,
+    Buffer.alloc(24),
+    u32(2)
+  );
+  return box("moov", mvhd, trak);
+}
+
+/**
+ * Remuxes an MPEG-TS H.264 stream (what the HLS workers write) into a progressive MP4 with `moov`
+ * ahead of `mdat` (faststart). Streams are copied, never re-encoded; non-video streams are dropped.
+ */
+export function remuxTsToMp4(ts: Buffer): Mp4RemuxResult {
+  const { config, samples } = demuxH264(ts);
+  const durations = samples.map((sample, index) => {
+    const next = samples[index + 1];
+    if (next) return Math.max(0, next.dts - sample.dts);
+    return index > 0 ? Math.max(0, sample.dts - samples[index - 1].dts) : MPEG_TIMESCALE / 30;
+  });
+  const ftyp = box("ftyp", Buffer.from("isom", "ascii"), u32(0x200), Buffer.from("isomiso2avc1mp41", "ascii"));
+  const mediaBytes = samples.reduce((total, sample) => total + sample.data.length, 0);
+  const largeMdat = mediaBytes + 8 > 0xffffffff;
+  const mdatHeader = largeMdat ? Buffer.alloc(16) : Buffer.alloc(8);
+  if (largeMdat) {
+    mdatHeader.writeUInt32BE(1);
+    mdatHeader.write("mdat", 4, "ascii");
+    mdatHeader.writeBigUInt64BE(BigInt(mediaBytes + 16), 8);
+  } else {
+    mdatHeader.writeUInt32BE(mediaBytes + 8);
+    mdatHeader.write("mdat", 4, "ascii");
+  }
+  // The moov size does not depend on the chunk offset value, so a first pass gives the final layout.
+  const moovSize = buildMoov({ config, samples, durations, chunkOffset: 0 }).length;
+  const moov = buildMoov({ config, samples, durations, chunkOffset: ftyp.length + moovSize + mdatHeader.length });
+  const totalDuration = durations.reduce((total, value) => total + value, 0);
+  return {
+    mp4: Buffer.concat([ftyp, moov, mdatHeader, ...samples.map((sample) => sample.data)]),
+    durationSeconds: totalDuration / MPEG_TIMESCALE,
+    samples: samples.length,
+    width: config.width,
+    height: config.height
+  };
+}
@@ -0,0 +1,172 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export type RegistryCollection = "streams" | "sessions" | "clips" | "storage" | "exports";
+
+export type RegistrySnapshot = Record<RegistryCollection, Map<string, unknown>>;
+
+type RegistryRecord = {
+  collection: RegistryCollection;
+  key: string;
+  value?: unknown;
+  removed?: true;
+};
+
+export type StreamRegistry = {
+  enabled: boolean;
+  filePath: string | null;
+  load(): Promise<RegistrySnapshot>;
+  put(collection: RegistryCollection, key: string, value: unknown): void;
+  remove(collection: RegistryCollection, key: string): void;
+  flush(): Promise<void>;
+  compact(): Promise<void>;
+  stats(): { records: number; journalLines: number; compactions: number; lastError: string | null };
+};
+
+const COLLECTIONS: RegistryCollection[] = ["streams", "sessions", "clips", "storage", "exports"];
+
+function emptySnapshot(): RegistrySnapshot {
+  return { streams: new Map(), sessions: new Map(), clips: new Map(), storage: new Map(), exports: new Map() };
+}
+
+function isRegistryRecord(value: unknown): value is RegistryRecord {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Record<string, unknown>;
+  return COLLECTIONS.includes(record.collection as RegistryCollection) && typeof record.key === "string";
+}
+
+/**
+ * Append-only JSON-lines journal of gateway state. Every change appends one record; `load` folds the
+ * journal (last record per key wins, a torn trailing line from a crash is skipped) and rewrites it compacted.
+ * With `filePath: null` the registry only keeps state in memory.
+ */
+export function createStreamRegistry(args: { filePath: string | null; compactAfterLines?: number }): StreamRegistry {
+  const state = emptySnapshot();
+  const compactAfterLines = Math.max(100, args.compactAfterLines ?? 5_000);
+  let journalLines = 0;
+  let compactions = 0;
+  let lastError: string | null = null;
+  let writeChain: Promise<void> = Promise.resolve();
+
+  const enqueue = (task: (filePath: string) => Promise<void>) => {
+    const filePath = args.filePath;
+    if (!filePath) return;
+    writeChain = writeChain
+      .then(() => task(filePath))
+      .then(() => {
+        lastError = null;
+      })
+      .catch((error) => {
+        lastError = error instanceof Error ? error.message : String(error);
+      });
+  };
+
+  const serializeState = () =>
+    COLLECTIONS.flatMap((collection) =>
+      Array.from(state[collection].entries(), ([key, value]) => JSON.stringify({ collection, key, value }))
+    );
+
+  // Written to a sibling file and renamed so a crash mid-compaction leaves the previous journal intact.
+  const compact = async (filePath: string) => {
+    const lines = serializeState();
+    const tmpPath = `${filePath}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tmpPath, lines.length > 0 ? `${lines.join("\n")}\n` : "", "utf8");
+    await fs.rename(tmpPath, filePath);
+    journalLines = lines.length;
+    compactions += 1;
+  };
+
+  const append = (record: RegistryRecord) => {
+    enqueue(async (filePath) => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.appendFile(filePath, `${JSON.stringify(record)}\n`, "utf8");
+      journalLines += 1;
+      if (journalLines > compactAfterLines) await compact(filePath);
+    });
+  };
+
+  return {
+    enabled: Boolean(args.filePath),
+    filePath: args.filePath,
+    async load() {
+      if (args.filePath) {
+        let raw = "";
+        try {
+          raw = await fs.readFile(args.filePath, "utf8");
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        }
+        for (const line of raw.split("\n")) {
+          if (!line.trim()) continue;
+          let record: unknown;
+          try {
+            record = JSON.parse(line);
+          } catch {
+            continue;
+          }
+          if (!isRegistryRecord(record)) continue;
+          if (record.removed) state[record.collection].delete(record.key);
+          else state[record.collection].set(record.key, record.value);
+        }
+        enqueue(compact);
+        await writeChain;
+      }
+      const snapshot = emptySnapshot();
+      for (const collection of COLLECTIONS) {
+        for (const [key, value] of state[collection]) snapshot[collection].set(key, value);
+      }
+      return snapshot;
+    },
+    put(collection, key, value) {
+      state[collection].set(key, value);
+      append({ collection, key, value });
+    },
+    remove(collection, key) {
+      if (!state[collection].delete(key)) return;
+      append({ collection, key, removed: true });
+    },
+    flush: async () => {
+      await writeChain;
+    },
+    compact: async () => {
+      enqueue(compact);
+      await writeChain;
+    },
+    stats: () => ({
+      records: COLLECTIONS.reduce((total, collection) => total + state[collection].size, 0),
+      journalLines,
+      compactions,
+      lastError
+    })
+  };
+}
+
+export type RegistrySealer = {
+  seal(plaintext: string): string;
+  open(sealed: string): string;
+};
+
+/**
+ * AES-256-GCM for secrets that must survive in the journal (camera credentials). The key is derived from
+ * the configured secret, so a journal copied off the host is useless without the gateway's environment.
+ */
+export function createRegistrySealer(secret: string): RegistrySealer {
+  const key = createHash("sha256").update(`nearhome-registry:${secret}`).digest();
+  return {
+    seal(plaintext) {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv("aes-256-gcm", key, iv);
+      const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+      return [iv, cipher.getAuthTag(), data].map((part) => part.toString("base64url")).join(".");
+    },
+    open(sealed) {
+      const [iv, tag, data] = sealed.split(".").map((part) => Buffer.from(part, "base64url"));
+      if (!iv || !tag || !data) throw new Error("sealed registry value is malformed");
+      const decipher = createDecipheriv("aes-256-gcm", key, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+    }
+  };
+}
@@ -2,9 +2,18 @@ export type ApiClientOptions = {
   baseUrl: string;
   getToken: () => string | null;
   getTenantId?: () => string | null;
+  getRefreshToken?: () => string | null;
+  onTokensRefreshed?: (tokens: RefreshedTokens) => void;
   onUnauthorized?: () => void;
 };
 
+export type RefreshedTokens = {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  refreshTokenExpiresAt: string;
+};
+
 export type QueryParams = Record<string, string | number | boolean | undefined | null>;
 
 export class ApiClientError extends Error {
@@ -21,7 +30,17 @@ export class ApiClientError extends Error {
   }
 }
 
+// Login steps answer 401 for bad credentials/codes and the session endpoints manage the
+// tokens themselves, so a 401 there must not trigger a refresh-and-retry.
+const NON_REFRESHABLE_PATHS = new Set(["/auth/login", "/auth/login/2fa", "/auth/refresh", "/auth/logout", "/auth/oidc/start", "/auth/oidc/callback"]);
+
+function canRetryAfterRefresh(path: string) {
+  return !NON_REFRESHABLE_PATHS.has(path.split("?")[0]);
+}
+
 export class ApiClient {
+  private refreshInFlight: Promise<boolean> | null = null;
+
   constructor(private readonly options: ApiClientOptions) {}
 
   private buildUrl(path: string, params?: QueryParams) {
@@ -36,12 +55,43 @@ export class ApiClient {
     return url.toString();
   }
 
-  private async request<T>(method: string, path: string, body?: unknown, params?: QueryParams): Promise<T> {
+  /**
+   * Exchanges the stored refresh token for a new pair. Concurrent 401s share a single
+   * refresh call so the rotated token is not replayed (which would revoke the session).
+   */
+  refreshSession(): Promise<boolean> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.performRefresh().finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const refreshToken = this.options.getRefreshToken?.();
+    if (!refreshToken) return false;
+    try {
+      const response = await fetch(this.buildUrl("/auth/refresh"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken })
+      });
+      if (!response.ok) return false;
+      const tokens = (await response.json()) as RefreshedTokens;
+      this.options.onTokensRefreshed?.(tokens);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private send(method: string, path: string, body?: unknown, params?: QueryParams) {
     const token = this.options.getToken();
     const tenantId = this.options.getTenantId?.();
     const hasBody = body !== undefined && body !== null;
 
-    const response = await fetch(this.buildUrl(path, params), {
+    return fetch(this.buildUrl(path, params), {
       method,
       headers: {
         ...(hasBody ? { "Content-Type": "application/json" } : {}),
@@ -50,10 +100,17 @@ export class ApiClient {
       },
       ...(hasBody ? { body: JSON.stringify(body) } : {})
     });
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown, params?: QueryParams): Promise<T> {
+    let response = await this.send(method, path, body, params);
+
+    if (response.status === 401 && canRetryAfterRefresh(path) && (await this.refreshSession())) {
+      response = await this.send(method, path, body, params);
+    }
 
     if (response.status === 401) {
       this.options.onUnauthorized?.();
-      throw new Error("Unauthorized");
     }
 
     if (!response.ok) {
@@ -93,15 +150,18 @@ export class ApiClient {
 
 export type SessionState = {
   accessToken: string | null;
+  refreshToken: string | null;
   activeTenantId: string | null;
 };
 
 const TOKEN_KEY = "nearhome_access_token";
+const REFRESH_TOKEN_KEY = "nearhome_refresh_token";
 const TENANT_KEY = "nearhome_active_tenant";
 
 export function loadSessionState(): SessionState {
   return {
     accessToken: localStorage.getItem(TOKEN_KEY),
+    refreshToken: localStorage.getItem(REFRESH_TOKEN_KEY),
     activeTenantId: localStorage.getItem(TENANT_KEY)
   };
 }
@@ -115,6 +175,14 @@ export function saveSessionState(state: Partial<SessionState>) {
     }
   }
 
+  if (state.refreshToken !== undefined) {
+    if (state.refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, state.refreshToken);
+    } else {
+      localStorage.removeItem(REFRESH_TOKEN_KEY);
+    }
+  }
+
   if (state.activeTenantId !== undefined) {
     if (state.activeTenantId) {
       localStorage.setItem(TENANT_KEY, state.activeTenantId);
@@ -3,10 +3,94 @@ import { z } from "zod";
 export const RoleSchema = z.enum(["tenant_admin", "monitor", "client_user"]);
 export type Role = z.infer<typeof RoleSchema>;
 
+export const PlatformRoleSchema = z.enum(["platform_admin", "platform_support", "platform_billing"]);
+export type PlatformRole = z.infer<typeof PlatformRoleSchema>;
+
+export const PermissionSchema = z.enum([
+  "tenant.manage",
+  "reseller.manage",
+  "users.read",
+  "users.manage",
+  "roles.manage",
+  "service_accounts.manage",
+  "audit.read",
+  "households.read",
+  "households.manage",
+  "camera_assignments.read",
+  "camera_assignments.manage",
+  "notifications.read",
+  "notifications.manage",
+  "cameras.read",
+  "cameras.write",
+  "cameras.configure",
+  "cameras.lifecycle",
+  "cameras.delete",
+  "sites.manage",
+  "secrets.reveal",
+  "streams.view",
+  "clips.create",
+  "subscriptions.read",
+  "subscriptions.request",
+  "subscriptions.review",
+  "detections.read",
+  "detections.run",
+  "faces.read",
+  "faces.manage",
+  "incidents.read",
+  "incidents.ack",
+  "incidents.legal_hold",
+  "events.read"
+]);
+export type Permission = z.infer<typeof PermissionSchema>;
+
+// Built-in roles are presets over the permission catalog; tenants can define their own on top.
+export const BUILT_IN_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  tenant_admin: [...PermissionSchema.options],
+  monitor: [
+    "users.read",
+    "households.read",
+    "camera_assignments.read",
+    "notifications.read",
+    "cameras.read",
+    "streams.view",
+    "clips.create",
+    "subscriptions.read",
+    "detections.read",
+    "detections.run",
+    "faces.read",
+    "faces.manage",
+    "incidents.read",
+    "incidents.ack",
+    "events.read"
+  ],
+  client_user: [
+    "households.read",
+    "households.manage",
+    "cameras.read",
+    "cameras.write",
+    "streams.view",
+    "subscriptions.read",
+    "subscriptions.request",
+    "detections.read",
+    "faces.read",
+    "incidents.read",
+    "events.read"
+  ]
+};
+
+// What platform operators may do inside any tenant without impersonating; only platform_admin writes.
+export const PLATFORM_ROLE_PERMISSIONS: Record<PlatformRole, Permission[]> = {
+  platform_admin: [...PermissionSchema.options],
+  platform_support: PermissionSchema.options.filter((permission) => permission.endsWith(".read")),
+  platform_billing: ["users.read", "audit.read", "subscriptions.read", "subscriptions.review"]
+};
+
 export const TenantSchema = z.object({
   id: z.string(),
   name: z.string(),
-  createdAt: z.string()
+  createdAt: z.string(),
+  isReseller: z.boolean().optional(),
+  parentTenantId: z.string().nullable().optional()
 });
 
 export const UserSchema = z.object({
@@ -22,6 +106,8 @@ export const MembershipSchema = z.object({
   tenantId: z.string(),
   userId: z.string(),
   role: RoleSchema,
+  customRole: z.object({ id: z.string(), key: z.string(), name: z.string() }).nullable().optional(),
+  permissions: z.array(PermissionSchema).optional(),
   createdAt: z.string(),
   user: UserSchema.optional(),
   tenant: TenantSchema.optional()
@@ -32,13 +118,18 @@ export const CameraSchema = z.object({
   tenantId: z.string(),
   name: z.string(),
   description: z.string().nullable().optional(),
+  // Credentials are never returned: the userinfo shows as "***" and `hasCredentials` flags it.
   rtspUrl: z.string(),
+  hasCredentials: z.boolean().optional(),
   location: z.string().nullable().optional(),
   tags: z.array(z.string()).default([]),
   isActive: z.boolean(),
   lifecycleStatus: z.enum(["draft", "provisioning", "ready", "degraded", "offline", "error", "retired"]),
   lastSeenAt: z.string().nullable().optional(),
   lastTransitionAt: z.string().nullable().optional(),
+  siteId: z.string().nullable().optional(),
+  groupId: z.string().nullable().optional(),
+  inMaintenance: z.boolean().optional(),
   createdAt: z.string(),
   profile: z
     .object({
@@ -448,10 +539,21 @@ export const IncidentEventSchema = z.object({
   startedAt: z.string(),
   endedAt: z.string().nullable().optional(),
   payload: z.record(z.any()).optional(),
+  // Raised during a maintenance window: kept for the record, never notified.
+  suppressed: z.boolean().optional(),
+  maintenanceWindowId: z.string().nullable().optional(),
+  legalHold: z.boolean().optional(),
+  legalHoldReason: z.string().nullable().optional(),
+  legalHoldAt: z.string().nullable().optional(),
   createdAt: z.string(),
   updatedAt: z.string()
 });
 
+export const IncidentLegalHoldInputSchema = z.object({
+  legalHold: z.boolean(),
+  reason: z.string().min(3).max(500).optional()
+});
+
 export const IncidentEvidenceSchema = z.object({
   id: z.string(),
   tenantId: z.string(),
@@ -461,6 +563,7 @@ export const IncidentEvidenceSchema = z.object({
   scenePrimitiveEventId: z.string().nullable().optional(),
   clipUrl: z.string().nullable().optional(),
   snapshotUrl: z.string().nullable().optional(),
+  exportId: z.string().nullable().optional(),
   createdAt: z.string()
 });
 
@@ -672,11 +775,519 @@ export const LoginInputSchema = z.object({
   audience: z.enum(["backoffice", "portal"]).optional()
 });
 
+export const RefreshTokenInputSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+export const LogoutInputSchema = z.object({
+  refreshToken: z.string().min(1).optional()
+});
+
+export const TwoFactorLoginInputSchema = z
+  .object({
+    challengeToken: z.string().min(1),
+    code: z.string().min(6).max(10).optional(),
+    recoveryCode: z.string().min(6).max(20).optional()
+  })
+  .refine((value) => Boolean(value.code) !== Boolean(value.recoveryCode), {
+    message: "Provide either code or recoveryCode"
+  });
+
+export const TwoFactorCodeInputSchema = z.object({
+  code: z.string().min(6).max(10).optional(),
+  recoveryCode: z.string().min(6).max(20).optional()
+});
+
+export const InvitationCreateInputSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(["tenant_admin", "monitor", "client_user", "operator", "customer"])
+});
+
+export const AcceptInvitationInputSchema = z.object({
+  token: z.string().min(1),
+  name: z.string().min(1).optional(),
+  // Length and strength are checked by the API password policy (PASSWORD_MIN_LENGTH, breached list, history).
+  password: z.string().min(1).optional()
+});
+
+export const ForgotPasswordInputSchema = z.object({
+  email: z.string().email(),
+  audience: z.enum(["backoffice", "portal"]).optional()
+});
+
+export const ResetPasswordInputSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(1)
+});
+
+export const TenantRoleCreateInputSchema = z.object({
+  key: z
+    .string()
+    .min(2)
+    .max(48)
+    .regex(/^[a-z][a-z0-9_-]*$/, "key must be lowercase letters, digits, '-' or '_'"),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  baseRole: RoleSchema,
+  permissions: z.array(PermissionSchema).min(1)
+});
+
+export const TenantRoleUpdateInputSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  baseRole: RoleSchema.optional(),
+  permissions: z.array(PermissionSchema).min(1).optional()
+});
+
+export const ApiKeyScopeSchema = z.enum([
+  "cameras:read",
+  "cameras:write",
+  "incidents:read",
+  "incidents:write",
+  "events:read",
+  "detections:read",
+  "detections:create",
+  "faces:read",
+  "faces:write",
+  "streams:read",
+  "streams:write"
+]);
+
+export const ServiceAccountCreateInputSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  role: z.enum(["tenant_admin", "monitor", "client_user", "operator", "customer"])
+});
+
+export const ServiceAccountUpdateInputSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  role: z.enum(["tenant_admin", "monitor", "client_user", "operator", "customer"]).optional(),
+  disabled: z.boolean().optional()
+});
+
+export const ApiKeyCreateInputSchema = z.object({
+  name: z.string().min(1).optional(),
+  scopes: z.array(ApiKeyScopeSchema).min(1),
+  expiresAt: z.string().datetime().optional()
+});
+
+export const ApiKeyRotateInputSchema = z.object({
+  graceSeconds: z.number().int().min(0).max(7 * 24 * 60 * 60).optional()
+});
+
+export const ImpersonationGrantCreateInputSchema = z.object({
+  tenantId: z.string().min(1),
+  role: RoleSchema,
+  reason: z.string().trim().min(5).max(500),
+  ttlMinutes: z.number().int().positive().optional()
+});
+
+export const PlatformRoleGrantInputSchema = z.object({
+  email: z.string().email(),
+  role: PlatformRoleSchema
+});
+
+export function isValidTimeZone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidLocale(locale: string) {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+const ClockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+export const TenantTimeWindowSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1),
+  start: ClockTimeSchema,
+  end: ClockTimeSchema
+});
+
+// Outside-of-hours webhook/email notifications are held back unless their severity is allowed through.
+export const TenantQuietHoursSchema = TenantTimeWindowSchema.extend({
+  allowSeverities: z.array(z.enum(["low", "medium", "high"])).default(["high"])
+});
+
+export const TenantSupportContactSchema = z.object({
+  name: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().min(3).optional(),
+  url: z.string().url().optional()
+});
+
+export const TenantSettingsSchema = z.object({
+  tenantId: z.string(),
+  timezone: z.string(),
+  locale: z.string(),
+  businessHours: z.array(TenantTimeWindowSchema),
+  quietHours: TenantQuietHoursSchema.nullable(),
+  logoUrl: z.string().nullable(),
+  primaryColor: z.string().nullable(),
+  supportContact: TenantSupportContactSchema.nullable(),
+  updatedAt: z.string().nullable()
+});
+export type TenantSettings = z.infer<typeof TenantSettingsSchema>;
+
+export const TenantSettingsInputSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, "Unknown IANA timezone").optional(),
+  locale: z.string().refine(isValidLocale, "Invalid BCP 47 locale").optional(),
+  businessHours: z.array(TenantTimeWindowSchema).max(14).optional(),
+  quietHours: TenantQuietHoursSchema.nullable().optional(),
+  logoUrl: z.string().url().nullable().optional(),
+  primaryColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Expected #RRGGBB")
+    .nullable()
+    .optional(),
+  supportContact: TenantSupportContactSchema.nullable().optional()
+});
+
+export type TenantDisplaySettings = Pick<TenantSettings, "timezone" | "locale">;
+
+// Renders timestamps the way the tenant reads them; without settings it falls back to the runtime defaults.
+export function formatTenantDateTime(
+  value: string | number | Date,
+  display?: TenantDisplaySettings | null,
+  style: "datetime" | "date" | "time" = "datetime"
+) {
+  const options: Intl.DateTimeFormatOptions =
+    style === "date" ? { dateStyle: "medium" } : style === "time" ? { timeStyle: "medium" } : { dateStyle: "medium", timeStyle: "medium" };
+  return new Intl.DateTimeFormat(display?.locale, { ...options, timeZone: display?.timezone }).format(new Date(value));
+}
+
+export const SiteSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(),
+  name: z.string(),
+  address: z.string().nullable(),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
+  timezone: z.string().nullable(),
+  cameraCount: z.number().int().nonnegative(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+export type Site = z.infer<typeof SiteSchema>;
+
+export const SiteInputSchema = z.object({
+  name: z.string().min(2).max(120),
+  address: z.string().max(500).nullable().optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  timezone: z.string().refine(isValidTimeZone, "Unknown IANA timezone").nullable().optional()
+});
+export const SiteUpdateInputSchema = SiteInputSchema.partial();
+
+export const CameraGroupKindSchema = z.enum(["building", "floor", "area"]);
+export type CameraGroupKind = z.infer<typeof CameraGroupKindSchema>;
+
+export const CameraGroupSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(),
+  siteId: z.string(),
+  parentId: z.string().nullable(),
+  name: z.string(),
+  kind: CameraGroupKindSchema,
+  cameraCount: z.number().int().nonnegative(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+export type CameraGroup = z.infer<typeof CameraGroupSchema>;
+
+export const CameraGroupInputSchema = z.object({
+  siteId: z.string().min(1),
+  parentId: z.string().min(1).nullable().optional(),
+  name: z.string().min(1).max(120),
+  kind: CameraGroupKindSchema.default("area")
+});
+export const CameraGroupUpdateInputSchema = z.object({
+  parentId: z.string().min(1).nullable().optional(),
+  name: z.string().min(1).max(120).optional(),
+  kind: CameraGroupKindSchema.optional()
+});
+
+export const MaintenanceRecurrenceSchema = z.enum(["none", "weekly"]);
+export type MaintenanceRecurrence = z.infer<typeof MaintenanceRecurrenceSchema>;
+
+// Camera- or site-wide maintenance: "none" runs once from startsAt to endsAt; "weekly" repeats `schedule`
+// (site timezone, else the tenant's) from startsAt until endsAt, or indefinitely when endsAt is null.
+export const MaintenanceWindowSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(),
+  cameraId: z.string().nullable(),
+  siteId: z.string().nullable(),
+  reason: z.string(),
+  recurrence: MaintenanceRecurrenceSchema,
+  schedule: TenantTimeWindowSchema.nullable(),
+  startsAt: z.string(),
+  endsAt: z.string().nullable(),
+  active: z.boolean(),
+  createdByUserId: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+export type MaintenanceWindow = z.infer<typeof MaintenanceWindowSchema>;
+
+const MaintenanceWindowFieldsSchema = z.object({
+  cameraId: z.string().min(1).nullable().optional(),
+  siteId: z.string().min(1).nullable().optional(),
+  reason: z.string().min(3).max(500),
+  recurrence: MaintenanceRecurrenceSchema.default("none"),
+  schedule: TenantTimeWindowSchema.nullable().optional(),
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime().nullable().optional()
+});
+
+export const MaintenanceWindowInputSchema = MaintenanceWindowFieldsSchema.superRefine((value, context) => {
+  if (Boolean(value.cameraId) === Boolean(value.siteId)) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: "Exactly one of cameraId or siteId is required", path: ["cameraId"] });
+  }
+  if (value.endsAt && Date.parse(value.endsAt) <= Date.parse(value.startsAt)) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: "endsAt must be after startsAt", path: ["endsAt"] });
+  }
+  if (value.recurrence === "none" && !value.endsAt) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: "endsAt is required for one-off windows", path: ["endsAt"] });
+  }
+  if (value.recurrence === "weekly" && !value.schedule) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: "schedule is required for weekly windows", path: ["schedule"] });
+  }
+});
+export const MaintenanceWindowUpdateInputSchema = MaintenanceWindowFieldsSchema.omit({ cameraId: true, siteId: true }).partial();
+
+// Limits a camera assignment to weekly `windows` (tenant timezone) between validFrom and validUntil;
+// an empty `windows` list allows any time of day inside the date range.
+export const CameraAccessScheduleSchema = z
+  .object({
+    windows: z.array(TenantTimeWindowSchema).max(14).default([]),
+    validFrom: z.string().datetime().nullable().default(null),
+    validUntil: z.string().datetime().nullable().default(null)
+  })
+  .refine((value) => !value.validFrom || !value.validUntil || Date.parse(value.validFrom) < Date.parse(value.validUntil), {
+    message: "validUntil must be after validFrom",
+    path: ["validUntil"]
+  });
+export type CameraAccessSchedule = z.infer<typeof CameraAccessScheduleSchema>;
+
+export const CameraHealthResolutionSchema = z.enum(["raw", "hour"]);
+export type CameraHealthResolution = z.infer<typeof CameraHealthResolutionSchema>;
+
+// "raw" samples are one per health sync; older ones are rolled up into "hour" buckets where
+// `connectivity` is the worst state seen and `onlineRatio` the share of samples that were not offline.
+export const CameraHealthSampleSchema = z.object({
+  id: z.string(),
+  cameraId: z.string(),
+  resolution: CameraHealthResolutionSchema,
+  bucketStart: z.string(),
+  sampleCount: z.number().int(),
+  connectivity: z.enum(["online", "degraded", "offline"]),
+  onlineRatio: z.number(),
+  latencyMs: z.number().nullable(),
+  packetLossPct: z.number().nullable(),
+  jitterMs: z.number().nullable(),
+  error: z.string().nullable()
+});
+export type CameraHealthSample = z.infer<typeof CameraHealthSampleSchema>;
+
+export const CameraHealthHistoryQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  resolution: CameraHealthResolutionSchema.optional()
+});
+
+export const CameraOutageSchema = z.object({
+  id: z.string(),
+  cameraId: z.string(),
+  startedAt: z.string(),
+  endedAt: z.string().nullable(),
+  durationSeconds: z.number(),
+  cause: z.string().nullable(),
+  planned: z.boolean()
+});
+export type CameraOutage = z.infer<typeof CameraOutageSchema>;
+
+export const UptimeGranularitySchema = z.enum(["day", "month"]);
+export type UptimeGranularity = z.infer<typeof UptimeGranularitySchema>;
+
+export const CameraUptimeQuerySchema = z
+  .object({
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+    granularity: UptimeGranularitySchema.default("day"),
+    cameraId: z.string().min(1).optional()
+  })
+  .refine((value) => !value.from || !value.to || Date.parse(value.from) < Date.parse(value.to), {
+    message: "from must be before to",
+    path: ["from"]
+  })
+  .refine((value) => !value.from || Date.parse(value.to ?? new Date().toISOString()) - Date.parse(value.from) <= 366 * 86_400_000, {
+    message: "Uptime reports cover at most 366 days",
+    path: ["from"]
+  });
+
+// Degraded cameras still stream, so only offline time counts as downtime; planned downtime
+// (outages that start inside a maintenance window) is reported apart and does not lower uptimePct.
+export const CameraUptimeStatsSchema = z.object({
+  observedSeconds: z.number(),
+  downtimeSeconds: z.number(),
+  plannedDowntimeSeconds: z.number(),
+  uptimePct: z.number(),
+  outageCount: z.number().int(),
+  mttrSeconds: z.number().nullable()
+});
+
+export const CameraUptimeReportSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  granularity: UptimeGranularitySchema,
+  timezone: z.string(),
+  summary: CameraUptimeStatsSchema,
+  cameras: z.array(
+    CameraUptimeStatsSchema.extend({
+      cameraId: z.string(),
+      name: z.string(),
+      periods: z.array(CameraUptimeStatsSchema.extend({ period: z.string(), from: z.string(), to: z.string() })),
+      outages: z.array(CameraOutageSchema)
+    })
+  )
+});
+export type CameraUptimeReport = z.infer<typeof CameraUptimeReportSchema>;
+
+// Column order shared by the CSV import template and the CSV export.
+export const CAMERA_IMPORT_CSV_COLUMNS = [
+  "name",
+  "rtspUrl",
+  "description",
+  "location",
+  "tags",
+  "isActive",
+  "profile",
+  "detectionProfile"
+] as const;
+
+export const CameraImportProfileSchema = z.object({
+  recordingEnabled: z.boolean().optional(),
+  sceneTags: z.array(z.string()).optional(),
+  detectorFlags: z
+    .object({
+      mediapipe: z.boolean(),
+      yolo: z.boolean(),
+      lpr: z.boolean()
+    })
+    .optional()
+});
+
+export const CameraImportRowSchema = z.object({
+  name: z.string().min(2),
+  rtspUrl: z.string().min(4),
+  description: z.string().max(2000).optional(),
+  location: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  isActive: z.boolean().default(true),
+  profile: CameraImportProfileSchema.optional(),
+  // Same shape as PUT /cameras/:id/detection-profile; validated by the API.
+  detectionProfile: z.record(z.any()).optional()
+});
+export type CameraImportRow = z.infer<typeof CameraImportRowSchema>;
+
+export const CameraImportInputSchema = z.discriminatedUnion("format", [
+  z.object({ format: z.literal("csv"), content: z.string().min(1), dryRun: z.boolean().default(true) }),
+  z.object({ format: z.literal("json"), rows: z.array(z.unknown()).min(1).max(500), dryRun: z.boolean().default(true) })
+]);
+
+export const CameraImportRowResultSchema = z.object({
+  row: z.number().int().positive(),
+  name: z.string().nullable(),
+  rtspUrl: z.string().nullable(),
+  status: z.enum(["valid", "invalid", "duplicate", "over_limit"]),
+  errors: z.array(z.string()),
+  cameraId: z.string().nullable()
+});
+
+export const CameraImportReportSchema = z.object({
+  dryRun: z.boolean(),
+  committed: z.boolean(),
+  totals: z.object({
+    rows: z.number().int().nonnegative(),
+    valid: z.number().int().nonnegative(),
+    invalid: z.number().int().nonnegative(),
+    duplicate: z.number().int().nonnegative(),
+    overLimit: z.number().int().nonnegative()
+  }),
+  capacity: z
+    .object({
+      limit: z.enum(["maxCameras", "resellerPoolCameras"]),
+      maxAllowed: z.number().int().nonnegative(),
+      current: z.number().int().nonnegative(),
+      remaining: z.number().int().nonnegative()
+    })
+    .nullable(),
+  rows: z.array(CameraImportRowResultSchema)
+});
+export type CameraImportReport = z.infer<typeof CameraImportReportSchema>;
+
+// Share of the reseller plan carved out for a child tenant; unset limits fall back to the shared pool.
+export const ResellerAllocationSchema = z.object({
+  maxCameras: z.number().int().nonnegative().optional(),
+  maxConcurrentStreams: z.number().int().nonnegative().optional()
+});
+export type ResellerAllocation = z.infer<typeof ResellerAllocationSchema>;
+
+export const ChildTenantCreateInputSchema = z.object({
+  name: z.string().min(2),
+  allocation: ResellerAllocationSchema.optional()
+});
+
+// Control-plane data the retention sweeper purges once it falls outside the tenant's window.
+export const RetentionEntitySchema = z.enum([
+  "events",
+  "notificationDeliveries",
+  "incidents",
+  "scenePrimitives",
+  "trackPoints",
+  "tracks",
+  "detectionObservations",
+  "faceEmbeddings",
+  "cameraHealthSamples"
+]);
+export type RetentionEntity = z.infer<typeof RetentionEntitySchema>;
+
+export const RetentionSweepInputSchema = z.object({
+  dryRun: z.boolean().default(true),
+  tenantId: z.string().min(1).optional()
+});
+
+// Encrypted fields covered by the secrets rotation sweep.
+export const SecretFieldSchema = z.enum([
+  "camera.rtspCredentials",
+  "notificationChannel.authToken",
+  "notificationChannel.headers",
+  "oidcConfig.clientSecret",
+  "inferenceProvider.authConfig"
+]);
+export type SecretField = z.infer<typeof SecretFieldSchema>;
+
+export const SecretRotationInputSchema = z.object({
+  dryRun: z.boolean().default(true)
+});
+
 export const MeResponseSchema = z.object({
   user: UserSchema,
   memberships: z.array(MembershipSchema),
   activeTenant: TenantSchema.optional(),
-  entitlements: EntitlementsSchema.optional()
+  entitlements: EntitlementsSchema.optional(),
+  twoFactor: z.object({ enabled: z.boolean(), required: z.boolean() }).optional(),
+  permissions: z.array(PermissionSchema).optional(),
+  platformRoles: z.array(PlatformRoleSchema).optional()
 });
 
 export interface DetectorPlugin<TSample> {
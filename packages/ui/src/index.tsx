@@ -34,6 +34,8 @@ export function WorkspaceShell({
   tenantSwitcher,
   onLogout,
   navigation,
+  logoUrl,
+  accentColor,
   children
 }: PropsWithChildren<{
   product: string;
@@ -42,14 +44,22 @@ export function WorkspaceShell({
   tenantSwitcher?: ReactNode;
   onLogout?: () => void;
   navigation: WorkspaceNavGroup[];
+  logoUrl?: string | null;
+  accentColor?: string | null;
 }>) {
   return (
     <AppShell>
-      <header className="sticky top-0 z-30 border-b border-slate-200 bg-white/90 backdrop-blur">
+      <header
+        className={clsx("sticky top-0 z-30 border-b border-slate-200 bg-white/90 backdrop-blur", accentColor && "border-t-4")}
+        style={accentColor ? { borderTopColor: accentColor } : undefined}
+      >
         <div className="mx-auto flex max-w-7xl items-center justify-between gap-3 px-4 py-3 sm:px-6">
-          <div className="min-w-0">
-            <div className="truncate text-lg font-semibold">{product}</div>
-            {subtitle ? <div className="truncate text-xs text-slate-500">{subtitle}</div> : null}
+          <div className="flex min-w-0 items-center gap-3">
+            {logoUrl ? <img src={logoUrl} alt="" className="h-8 w-auto max-w-[120px] object-contain" /> : null}
+            <div className="min-w-0">
+              <div className="truncate text-lg font-semibold">{product}</div>
+              {subtitle ? <div className="truncate text-xs text-slate-500">{subtitle}</div> : null}
+            </div>
           </div>
           <div className="flex items-center gap-2">
             {role}